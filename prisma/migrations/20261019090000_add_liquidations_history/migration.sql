@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."liquidations" (
+    "tid" BIGINT NOT NULL,
+    "time" VARCHAR(32) NOT NULL,
+    "time_ms" BIGINT NOT NULL,
+    "coin" VARCHAR(50) NOT NULL,
+    "hash" VARCHAR(100) NOT NULL,
+    "liquidated_user" VARCHAR(42) NOT NULL,
+    "size_total" DOUBLE PRECISION NOT NULL,
+    "notional_total" DOUBLE PRECISION NOT NULL,
+    "fill_px_vwap" DOUBLE PRECISION NOT NULL,
+    "mark_px" DOUBLE PRECISION NOT NULL,
+    "method" VARCHAR(50) NOT NULL,
+    "fee_total_liquidated" DOUBLE PRECISION NOT NULL,
+    "liquidators" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "liquidator_count" INTEGER NOT NULL,
+    "liq_dir" VARCHAR(5) NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "liquidations_pkey" PRIMARY KEY ("tid")
+);
+
+-- CreateIndex
+CREATE INDEX "liquidations_time_ms_tid_idx" ON "public"."liquidations"("time_ms", "tid");
+
+-- CreateIndex
+CREATE INDEX "liquidations_coin_time_ms_idx" ON "public"."liquidations"("coin", "time_ms");
+
+-- CreateIndex
+CREATE INDEX "liquidations_liquidated_user_time_ms_idx" ON "public"."liquidations"("liquidated_user", "time_ms");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."liquidation_cascades" (
+    "id" VARCHAR(100) NOT NULL,
+    "coin" VARCHAR(50) NOT NULL,
+    "status" VARCHAR(10) NOT NULL,
+    "start_time_ms" BIGINT NOT NULL,
+    "end_time_ms" BIGINT NOT NULL,
+    "liquidations_count" INTEGER NOT NULL,
+    "total_notional" DOUBLE PRECISION NOT NULL,
+    "long_notional" DOUBLE PRECISION NOT NULL,
+    "short_notional" DOUBLE PRECISION NOT NULL,
+    "first_mark_px" DOUBLE PRECISION NOT NULL,
+    "last_mark_px" DOUBLE PRECISION NOT NULL,
+    "triggers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "tids" BIGINT[] DEFAULT ARRAY[]::BIGINT[],
+    "detected_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "liquidation_cascades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "liquidation_cascades_start_time_ms_idx" ON "public"."liquidation_cascades"("start_time_ms");
+
+-- CreateIndex
+CREATE INDEX "liquidation_cascades_coin_start_time_ms_idx" ON "public"."liquidation_cascades"("coin", "start_time_ms");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."perp_funding_snapshots" (
+    "coin" VARCHAR(50) NOT NULL,
+    "hour_ms" BIGINT NOT NULL,
+    "funding" DOUBLE PRECISION NOT NULL,
+    "premium" DOUBLE PRECISION NOT NULL,
+    "oracle_px" DOUBLE PRECISION NOT NULL,
+    "mark_px" DOUBLE PRECISION NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "perp_funding_snapshots_pkey" PRIMARY KEY ("coin","hour_ms")
+);
+
+-- CreateIndex
+CREATE INDEX "perp_funding_snapshots_hour_ms_idx" ON "public"."perp_funding_snapshots"("hour_ms");
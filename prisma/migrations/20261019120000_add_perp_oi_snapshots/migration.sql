@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "public"."perp_oi_snapshots" (
+    "coin" VARCHAR(50) NOT NULL,
+    "time_ms" BIGINT NOT NULL,
+    "open_interest" DOUBLE PRECISION NOT NULL,
+    "open_interest_usd" DOUBLE PRECISION NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "perp_oi_snapshots_pkey" PRIMARY KEY ("coin","time_ms")
+);
+
+-- CreateIndex
+CREATE INDEX "perp_oi_snapshots_time_ms_idx" ON "public"."perp_oi_snapshots"("time_ms");
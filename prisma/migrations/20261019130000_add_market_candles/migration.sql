@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."market_candles" (
+    "market_type" VARCHAR(10) NOT NULL,
+    "market" VARCHAR(50) NOT NULL,
+    "interval" VARCHAR(4) NOT NULL,
+    "open_time_ms" BIGINT NOT NULL,
+    "open" DOUBLE PRECISION NOT NULL,
+    "high" DOUBLE PRECISION NOT NULL,
+    "low" DOUBLE PRECISION NOT NULL,
+    "close" DOUBLE PRECISION NOT NULL,
+    "volume" DOUBLE PRECISION NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "market_candles_pkey" PRIMARY KEY ("market_type","market","interval","open_time_ms")
+);
+
+-- CreateIndex
+CREATE INDEX "market_candles_interval_open_time_ms_idx" ON "public"."market_candles"("interval", "open_time_ms");
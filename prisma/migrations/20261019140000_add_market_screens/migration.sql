@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."market_screens" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "market" VARCHAR(10) NOT NULL DEFAULT 'all',
+    "filter" VARCHAR(1000) NOT NULL,
+    "sort" VARCHAR(255),
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "market_screens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_screens_user_id_name_key" ON "public"."market_screens"("user_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."market_screens" ADD CONSTRAINT "market_screens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
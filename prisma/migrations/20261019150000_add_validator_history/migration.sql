@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."validator_snapshots" (
+    "validator" VARCHAR(42) NOT NULL,
+    "time_ms" BIGINT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "stake" DOUBLE PRECISION NOT NULL,
+    "commission" DOUBLE PRECISION NOT NULL,
+    "uptime" DOUBLE PRECISION NOT NULL,
+    "apr" DOUBLE PRECISION NOT NULL,
+    "is_active" BOOLEAN NOT NULL,
+    "is_jailed" BOOLEAN NOT NULL,
+    "unjailable_after" BIGINT,
+    "n_recent_blocks" INTEGER NOT NULL,
+
+    CONSTRAINT "validator_snapshots_pkey" PRIMARY KEY ("validator","time_ms")
+);
+
+-- CreateTable
+CREATE TABLE "public"."validator_events" (
+    "id" SERIAL NOT NULL,
+    "validator" VARCHAR(42) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "type" VARCHAR(30) NOT NULL,
+    "previous_value" DOUBLE PRECISION,
+    "current_value" DOUBLE PRECISION,
+    "unjailable_after" BIGINT,
+    "time_ms" BIGINT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "validator_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "validator_snapshots_time_ms_idx" ON "public"."validator_snapshots"("time_ms");
+
+-- CreateIndex
+CREATE INDEX "validator_events_validator_time_ms_idx" ON "public"."validator_events"("validator", "time_ms");
+
+-- CreateIndex
+CREATE INDEX "validator_events_time_ms_idx" ON "public"."validator_events"("time_ms");
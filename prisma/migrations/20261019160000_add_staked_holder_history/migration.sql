@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."staked_holder_snapshots" (
+    "time_ms" BIGINT NOT NULL,
+    "holders_count" INTEGER NOT NULL,
+    "total_staked" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "staked_holder_snapshots_pkey" PRIMARY KEY ("time_ms")
+);
+
+-- CreateTable
+CREATE TABLE "public"."staked_holder_balances" (
+    "address" VARCHAR(42) NOT NULL,
+    "time_ms" BIGINT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "staked_holder_balances_pkey" PRIMARY KEY ("address","time_ms")
+);
+
+-- CreateIndex
+CREATE INDEX "staked_holder_balances_time_ms_idx" ON "public"."staked_holder_balances"("time_ms");
@@ -10,6 +10,7 @@ import { SECURITY_CONSTANTS } from './constants/security.constants';
 import { securityHeaders } from './middleware/security.middleware';
 
 import { ClientInitializerService } from './core/client.initializer.service';
+import { WSManagerService } from './services/liquidations/ws-manager.service';
 import { prisma } from './core/prisma.service';
 import { FileCleanupService } from './utils/fileCleanup';
 
@@ -19,9 +20,17 @@ import userAuthRoutes from './routes/auth/user.auth.routes';
 import marketSpotRoutes from './routes/spot/marketSpot.routes';
 import marketPerpRoutes from './routes/perp/marketPerp.routes';
 import globalSpotStatsRoutes from './routes/spot/spotStats.routes';
+import tokenConcentrationRoutes from './routes/spot/tokenConcentration.routes';
+import tokenLaunchRoutes from './routes/spot/tokenLaunch.routes';
 import globalPerpStatsRoutes from './routes/perp/perpStats.routes';
+import perpFundingRoutes from './routes/perp/perpFunding.routes';
+import perpOpenInterestRoutes from './routes/perp/perpOpenInterest.routes';
+import perpBasisRoutes from './routes/perp/perpBasis.routes';
 import auctionRoutes from './routes/spot/auction.routes';
 import vaultsRoutes from './routes/vault/vaults.routes';
+import assetRoutes from './routes/assets/asset.routes';
+import screenerRoutes from './routes/screener/screener.routes';
+import moversRoutes from './routes/movers/movers.routes';
 import feesRoutes from './routes/fees/fees.routes';
 
 import walletRoutes from './routes/wallet/wallet.routes';
@@ -35,6 +44,8 @@ import linkPreviewRoutes from './routes/linkPreview/linkPreview.routes';
 import publicGoodRoutes from './routes/publicgood';
 
 import validatorRoutes from './routes/staking/validator.routes';
+import validatorEventsRoutes from './routes/staking/validatorEvents.routes';
+import stakingSimulatorRoutes from './routes/staking/stakingSimulator.routes';
 import trendingValidatorRoutes from './routes/staking/trendingValidator.routes';
 import validationRoutes from './routes/staking/validation.routes';
 import unstakingRoutes from './routes/staking/unstaking.routes';
@@ -47,10 +58,14 @@ import healthRoutes from './routes/health.routes';
 import liquidationsRoutes from './routes/liquidations/liquidations.routes';
 import topTradersRoutes from './routes/toptraders/toptraders.routes';
 import activeUsersRoutes from './routes/activeusers/activeusers.routes';
+import telegramRoutes from './routes/telegram/telegram.routes';
 
 const app = express();
 const server = createServer(app);
 
+// WebSocket temps réel des liquidations (/liquidations/ws)
+WSManagerService.getInstance().attach(server);
+
 // Désactiver l'en-tête X-Powered-By pour des raisons de sécurité
 app.disable('x-powered-by');
 
@@ -107,6 +122,9 @@ app.use('/market/spot', marketSpotRoutes);
 app.use('/market/perp', marketPerpRoutes);
 app.use('/market/auction', auctionRoutes);
 app.use('/market/vaults', vaultsRoutes);
+app.use('/market/assets', assetRoutes);
+app.use('/market/screener', screenerRoutes);
+app.use('/market/movers', moversRoutes);
 app.use('/market/fees', feesRoutes);
 app.use('/wallet', walletRoutes);
 app.use('/project', projectRoutes);
@@ -117,20 +135,29 @@ app.use('/readlists', readListRoutes);
 app.use('/walletlists', walletListRoutes);
 app.use('/link-preview', linkPreviewRoutes);
 app.use('/publicgoods', publicGoodRoutes);
+// Avant /staking/validators : le stream SSE ne passe pas par le rate limiter des validateurs
+app.use('/staking/validators/events', validatorEventsRoutes);
 app.use('/staking/validators', validatorRoutes);
 app.use('/staking/validators/trending', trendingValidatorRoutes);
 app.use('/staking/validations', validationRoutes);
 app.use('/staking/unstaking-queue', unstakingRoutes);
 app.use('/staking/holders', stakedHoldersRoutes);
+app.use('/staking/simulate', stakingSimulatorRoutes);
 app.use('/home/globalstats', dashboardGlobalStatsRoutes);
 app.use('/market/spot/globalstats', globalSpotStatsRoutes);
+app.use('/market/spot/concentration', tokenConcentrationRoutes);
+app.use('/market/spot/launches', tokenLaunchRoutes);
 app.use('/market/perp/globalstats', globalPerpStatsRoutes);
+app.use('/market/perp/funding', perpFundingRoutes);
+app.use('/market/perp/oi', perpOpenInterestRoutes);
+app.use('/market/perp/basis', perpBasisRoutes);
 app.use('/leaderboard', leaderboardRoutes);
 app.use('/xp', xpRoutes);
 app.use('/api/health', healthRoutes);
 app.use('/liquidations', liquidationsRoutes);
 app.use('/top-traders', topTradersRoutes);
 app.use('/active-users', activeUsersRoutes);
+app.use('/telegram', telegramRoutes);
 
 const PORT = process.env.PORT || 3002;
 
@@ -158,7 +185,7 @@ clientInitializer.initialize()
 // Gestion de l'arrêt propre de l'application
 process.on('SIGINT', async () => {
   logDeduplicator.info('Received SIGINT. Performing graceful shutdown...');
-  // Stop all polling and shutdown SSE connections
+  // Stop all polling and shutdown SSE/WebSocket connections
   clientInitializer.stopAllPolling();
   await prisma.$disconnect();
   process.exit(0);
@@ -166,7 +193,7 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   logDeduplicator.info('Received SIGTERM. Performing graceful shutdown...');
-  // Stop all polling and shutdown SSE connections
+  // Stop all polling and shutdown SSE/WebSocket connections
   clientInitializer.stopAllPolling();
   await prisma.$disconnect();
   process.exit(0);
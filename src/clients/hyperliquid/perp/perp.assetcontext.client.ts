@@ -1,10 +1,16 @@
 import { BaseApiService } from '../../../core/base.api.service';
-import { PerpMarket, PerpAssetContext } from '../../../types/market.types';
+import { PerpMarket, PerpAssetContext, PerpMarketData, PerpDex } from '../../../types/market.types';
+import { MAIN_PERP_DEX } from '../../../constants/perp.constants';
 import { CircuitBreakerService } from '../../../core/circuit.breaker.service';
 import { RateLimiterService } from '../../../core/hyperLiquid.ratelimiter.service';
 import { redisService } from '../../../core/redis.service';
 import { logDeduplicator } from '../../../utils/logDeduplicator';
 
+type MetaAndAssetCtxs = [{ universe: PerpMarket[] }, PerpAssetContext[]];
+
+// Réponse de perpDexs : null pour le DEX principal, puis un objet par DEX HIP-3
+type RawPerpDex = { name: string; fullName: string; deployer: string } | null;
+
 export class HyperliquidPerpClient extends BaseApiService {
   private static instance: HyperliquidPerpClient;
   private static readonly API_URL = 'https://api.hyperliquid.xyz/info';
@@ -13,17 +19,30 @@ export class HyperliquidPerpClient extends BaseApiService {
 
   private readonly CACHE_KEY_RAW = 'perp:raw_data';
   private readonly CACHE_KEY_MARKETS = 'perp:markets';
+  private readonly CACHE_KEY_DEX_MARKETS = 'perp:markets:hip3';
   private readonly UPDATE_CHANNEL = 'perp:data:updated';
+  private readonly CACHE_KEY_DEXES = 'perp:dexes';
   private readonly UPDATE_INTERVAL = 10000; // 10 secondes
+  // Les DEX HIP-3 coûtent une requête chacun : rafraîchis moins souvent que le DEX principal
+  private readonly DEX_UPDATE_INTERVAL = 30000; // 30 secondes
+  private readonly DEX_LIST_UPDATE_INTERVAL = 10 * 60 * 1000; // 10 minutes
   private lastUpdate: number = 0;
   private pollingInterval: NodeJS.Timeout | null = null;
 
+  private dexes: PerpDex[] = [];
+  private dexMarkets: Map<string, PerpMarketData[]> = new Map();
+  private lastDexUpdate: number = 0;
+  private lastDexListUpdate: number = 0;
+
   private circuitBreaker: CircuitBreakerService;
+  private dexCircuitBreaker: CircuitBreakerService;
   private rateLimiter: RateLimiterService;
 
   private constructor() {
     super(HyperliquidPerpClient.API_URL);
     this.circuitBreaker = CircuitBreakerService.getInstance('perp');
+    // Disjoncteur séparé : une panne d'un DEX HIP-3 ne doit pas couper le DEX principal
+    this.dexCircuitBreaker = CircuitBreakerService.getInstance('perpDex');
     this.rateLimiter = RateLimiterService.getInstance('perp', {
       maxWeightPerMinute: HyperliquidPerpClient.MAX_WEIGHT_PER_MINUTE,
       requestWeight: HyperliquidPerpClient.REQUEST_WEIGHT
@@ -68,37 +87,21 @@ export class HyperliquidPerpClient extends BaseApiService {
   private async updatePerpData(): Promise<void> {
     try {
       const [meta, assetContexts] = await this.circuitBreaker.execute(() => 
-        this.post<[{ universe: PerpMarket[] }, PerpAssetContext[]]>('', {
+        this.post<MetaAndAssetCtxs>('', {
           type: "metaAndAssetCtxs"
         })
       );
       
-      const marketsData = meta.universe
-        .map((market: PerpMarket, index: number) => {
-          const assetContext = assetContexts[index];
-          const currentPrice = Number(assetContext.markPx);
-          const prevDayPrice = Number(assetContext.prevDayPx);
-          const change = prevDayPrice !== 0 ? Number((((currentPrice - prevDayPrice) / prevDayPrice) * 100).toFixed(2)) : 0;
-          const volume = Number(assetContext.dayNtlVlm);
-
-          return {
-            index: index,
-            name: market.name,
-            logo: `https://app.hyperliquid.xyz/coins/${market.name}.svg`,
-            price: currentPrice,
-            change24h: change,
-            volume: volume,
-            openInterest: Number(assetContext.openInterest),
-            funding: Number(assetContext.funding),
-            maxLeverage: market.maxLeverage,
-            onlyIsolated: market.onlyIsolated || false
-          };
-        })
-        .filter(market => market.volume > 0); // Filtrer les tokens avec un volume de 0
+      const mainMarkets = this.toMarketsData(meta, assetContexts, MAIN_PERP_DEX);
+      const dexMarkets = await this.getDexMarkets();
 
+      // perp:raw_data et perp:markets restent limités au DEX principal, comme pour leurs consommateurs
+      // (funding, OI, bougies, basis...) ; les marchés HIP-3 ont leur propre clé
       await Promise.all([
         redisService.set(this.CACHE_KEY_RAW, JSON.stringify([meta, assetContexts])),
-        redisService.set(this.CACHE_KEY_MARKETS, JSON.stringify(marketsData))
+        redisService.set(this.CACHE_KEY_MARKETS, JSON.stringify(mainMarkets)),
+        redisService.set(this.CACHE_KEY_DEX_MARKETS, JSON.stringify(dexMarkets)),
+        redisService.set(this.CACHE_KEY_DEXES, JSON.stringify(this.getDexes()))
       ]);
 
       const now = Date.now();
@@ -108,8 +111,10 @@ export class HyperliquidPerpClient extends BaseApiService {
       }));
       this.lastUpdate = now;
       logDeduplicator.info('Perp data updated & cached', {
-        markets: marketsData.length,
-        filteredOut: meta.universe.length - marketsData.length
+        mainMarkets: mainMarkets.length,
+        dexMarkets: dexMarkets.length,
+        dexes: this.dexes.length,
+        filteredOut: meta.universe.length - mainMarkets.length
       });
     } catch (error) {
       logDeduplicator.error('Failed to update perp data:', { error });
@@ -117,17 +122,117 @@ export class HyperliquidPerpClient extends BaseApiService {
     }
   }
 
+  /**
+   * Transforme l'univers d'un DEX en données de marché, sans les marchés sans volume
+   */
+  private toMarketsData(meta: { universe: PerpMarket[] }, assetContexts: PerpAssetContext[], dex: string): PerpMarketData[] {
+    return meta.universe
+      .map((market: PerpMarket, index: number) => {
+        const assetContext = assetContexts[index];
+        const currentPrice = Number(assetContext.markPx);
+        const prevDayPrice = Number(assetContext.prevDayPx);
+        const change = prevDayPrice !== 0 ? Number((((currentPrice - prevDayPrice) / prevDayPrice) * 100).toFixed(2)) : 0;
+        const volume = Number(assetContext.dayNtlVlm);
+
+        return {
+          index: index,
+          name: market.name,
+          dex,
+          logo: `https://app.hyperliquid.xyz/coins/${market.name}.svg`,
+          price: currentPrice,
+          change24h: change,
+          volume: volume,
+          openInterest: Number(assetContext.openInterest),
+          funding: Number(assetContext.funding),
+          maxLeverage: market.maxLeverage,
+          onlyIsolated: market.onlyIsolated || false
+        };
+      })
+      .filter(market => market.volume > 0); // Filtrer les tokens avec un volume de 0
+  }
+
+  /**
+   * Marchés des DEX HIP-3, rafraîchis toutes les DEX_UPDATE_INTERVAL ms
+   * En cas d'échec, les derniers marchés connus du DEX sont conservés
+   */
+  private async getDexMarkets(): Promise<PerpMarketData[]> {
+    const now = Date.now();
+    if (now - this.lastDexUpdate >= this.DEX_UPDATE_INTERVAL) {
+      this.lastDexUpdate = now;
+
+      try {
+        await this.updateDexList(now);
+
+        const results = await Promise.allSettled(this.dexes.map(dex =>
+          this.dexCircuitBreaker.execute(() =>
+            this.post<MetaAndAssetCtxs>('', { type: "metaAndAssetCtxs", dex: dex.name })
+          )
+        ));
+
+        results.forEach((result, index) => {
+          const dex = this.dexes[index].name;
+          if (result.status === 'fulfilled') {
+            const [meta, assetContexts] = result.value;
+            this.dexMarkets.set(dex, this.toMarketsData(meta, assetContexts, dex));
+          } else {
+            logDeduplicator.warn('Failed to update perp DEX data, keeping last known markets', {
+              dex,
+              error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+            });
+          }
+        });
+      } catch (error) {
+        logDeduplicator.warn('Failed to update perp DEX markets', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return Array.from(this.dexMarkets.values()).flat();
+  }
+
+  /**
+   * Liste des DEX HIP-3, rafraîchie toutes les DEX_LIST_UPDATE_INTERVAL ms
+   */
+  private async updateDexList(now: number): Promise<void> {
+    if (now - this.lastDexListUpdate < this.DEX_LIST_UPDATE_INTERVAL) return;
+
+    const rawDexes = await this.dexCircuitBreaker.execute(() =>
+      this.post<RawPerpDex[]>('', { type: "perpDexs" })
+    );
+    this.dexes = rawDexes
+      .filter((dex): dex is NonNullable<RawPerpDex> => dex !== null)
+      .map(dex => ({ name: dex.name, fullName: dex.fullName, deployer: dex.deployer }));
+    this.lastDexListUpdate = now;
+
+    // Retirer les marchés des DEX qui ne sont plus listés
+    const names = new Set(this.dexes.map(dex => dex.name));
+    for (const dex of this.dexMarkets.keys()) {
+      if (!names.has(dex)) this.dexMarkets.delete(dex);
+    }
+  }
+
+  /**
+   * DEX connus, DEX principal en premier
+   */
+  public getDexes(): PerpDex[] {
+    return [
+      { name: MAIN_PERP_DEX, fullName: 'Hyperliquid', deployer: null },
+      ...this.dexes
+    ];
+  }
+
   /**
    * Récupère les données brutes de l'API
    */
-  public async getMetaAndAssetCtxsRaw(): Promise<[{ universe: PerpMarket[] }, PerpAssetContext[]]> {
+  public async getMetaAndAssetCtxsRaw(): Promise<MetaAndAssetCtxs> {
     try {
       const cached = await redisService.get(this.CACHE_KEY_RAW);
       if (cached) {
         logDeduplicator.info('Retrieved perp data from cache', {
           lastUpdate: this.lastUpdate
         });
-        return JSON.parse(cached) as [{ universe: PerpMarket[] }, PerpAssetContext[]];
+        return JSON.parse(cached) as MetaAndAssetCtxs;
       }
 
       logDeduplicator.warn('No perp data in cache, forcing update');
@@ -136,7 +241,7 @@ export class HyperliquidPerpClient extends BaseApiService {
       if (!freshData) {
         throw new Error('Failed to get perp data after update');
       }
-      return JSON.parse(freshData) as [{ universe: PerpMarket[] }, PerpAssetContext[]];
+      return JSON.parse(freshData) as MetaAndAssetCtxs;
     } catch (error) {
       logDeduplicator.error('Error fetching perp data:', { error });
       throw error;
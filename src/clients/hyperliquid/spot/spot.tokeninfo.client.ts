@@ -130,6 +130,14 @@ export class HyperliquidTokenInfoClient extends BaseApiService {
     }
   }
 
+  /**
+   * Met à jour le cache d'un token sans l'ajouter au polling
+   * Utilisé pour les calculs périodiques portant sur tous les tokens spot
+   */
+  public async refreshTokenDetails(tokenId: string): Promise<void> {
+    await this.updateTokenInfo(tokenId);
+  }
+
   /**
    * Vérifie si une requête peut être effectuée selon les rate limits
    * @param ip Adresse IP du client
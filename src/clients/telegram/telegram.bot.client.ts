@@ -0,0 +1,72 @@
+import { TelegramOutgoingMessage, TelegramTransport } from '../../types/telegram.types';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Telegram Bot API transport
+ * TELEGRAM_API_URL can point to a local fake server for testing
+ *
+ * Does not extend BaseApiService on purpose: the bot token is part of the URL
+ * and BaseApiService logs full request URLs
+ */
+export class TelegramBotApiClient implements TelegramTransport {
+  private static instance: TelegramBotApiClient;
+  private static readonly API_URL = process.env.TELEGRAM_API_URL || 'https://api.telegram.org';
+  private static readonly BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || '';
+  private static readonly API_TIMEOUT = 10000;
+
+  private constructor() {}
+
+  public static getInstance(): TelegramBotApiClient {
+    if (!TelegramBotApiClient.instance) {
+      TelegramBotApiClient.instance = new TelegramBotApiClient();
+    }
+    return TelegramBotApiClient.instance;
+  }
+
+  /**
+   * Whether a bot token is configured
+   */
+  public static isConfigured(): boolean {
+    return TelegramBotApiClient.BOT_TOKEN.length > 0;
+  }
+
+  /**
+   * Send a message through the Bot API
+   * Single attempt: failures are per chat (blocked bot, deleted chat),
+   * retrying them would only delay the other alerts
+   */
+  public async sendMessage(message: TelegramOutgoingMessage): Promise<void> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TelegramBotApiClient.API_TIMEOUT);
+
+    try {
+      const response = await fetch(
+        `${TelegramBotApiClient.API_URL}/bot${TelegramBotApiClient.BOT_TOKEN}/sendMessage`,
+        {
+          method: 'POST',
+          signal: controller.signal,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            chat_id: message.chatId,
+            text: message.text,
+            parse_mode: message.parseMode,
+            disable_web_page_preview: message.disableWebPagePreview ?? true
+          })
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Telegram API error: ${response.status} - ${await response.text()}`);
+      }
+
+      logDeduplicator.info('Telegram message sent', { chatId: message.chatId });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Telegram API request timeout');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
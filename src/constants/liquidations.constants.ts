@@ -0,0 +1,34 @@
+// Adresses du vault HLP qui absorbent les liquidations (vault principal + sous-vault Liquidator)
+// Surchargeable via HLP_LIQUIDATOR_ADDRESSES (liste séparée par des virgules)
+export const HLP_LIQUIDATOR_ADDRESSES: readonly string[] = (
+  process.env.HLP_LIQUIDATOR_ADDRESSES ||
+  '0xdfc24b077bc1425ad1dea75bcb6f8158e10df303,0x2e3d94f0562703b25c83308a05046ddaf9a8dd14'
+)
+  .split(',')
+  .map(address => address.trim().toLowerCase())
+  .filter(address => address.length > 0);
+
+// Détection de cascades : N liquidations ou $X de notional sur un coin en T secondes
+export const CASCADE_CONFIG = {
+  WINDOW_SECONDS: parseInt(process.env.LIQUIDATION_CASCADE_WINDOW_SECONDS || '60', 10),
+  MIN_COUNT: parseInt(process.env.LIQUIDATION_CASCADE_MIN_COUNT || '10', 10),
+  MIN_NOTIONAL_USD: parseFloat(process.env.LIQUIDATION_CASCADE_MIN_NOTIONAL_USD || '1000000'),
+  // Délai supplémentaire avant de clore une cascade (latence d'indexation HypeDexer)
+  CLOSE_GRACE_SECONDS: 30
+} as const;
+
+// Diffusion temps réel (SSE et WebSocket partagent le canal Redis et les limites)
+export const LIVE_STREAM_CONFIG = {
+  REDIS_CHANNEL: 'liquidations:sse:broadcast',
+  HEARTBEAT_INTERVAL_MS: 30_000,
+  MAX_CONNECTIONS_PER_IP: 3,
+  MAX_TOTAL_CONNECTIONS: 1000
+} as const;
+
+// Buffer de reprise (Redis Stream) : rejoue exactement les événements manqués sur la fenêtre de rétention
+export const REPLAY_CONFIG = {
+  STREAM_KEY: 'liquidations:stream',
+  RETENTION_SECONDS: parseInt(process.env.LIQUIDATION_REPLAY_RETENTION_SECONDS || '3600', 10),
+  // Taille des pages XRANGE lors d'une reprise
+  PAGE_SIZE: 500
+} as const;
@@ -0,0 +1,27 @@
+// Détection d'anomalies sur les relevés spot / perp (un relevé par minute et par marché)
+export const MOVERS_CONFIG = {
+  SAMPLE_INTERVAL_MS: 60_000,
+  // Fenêtre glissante du z-score, en relevés (1h de variations à la minute)
+  ZSCORE_WINDOW: 60,
+  MIN_ZSCORE_SAMPLES: 30,
+  ZSCORE_THRESHOLD: parseFloat(process.env.MARKET_MOVERS_ZSCORE_THRESHOLD || '4'),
+  // Plus hauts / plus bas 24h suivis par tranches de 5 min (alignées sur les bougies 5m)
+  HIGH_LOW_WINDOW_MS: 24 * 60 * 60_000,
+  HIGH_LOW_BUCKET_MS: 5 * 60_000,
+  // Historique minimal avant de signaler un nouveau plus haut / plus bas
+  MIN_HIGH_LOW_COVERAGE_MS: 20 * 60 * 60_000,
+  // Volume 24h minimal pour ignorer les marchés illiquides
+  MIN_DAY_VOLUME_USD: parseFloat(process.env.MARKET_MOVERS_MIN_DAY_VOLUME_USD || '50000'),
+  // Délai avant de signaler à nouveau la même anomalie sur un marché (partagé entre instances via Redis)
+  COOLDOWN_SECONDS: 15 * 60,
+  FEED_KEY: 'market:movers:feed',
+  FEED_MAX_SIZE: 1000
+} as const;
+
+// Diffusion temps réel des anomalies
+export const MOVERS_STREAM_CONFIG = {
+  REDIS_CHANNEL: 'market:movers:sse:broadcast',
+  HEARTBEAT_INTERVAL_MS: 30_000,
+  MAX_CONNECTIONS_PER_IP: 3,
+  MAX_TOTAL_CONNECTIONS: 1000
+} as const;
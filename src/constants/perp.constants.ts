@@ -0,0 +1,2 @@
+// Nom attribué au DEX perp principal (dex "" côté API), les DEX HIP-3 gardent leur nom
+export const MAIN_PERP_DEX = 'hyperliquid';
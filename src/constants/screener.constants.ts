@@ -0,0 +1,16 @@
+export const SCREENER_CONSTANTS = {
+  MAX_SAVED_SCREENS_PER_USER: 20,
+  MAX_FILTER_LENGTH: 1000,
+  MAX_CONDITIONS: 20,
+  MAX_SORT_KEYS: 5,
+  MARKETS: ['all', 'spot', 'perp'] as const,
+  // Champs numériques filtrables et triables, par type de marché
+  // openInterest est en USD (en coins sur les autres endpoints perp)
+  SPOT_FIELDS: ['price', 'marketCap', 'volume', 'change24h', 'midPrice', 'supply'] as const,
+  PERP_FIELDS: ['price', 'volume', 'change24h', 'openInterest', 'funding', 'fundingApr', 'maxLeverage'] as const
+} as const;
+
+export type ScreenerMarket = typeof SCREENER_CONSTANTS.MARKETS[number];
+export type ScreenerField =
+  | typeof SCREENER_CONSTANTS.SPOT_FIELDS[number]
+  | typeof SCREENER_CONSTANTS.PERP_FIELDS[number];
@@ -0,0 +1,35 @@
+// Historique des validateurs (relevés ValidatorClient toutes les 10s)
+export const VALIDATOR_HISTORY_CONFIG = {
+  // Un snapshot persisté par validateur et par intervalle
+  SNAPSHOT_INTERVAL_MS: 15 * 60_000,
+  // Comparaison avec l'état précédent au plus une fois par intervalle (partagé entre instances via Redis)
+  DETECTION_INTERVAL_MS: 60_000,
+  // Variation de stake minimale (en %) depuis la dernière référence pour émettre un événement
+  STAKE_CHANGE_MIN_PCT: parseFloat(process.env.VALIDATOR_STAKE_CHANGE_MIN_PCT || '5'),
+  // Baisse d'uptime minimale (en points de %) depuis le dernier plus haut
+  UPTIME_DROP_MIN_POINTS: parseFloat(process.env.VALIDATOR_UPTIME_DROP_MIN_POINTS || '2'),
+  SNAPSHOT_RETENTION_DAYS: 90,
+  EVENT_RETENTION_DAYS: 365,
+  STATE_KEY: 'staking:validators:history:state',
+  LOCK_PREFIX: 'staking:validators:history:lock'
+} as const;
+
+// Diffusion temps réel des événements validateurs
+export const VALIDATOR_EVENTS_STREAM_CONFIG = {
+  REDIS_CHANNEL: 'staking:validators:events:sse:broadcast',
+  HEARTBEAT_INTERVAL_MS: 30_000,
+  MAX_CONNECTIONS_PER_IP: 3,
+  MAX_TOTAL_CONNECTIONS: 1000
+} as const;
+
+// Historique des holders de stakedHYPE (relevés Hypurrscan toutes les 50s)
+export const STAKED_HOLDER_HISTORY_CONFIG = {
+  // Un snapshot persisté par intervalle, seuls les soldes modifiés sont enregistrés
+  SNAPSHOT_INTERVAL_MS: 15 * 60_000,
+  // Variation minimale (en HYPE) pour enregistrer un nouveau solde
+  MIN_CHANGE: 1e-6,
+  RETENTION_DAYS: 90,
+  CHANGES_CACHE_TTL_SECONDS: 60,
+  STATE_KEY: 'staking:holders:history:state',
+  LOCK_PREFIX: 'staking:holders:history:lock'
+} as const;
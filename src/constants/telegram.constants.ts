@@ -0,0 +1,8 @@
+export const TELEGRAM_CONSTANTS = {
+  MAX_SUBSCRIPTIONS_PER_USER: 3,
+  LINK_CODE_TTL_SECONDS: 600, // 10 minutes
+  SENT_ALERT_RETENTION_DAYS: 7,
+  SUBSCRIPTION_TYPES: ['liquidations'] as const
+} as const;
+
+export type TelegramSubscriptionType = typeof TELEGRAM_CONSTANTS.SUBSCRIPTION_TYPES[number];
@@ -0,0 +1,276 @@
+import { Response } from 'express';
+import { randomUUID } from 'crypto';
+import { redisService } from './redis.service';
+import { logDeduplicator } from '../utils/logDeduplicator';
+import {
+  SSEConnectionStats,
+  SSEStreamConfig,
+  StreamBroadcastMessage,
+  StreamSSEClient,
+  StreamSSEEvent
+} from '../types/sse.types';
+
+/**
+ * Base class of the SSE streams that fan out a list of items to filtered clients
+ * Subclasses are singletons that provide the stream configuration, the filter matching
+ * and the event ID of an item, and publish items through broadcast()
+ */
+export abstract class BaseSSEManagerService<TItem, TFilters, TEventType extends string> {
+  // State
+  private clients: Map<string, StreamSSEClient<TFilters>> = new Map();
+  private ipConnectionCount: Map<string, number> = new Map();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private isSubscribed = false;
+
+  /**
+   * @param config Redis channel, heartbeat interval and connection limits
+   * @param label Stream name used in logs
+   * @param eventType SSE event name of broadcast items
+   */
+  protected constructor(
+    private readonly config: SSEStreamConfig,
+    private readonly label: string,
+    private readonly eventType: TEventType
+  ) {}
+
+  /**
+   * Check if an item matches a client's filters
+   */
+  public abstract matchesFilters(item: TItem, filters: TFilters): boolean;
+
+  /**
+   * SSE event ID of an item
+   */
+  protected abstract getEventId(item: TItem): string;
+
+  /**
+   * Initialize the SSE manager
+   * - Subscribe to Redis pub/sub for cross-instance communication
+   * - Start heartbeat timer
+   */
+  public async initialize(): Promise<void> {
+    if (this.isSubscribed) {
+      logDeduplicator.warn(`${this.label} SSE Manager already initialized`);
+      return;
+    }
+
+    await redisService.subscribe(
+      this.config.REDIS_CHANNEL,
+      (message: string) => this.handleBroadcastMessage(message)
+    );
+    this.isSubscribed = true;
+
+    this.startHeartbeat();
+
+    logDeduplicator.info(`${this.label} SSE Manager initialized`, {
+      channel: this.config.REDIS_CHANNEL,
+      heartbeatIntervalMs: this.config.HEARTBEAT_INTERVAL_MS
+    });
+  }
+
+  /**
+   * Add a new SSE client connection
+   * Returns client ID on success, null if limits exceeded
+   */
+  public addClient(res: Response, ip: string, filters: TFilters): string | null {
+    if (this.clients.size >= this.config.MAX_TOTAL_CONNECTIONS) {
+      logDeduplicator.warn(`${this.label} SSE max total connections reached`, {
+        current: this.clients.size,
+        max: this.config.MAX_TOTAL_CONNECTIONS
+      });
+      return null;
+    }
+
+    const currentIpCount = this.ipConnectionCount.get(ip) || 0;
+    if (currentIpCount >= this.config.MAX_CONNECTIONS_PER_IP) {
+      logDeduplicator.warn(`${this.label} SSE max connections per IP reached`, {
+        ip,
+        current: currentIpCount,
+        max: this.config.MAX_CONNECTIONS_PER_IP
+      });
+      return null;
+    }
+
+    const clientId = randomUUID();
+    const client: StreamSSEClient<TFilters> = {
+      id: clientId,
+      res,
+      filters,
+      connectedAt: Date.now(),
+      ip
+    };
+
+    this.clients.set(clientId, client);
+    this.ipConnectionCount.set(ip, currentIpCount + 1);
+
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.flushHeaders();
+
+    this.sendEvent(client, {
+      type: 'connected',
+      data: null,
+      timestamp: new Date().toISOString()
+    });
+
+    logDeduplicator.info(`${this.label} SSE client connected`, {
+      clientId,
+      ip,
+      filters,
+      totalClients: this.clients.size
+    });
+
+    return clientId;
+  }
+
+  /**
+   * Remove a client connection
+   */
+  public removeClient(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const currentIpCount = this.ipConnectionCount.get(client.ip) || 0;
+    if (currentIpCount <= 1) {
+      this.ipConnectionCount.delete(client.ip);
+    } else {
+      this.ipConnectionCount.set(client.ip, currentIpCount - 1);
+    }
+
+    this.clients.delete(clientId);
+
+    logDeduplicator.info(`${this.label} SSE client disconnected`, {
+      clientId,
+      ip: client.ip,
+      totalClients: this.clients.size
+    });
+  }
+
+  /**
+   * Broadcast new items to all connected clients (all instances)
+   */
+  protected async broadcast(items: TItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const message: StreamBroadcastMessage<TItem> = {
+      items,
+      timestamp: new Date().toISOString()
+    };
+    await redisService.publish(this.config.REDIS_CHANNEL, JSON.stringify(message));
+
+    logDeduplicator.info(`${this.label} SSE broadcast published`, {
+      count: items.length,
+      connectedClients: this.clients.size
+    });
+  }
+
+  /**
+   * Handle broadcast message from Redis pub/sub
+   */
+  private handleBroadcastMessage(messageStr: string): void {
+    try {
+      const message: StreamBroadcastMessage<TItem> = JSON.parse(messageStr);
+
+      for (const client of this.clients.values()) {
+        for (const item of message.items) {
+          if (!this.matchesFilters(item, client.filters)) continue;
+
+          this.sendEvent(client, {
+            type: this.eventType,
+            data: item,
+            id: this.getEventId(item),
+            timestamp: message.timestamp
+          });
+        }
+      }
+    } catch (error) {
+      logDeduplicator.error(`${this.label} SSE broadcast message parse error`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Send SSE event to a client
+   */
+  private sendEvent(client: StreamSSEClient<TFilters>, event: StreamSSEEvent<TEventType, TItem>): void {
+    try {
+      let message = '';
+
+      if (event.id !== undefined) {
+        message += `id: ${event.id}\n`;
+      }
+      message += `event: ${event.type}\n`;
+      message += `data: ${JSON.stringify(event)}\n\n`;
+
+      client.res.write(message);
+
+      // Flush immediately, otherwise data stays in the Node.js buffer
+      if (typeof client.res.flush === 'function') {
+        client.res.flush();
+      }
+    } catch (error) {
+      // Client likely disconnected
+      logDeduplicator.warn(`${this.label} SSE send failed, removing client`, {
+        clientId: client.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.removeClient(client.id);
+    }
+  }
+
+  /**
+   * Start heartbeat timer
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.clients.size === 0) return;
+
+      const now = new Date().toISOString();
+      for (const client of this.clients.values()) {
+        this.sendEvent(client, {
+          type: 'heartbeat',
+          data: null,
+          timestamp: now
+        });
+      }
+    }, this.config.HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop heartbeat and cleanup all connections
+   */
+  public shutdown(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const client of this.clients.values()) {
+      try {
+        client.res.end();
+      } catch {
+        // Ignore errors during shutdown
+      }
+    }
+    this.clients.clear();
+    this.ipConnectionCount.clear();
+
+    logDeduplicator.info(`${this.label} SSE Manager shutdown complete`);
+  }
+
+  /**
+   * Get current connection stats
+   */
+  public getStats(): SSEConnectionStats {
+    return {
+      totalConnections: this.clients.size,
+      uniqueIps: this.ipConnectionCount.size
+    };
+  }
+}
@@ -14,10 +14,21 @@ import { HypurrscanFeesClient } from '../clients/hypurrscan/fees.client';
 import { HyperliquidGlobalStatsClient } from '../clients/hyperliquid/globalstats.client';
 import { HyperliquidLeaderboardClient } from '../clients/hyperliquid/leaderboard/leaderboard.client';
 import { HypurrscanStakedHoldersClient } from '../clients/hypurrscan/stakedHolders.client';
+import { PerpFundingService } from '../services/perp/perpFunding.service';
+import { PerpOpenInterestService } from '../services/perp/perpOpenInterest.service';
+import { MarketCandlesService } from '../services/candles/marketCandles.service';
+import { TokenConcentrationService } from '../services/spot/tokenConcentration.service';
+import { MarketMoversService } from '../services/movers/marketMovers.service';
+import { MoversSSEManagerService } from '../services/movers/movers-sse-manager.service';
+import { ValidatorHistoryService } from '../services/staking/validatorHistory.service';
+import { ValidatorEventsSSEManagerService } from '../services/staking/validator-events-sse-manager.service';
+import { StakedHolderHistoryService } from '../services/staking/stakedHolderHistory.service';
 import { LiquidationsService } from '../services/liquidations/liquidations.service';
 import { SSEManagerService } from '../services/liquidations/sse-manager.service';
+import { WSManagerService } from '../services/liquidations/ws-manager.service';
 import { TopTradersService } from '../services/toptraders/toptraders.service';
 import { ActiveUsersService } from '../services/activeusers/activeusers.service';
+import { TelegramService } from '../services/telegram/telegram.service';
 import { logDeduplicator } from '../utils/logDeduplicator';
 
 export class ClientInitializerService {
@@ -83,6 +94,25 @@ export class ClientInitializerService {
       this.clients.set('perp', perpClient);
       logDeduplicator.info('Perp client initialized successfully');
 
+      // Initialiser l'historique de funding perp (relevés à chaque mise à jour du cache perp)
+      const perpFundingService = PerpFundingService.getInstance();
+      this.clients.set('perpFunding', perpFundingService);
+
+      // Initialiser l'historique d'open interest perp (relevés toutes les 5 min)
+      const perpOpenInterestService = PerpOpenInterestService.getInstance();
+      this.clients.set('perpOpenInterest', perpOpenInterestService);
+
+      // Initialiser la construction des bougies OHLCV spot / perp
+      const marketCandlesService = MarketCandlesService.getInstance();
+      this.clients.set('marketCandles', marketCandlesService);
+
+      // Initialiser la détection des market movers (SSE dédié + anomalies sur les relevés spot / perp)
+      const moversSseManager = MoversSSEManagerService.getInstance();
+      await moversSseManager.initialize();
+      this.clients.set('moversSseManager', moversSseManager);
+      const marketMoversService = MarketMoversService.getInstance();
+      this.clients.set('marketMovers', marketMoversService);
+
       // Initialiser le client Spot Deploy
       const spotDeployClient = HyperliquidSpotDeployClient.getInstance();
       this.clients.set('spotDeploy', spotDeployClient);
@@ -91,10 +121,21 @@ export class ClientInitializerService {
       const tokenInfoClient = HyperliquidTokenInfoClient.getInstance();
       this.clients.set('tokenInfo', tokenInfoClient);
 
+      // Initialiser les métriques de concentration des holders (recalculées à chaque mise à jour token info)
+      const tokenConcentrationService = TokenConcentrationService.getInstance();
+      this.clients.set('tokenConcentration', tokenConcentrationService);
+
       // Initialiser le client Validator
       const validatorClient = ValidatorClient.getInstance();
       this.clients.set('validator', validatorClient);
 
+      // Initialiser l'historique des validateurs (snapshots, événements et SSE dédié)
+      const validatorEventsSseManager = ValidatorEventsSSEManagerService.getInstance();
+      await validatorEventsSseManager.initialize();
+      this.clients.set('validatorEventsSseManager', validatorEventsSseManager);
+      const validatorHistoryService = ValidatorHistoryService.getInstance();
+      this.clients.set('validatorHistory', validatorHistoryService);
+
       // Initialiser le client Vault
       const vaultClient = HyperliquidVaultClient.getInstance();
       this.clients.set('vault', vaultClient);
@@ -136,6 +177,10 @@ export class ClientInitializerService {
       const stakedHoldersClient = HypurrscanStakedHoldersClient.getInstance();
       this.clients.set('stakedHolders', stakedHoldersClient);
 
+      // Initialiser l'historique des holders (snapshots des soldes à chaque mise à jour Hypurrscan)
+      const stakedHolderHistoryService = StakedHolderHistoryService.getInstance();
+      this.clients.set('stakedHolderHistory', stakedHolderHistoryService);
+
       // Initialiser le service Liquidations (background polling)
       const liquidationsService = LiquidationsService.getInstance();
       this.clients.set('liquidations', liquidationsService);
@@ -146,6 +191,12 @@ export class ClientInitializerService {
       this.clients.set('sseManager', sseManager);
       logDeduplicator.info('SSE Manager initialized successfully');
 
+      // Initialiser le WebSocket Manager (même canal Redis que le SSE)
+      const wsManager = WSManagerService.getInstance();
+      await wsManager.initialize();
+      this.clients.set('wsManager', wsManager);
+      logDeduplicator.info('WebSocket Manager initialized successfully');
+
       // Initialiser le service Top Traders (background polling every 60s)
       const topTradersService = TopTradersService.getInstance();
       this.clients.set('topTraders', topTradersService);
@@ -156,6 +207,13 @@ export class ClientInitializerService {
       this.clients.set('activeUsers', activeUsersService);
       logDeduplicator.info('Active Users service initialized successfully');
 
+      // Initialiser le service Telegram (purge horaire des alertes envoyées)
+      const telegramService = TelegramService.getInstance();
+      this.clients.set('telegram', telegramService);
+      logDeduplicator.info('Telegram service initialized successfully', {
+        alertsEnabled: telegramService.isEnabled()
+      });
+
       // Démarrer le polling pour tous les clients
       logDeduplicator.info('All clients created, starting polling...');
       await this.startAllPolling();
@@ -194,13 +252,13 @@ export class ClientInitializerService {
           logDeduplicator.error(`Error stopping polling for ${name} client:`, { error });
         }
       }
-      // Handle SSE Manager shutdown
-      if ('shutdown' in client && name === 'sseManager') {
+      // Handle SSE / WebSocket Manager shutdown
+      if ('shutdown' in client && (name === 'sseManager' || name === 'wsManager' || name === 'moversSseManager' || name === 'validatorEventsSseManager')) {
         try {
           client.shutdown();
-          logDeduplicator.info('SSE Manager shutdown successfully');
+          logDeduplicator.info(`${name} shutdown successfully`);
         } catch (error) {
-          logDeduplicator.error('Error shutting down SSE Manager:', { error });
+          logDeduplicator.error(`Error shutting down ${name}:`, { error });
         }
       }
     }
@@ -65,6 +65,16 @@ redis.on('error', (err) => {
   });
 });
 
+// Un seul listener 'message' pour tous les canaux : les callbacks sont dispatchés par canal
+// (un listener par subscribe dépasserait setMaxListeners à mesure que les services s'abonnent)
+const channelHandlers = new Map<string, ((message: string) => void)[]>();
+
+redis.on('message', (receivedChannel: string, message: string) => {
+  for (const handler of channelHandlers.get(receivedChannel) ?? []) {
+    handler(message);
+  }
+});
+
 // Test de connexion au démarrage
 redis.ping().then(() => {
   console.log('✅ Redis PING successful');
@@ -151,12 +161,10 @@ export class RedisService {
 
   public async subscribe(channel: string, callback: (message: string) => void): Promise<void> {
     try {
-      await redis.subscribe(channel);
-      redis.on('message', (receivedChannel, message) => {
-        if (receivedChannel === channel) {
-          callback(message);
-        }
-      });
+      if (!channelHandlers.has(channel)) {
+        await redis.subscribe(channel);
+      }
+      channelHandlers.set(channel, [...(channelHandlers.get(channel) ?? []), callback]);
     } catch (error) {
       logDeduplicator.error('Redis subscribe error', {
         channel,
@@ -169,6 +177,7 @@ export class RedisService {
   public async unsubscribe(channel: string): Promise<void> {
     try {
       await redis.unsubscribe(channel);
+      channelHandlers.delete(channel);
     } catch (error) {
       logDeduplicator.error('Redis unsubscribe error', {
         channel,
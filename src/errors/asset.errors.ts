@@ -0,0 +1,23 @@
+/**
+ * Classe de base pour les erreurs de la vue unifiée des assets
+ */
+export class AssetError extends Error {
+  public statusCode: number;
+  public code: string;
+
+  constructor(message: string, statusCode: number = 500, code: string = 'ASSET_ERROR') {
+    super(message);
+    this.name = 'AssetError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * Erreur lorsqu'aucun marché spot ni perp ne correspond au symbole
+ */
+export class AssetNotFoundError extends AssetError {
+  constructor(message: string = 'Asset not found') {
+    super(message, 404, 'ASSET_NOT_FOUND');
+  }
+}
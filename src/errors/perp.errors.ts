@@ -56,4 +56,39 @@ export class PerpCacheError extends PerpError {
   constructor(message: string = 'Error processing cache data') {
     super(message, 500, 'PERP_CACHE_ERROR');
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Erreur lors de la récupération de l'historique de funding
+ */
+export class PerpFundingError extends PerpError {
+  constructor(message: string = 'Failed to fetch perp funding data', statusCode: number = 500, code: string = 'PERP_FUNDING_ERROR') {
+    super(message, statusCode, code);
+  }
+}
+
+/**
+ * Erreur lors de la récupération de l'historique d'open interest
+ */
+export class PerpOpenInterestError extends PerpError {
+  constructor(message: string = 'Failed to fetch perp open interest data', statusCode: number = 500, code: string = 'PERP_OPEN_INTEREST_ERROR') {
+    super(message, statusCode, code);
+  }
+}
+
+/**
+ * Erreur lorsqu'un marché perp n'est pas trouvé
+ */
+export class PerpMarketNotFoundError extends PerpError {
+  constructor(message: string = 'Perp market not found') {
+    super(message, 404, 'PERP_MARKET_NOT_FOUND');
+  }
+}
+
+/**
+ * Erreur lors du calcul de la basis des marchés perp
+ */
+export class PerpBasisError extends PerpError {
+  constructor(message: string = 'Failed to compute perp basis data', statusCode: number = 500, code: string = 'PERP_BASIS_ERROR') {
+    super(message, statusCode, code);
+  }
+}
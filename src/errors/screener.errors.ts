@@ -0,0 +1,42 @@
+// Base error class for the market screener
+export class ScreenerError extends Error {
+  public statusCode: number;
+  public code: string;
+
+  constructor(message: string, statusCode: number = 500, code: string = 'SCREENER_ERROR') {
+    super(message);
+    this.name = 'ScreenerError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export class ScreenerExpressionError extends ScreenerError {
+  constructor(message: string = 'Invalid filter expression') {
+    super(message, 400, 'INVALID_FILTER_EXPRESSION');
+  }
+}
+
+export class ScreenerSortError extends ScreenerError {
+  constructor(message: string = 'Invalid sort expression') {
+    super(message, 400, 'INVALID_SORT_EXPRESSION');
+  }
+}
+
+export class ScreenNotFoundError extends ScreenerError {
+  constructor(message: string = 'Saved screen not found') {
+    super(message, 404, 'SCREEN_NOT_FOUND');
+  }
+}
+
+export class ScreenLimitExceededError extends ScreenerError {
+  constructor(message: string = 'Maximum number of saved screens reached (20 screens per user)') {
+    super(message, 400, 'SCREEN_LIMIT_EXCEEDED');
+  }
+}
+
+export class ScreenAlreadyExistsError extends ScreenerError {
+  constructor(message: string = 'A saved screen with this name already exists') {
+    super(message, 409, 'SCREEN_ALREADY_EXISTS');
+  }
+}
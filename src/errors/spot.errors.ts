@@ -83,4 +83,12 @@ export class RateLimitError extends SpotError {
   constructor(message: string = 'Rate limit exceeded') {
     super(message, 429, 'RATE_LIMIT_ERROR');
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Erreur lorsqu'un marché spot n'est pas trouvé
+ */
+export class MarketNotFoundError extends SpotError {
+  constructor(message: string = 'Market not found') {
+    super(message, 404, 'MARKET_NOT_FOUND');
+  }
+}
@@ -28,6 +28,12 @@ export class TrendingValidatorError extends StakingError {
   }
 }
 
+export class StakedHolderNotFoundError extends StakingError {
+  constructor(message: string = 'Holder not found') {
+    super(message, 404, 'HOLDER_NOT_FOUND');
+  }
+}
+
 export class RateLimitError extends StakingError {
   constructor(message: string = 'Rate limit exceeded') {
     super(message, 429, 'RATE_LIMIT_ERROR');
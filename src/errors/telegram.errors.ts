@@ -0,0 +1,48 @@
+// Base error class for the Telegram alert bot
+export class TelegramError extends Error {
+  public statusCode: number;
+  public code: string;
+
+  constructor(message: string, statusCode: number = 500, code: string = 'TELEGRAM_ERROR') {
+    super(message);
+    this.name = 'TelegramError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export class TelegramUserNotFoundError extends TelegramError {
+  constructor(message: string = 'Telegram user not found') {
+    super(message, 404, 'TELEGRAM_USER_NOT_FOUND');
+  }
+}
+
+export class TelegramSubscriptionNotFoundError extends TelegramError {
+  constructor(message: string = 'Telegram subscription not found') {
+    super(message, 404, 'TELEGRAM_SUBSCRIPTION_NOT_FOUND');
+  }
+}
+
+export class TelegramSubscriptionLimitExceededError extends TelegramError {
+  constructor(message: string = 'Maximum number of subscriptions reached (3 subscriptions per user)') {
+    super(message, 400, 'TELEGRAM_SUBSCRIPTION_LIMIT_EXCEEDED');
+  }
+}
+
+export class TelegramInvalidLinkCodeError extends TelegramError {
+  constructor(message: string = 'Invalid or expired link code') {
+    super(message, 400, 'TELEGRAM_INVALID_LINK_CODE');
+  }
+}
+
+export class TelegramAlreadyLinkedError extends TelegramError {
+  constructor(message: string = 'This account is already linked to another Telegram user') {
+    super(message, 409, 'TELEGRAM_ALREADY_LINKED');
+  }
+}
+
+export class TelegramUnauthorizedError extends TelegramError {
+  constructor(message: string = 'Invalid bot credentials') {
+    super(message, 401, 'TELEGRAM_UNAUTHORIZED');
+  }
+}
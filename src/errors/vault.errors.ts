@@ -15,4 +15,10 @@ export class VaultsTimeoutError extends VaultsError {
   constructor(message: string = 'Vaults request timed out') {
     super(message, 408, 'VAULTS_TIMEOUT');
   }
-} 
\ No newline at end of file
+}
+
+export class VaultNotFoundError extends VaultsError {
+  constructor(message: string = 'Vault not found') {
+    super(message, 404, 'VAULT_NOT_FOUND');
+  }
+}
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { logDeduplicator } from '../utils/logDeduplicator';
+
+const TELEGRAM_BOT_SECRET_HEADER = 'x-telegram-bot-secret';
+
+/**
+ * Middleware d'authentification du bot Telegram
+ * Vérifie le secret partagé envoyé par le bot (TELEGRAM_BOT_API_SECRET)
+ */
+export const validateTelegramBotSecret = (req: Request, res: Response, next: NextFunction): void => {
+  const expectedSecret = process.env.TELEGRAM_BOT_API_SECRET;
+  const providedSecret = req.header(TELEGRAM_BOT_SECRET_HEADER);
+
+  if (!expectedSecret) {
+    logDeduplicator.error('TELEGRAM_BOT_API_SECRET is not configured');
+    res.status(401).json({ success: false, error: 'Telegram bot not authorized', code: 'TELEGRAM_UNAUTHORIZED' });
+    return;
+  }
+
+  const expected = Buffer.from(expectedSecret);
+  const provided = Buffer.from(providedSecret || '');
+
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    logDeduplicator.warn('Invalid Telegram bot secret', { path: req.path, ip: req.ip });
+    res.status(401).json({ success: false, error: 'Telegram bot not authorized', code: 'TELEGRAM_UNAUTHORIZED' });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,129 @@
+import { PrismaClient, Prisma, LiquidationRecord } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import { Liquidation } from '../types/liquidations.types';
+
+/**
+ * Filtres de lecture de l'historique local des liquidations
+ */
+export interface LiquidationHistoryQuery {
+  startTimeMs: number;
+  endTimeMs?: number;
+  coin?: string;
+  user?: string;
+  minAmountDollars?: number;
+  order: 'ASC' | 'DESC';
+  limit: number;
+  cursor?: { timeMs: number; tid: number };
+}
+
+export class LiquidationRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Insère des liquidations, les doublons (même tid) sont ignorés
+   * @returns nombre de lignes réellement insérées
+   */
+  async insertMany(liquidations: Liquidation[]): Promise<number> {
+    if (liquidations.length === 0) return 0;
+
+    const result = await this.prismaClient.liquidationRecord.createMany({
+      data: liquidations.map(liq => this.toRecord(liq)),
+      skipDuplicates: true
+    });
+    return result.count;
+  }
+
+  /**
+   * Lit une page de l'historique avec pagination keyset sur (time_ms, tid)
+   */
+  async findMany(query: LiquidationHistoryQuery): Promise<Liquidation[]> {
+    const where: Prisma.LiquidationRecordWhereInput = {
+      timeMs: {
+        gte: BigInt(query.startTimeMs),
+        ...(query.endTimeMs !== undefined && { lte: BigInt(query.endTimeMs) })
+      },
+      ...(query.coin && { coin: { equals: query.coin, mode: 'insensitive' } }),
+      ...(query.user && { liquidatedUser: { equals: query.user, mode: 'insensitive' } }),
+      ...(query.minAmountDollars !== undefined && { notionalTotal: { gte: query.minAmountDollars } })
+    };
+
+    if (query.cursor) {
+      const timeMs = BigInt(query.cursor.timeMs);
+      const tid = BigInt(query.cursor.tid);
+      const op = query.order === 'ASC' ? 'gt' : 'lt';
+      where.OR = [
+        { timeMs: { [op]: timeMs } },
+        { timeMs, tid: { [op]: tid } }
+      ];
+    }
+
+    const direction = query.order === 'ASC' ? 'asc' : 'desc';
+    const records = await this.prismaClient.liquidationRecord.findMany({
+      where,
+      orderBy: [{ timeMs: direction }, { tid: direction }],
+      take: query.limit
+    });
+
+    return records.map(record => this.toLiquidation(record));
+  }
+
+  /**
+   * Plus récent time_ms stocké (null si la table est vide)
+   */
+  async findLatestTimeMs(): Promise<number | null> {
+    const result = await this.prismaClient.liquidationRecord.aggregate({
+      _max: { timeMs: true }
+    });
+    return result._max.timeMs !== null ? Number(result._max.timeMs) : null;
+  }
+
+  private toRecord(liq: Liquidation): Prisma.LiquidationRecordCreateManyInput {
+    return {
+      tid: BigInt(liq.tid),
+      time: liq.time,
+      timeMs: BigInt(liq.time_ms),
+      coin: liq.coin,
+      hash: liq.hash,
+      liquidatedUser: liq.liquidated_user,
+      sizeTotal: liq.size_total,
+      notionalTotal: liq.notional_total,
+      fillPxVwap: liq.fill_px_vwap,
+      markPx: liq.mark_px,
+      method: liq.method,
+      feeTotalLiquidated: liq.fee_total_liquidated,
+      liquidators: liq.liquidators,
+      liquidatorCount: liq.liquidator_count,
+      liqDir: liq.liq_dir
+    };
+  }
+
+  private toLiquidation(record: LiquidationRecord): Liquidation {
+    return {
+      time: record.time,
+      time_ms: Number(record.timeMs),
+      coin: record.coin,
+      hash: record.hash,
+      liquidated_user: record.liquidatedUser,
+      size_total: record.sizeTotal,
+      notional_total: record.notionalTotal,
+      fill_px_vwap: record.fillPxVwap,
+      mark_px: record.markPx,
+      method: record.method,
+      fee_total_liquidated: record.feeTotalLiquidated,
+      liquidators: record.liquidators,
+      liquidator_count: record.liquidatorCount,
+      liq_dir: record.liqDir as Liquidation['liq_dir'],
+      tid: Number(record.tid)
+    };
+  }
+}
+
+export const liquidationRepository = new LiquidationRepository();
@@ -0,0 +1,88 @@
+import { PrismaClient, LiquidationCascade as LiquidationCascadeRecord } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import { LiquidationCascade } from '../types/liquidations.types';
+
+export class LiquidationCascadeRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Crée ou met à jour une cascade (détection puis clôture)
+   */
+  async upsert(cascade: LiquidationCascade): Promise<void> {
+    const data = {
+      coin: cascade.coin,
+      status: cascade.status,
+      startTimeMs: BigInt(cascade.startTimeMs),
+      endTimeMs: BigInt(cascade.endTimeMs),
+      liquidationsCount: cascade.liquidationsCount,
+      totalNotional: cascade.totalNotional,
+      longNotional: cascade.longNotional,
+      shortNotional: cascade.shortNotional,
+      firstMarkPx: cascade.firstMarkPx,
+      lastMarkPx: cascade.lastMarkPx,
+      triggers: cascade.triggers,
+      tids: cascade.tids.map(tid => BigInt(tid))
+    };
+
+    await this.prismaClient.liquidationCascade.upsert({
+      where: { id: cascade.id },
+      create: { id: cascade.id, ...data, detectedAt: new Date(cascade.detectedAt) },
+      update: data
+    });
+  }
+
+  /**
+   * Récupère les cascades les plus récentes
+   */
+  async findRecent(params: { sinceMs: number; coin?: string; limit: number }): Promise<LiquidationCascade[]> {
+    const records = await this.prismaClient.liquidationCascade.findMany({
+      where: {
+        startTimeMs: { gte: BigInt(params.sinceMs) },
+        ...(params.coin && { coin: { equals: params.coin, mode: 'insensitive' } })
+      },
+      orderBy: { startTimeMs: 'desc' },
+      take: params.limit
+    });
+
+    return records.map(record => this.toCascade(record));
+  }
+
+  private toCascade(record: LiquidationCascadeRecord): LiquidationCascade {
+    const startTimeMs = Number(record.startTimeMs);
+    const endTimeMs = Number(record.endTimeMs);
+
+    return {
+      id: record.id,
+      coin: record.coin,
+      status: record.status as LiquidationCascade['status'],
+      startTime: new Date(startTimeMs).toISOString(),
+      startTimeMs,
+      endTime: new Date(endTimeMs).toISOString(),
+      endTimeMs,
+      durationSeconds: Math.round((endTimeMs - startTimeMs) / 1000),
+      liquidationsCount: record.liquidationsCount,
+      totalNotional: record.totalNotional,
+      longNotional: record.longNotional,
+      shortNotional: record.shortNotional,
+      dominantSide: record.longNotional >= record.shortNotional ? 'Long' : 'Short',
+      firstMarkPx: record.firstMarkPx,
+      lastMarkPx: record.lastMarkPx,
+      priceMovePct: record.firstMarkPx > 0
+        ? Math.round(((record.lastMarkPx - record.firstMarkPx) / record.firstMarkPx) * 10000) / 100
+        : 0,
+      triggers: record.triggers as LiquidationCascade['triggers'],
+      tids: record.tids.map(tid => Number(tid)),
+      detectedAt: record.detectedAt.toISOString()
+    };
+  }
+}
+
+export const liquidationCascadeRepository = new LiquidationCascadeRepository();
@@ -0,0 +1,152 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import { Candle, CandleInterval, CandleMarketType } from '../types/market.types';
+
+/**
+ * Bougie à fusionner avec la bougie déjà enregistrée
+ * volume : volume accumulé depuis le dernier enregistrement (ajouté au volume existant)
+ */
+export interface MarketCandleUpsertInput {
+  marketType: CandleMarketType;
+  market: string;
+  interval: CandleInterval;
+  openTimeMs: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export class MarketCandleRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Crée ou fusionne les bougies (open conservé, high/low étendus, close remplacé, volume ajouté)
+   * La fusion permet de reprendre une bougie entamée avant un redémarrage
+   */
+  async upsertMany(candles: MarketCandleUpsertInput[]): Promise<void> {
+    if (candles.length === 0) return;
+
+    const values = candles.map(candle => Prisma.sql`(
+      ${candle.marketType}, ${candle.market}, ${candle.interval}, ${BigInt(candle.openTimeMs)},
+      ${candle.open}, ${candle.high}, ${candle.low}, ${candle.close}, ${candle.volume}, NOW()
+    )`);
+
+    await this.prismaClient.$executeRaw`
+      INSERT INTO "public"."market_candles"
+        ("market_type", "market", "interval", "open_time_ms", "open", "high", "low", "close", "volume", "updated_at")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("market_type", "market", "interval", "open_time_ms") DO UPDATE SET
+        "high" = GREATEST("market_candles"."high", EXCLUDED."high"),
+        "low" = LEAST("market_candles"."low", EXCLUDED."low"),
+        "close" = EXCLUDED."close",
+        "volume" = "market_candles"."volume" + EXCLUDED."volume",
+        "updated_at" = EXCLUDED."updated_at"
+    `;
+  }
+
+  /**
+   * Les `limit` bougies les plus récentes de l'intervalle [startMs, endMs], triées par date croissante
+   */
+  async findRange(
+    marketType: CandleMarketType,
+    market: string,
+    interval: CandleInterval,
+    startMs: number | undefined,
+    endMs: number | undefined,
+    limit: number
+  ): Promise<Omit<Candle, 'closeTime'>[]> {
+    const records = await this.prismaClient.marketCandle.findMany({
+      where: {
+        marketType,
+        market,
+        interval,
+        openTimeMs: {
+          ...(startMs !== undefined && { gte: BigInt(startMs) }),
+          ...(endMs !== undefined && { lte: BigInt(endMs) })
+        }
+      },
+      orderBy: { openTimeMs: 'desc' },
+      take: limit
+    });
+
+    return records.reverse().map(record => ({
+      openTime: Number(record.openTimeMs),
+      open: record.open,
+      high: record.high,
+      low: record.low,
+      close: record.close,
+      volume: record.volume
+    }));
+  }
+
+  /**
+   * Plus hauts / plus bas de toutes les bougies d'un intervalle depuis sinceMs, tous marchés confondus
+   */
+  async findHighLowSince(
+    interval: CandleInterval,
+    sinceMs: number
+  ): Promise<{ marketType: CandleMarketType; market: string; openTimeMs: number; high: number; low: number }[]> {
+    const records = await this.prismaClient.marketCandle.findMany({
+      where: { interval, openTimeMs: { gte: BigInt(sinceMs) } },
+      select: { marketType: true, market: true, openTimeMs: true, high: true, low: true },
+      orderBy: { openTimeMs: 'asc' }
+    });
+
+    return records.map(record => ({
+      marketType: record.marketType as CandleMarketType,
+      market: record.market,
+      openTimeMs: Number(record.openTimeMs),
+      high: record.high,
+      low: record.low
+    }));
+  }
+
+  /**
+   * Première bougie enregistrée de chaque marché demandé
+   */
+  async findFirstCandles(
+    marketType: CandleMarketType,
+    markets: string[],
+    interval: CandleInterval
+  ): Promise<Map<string, Omit<Candle, 'closeTime'>>> {
+    if (markets.length === 0) return new Map();
+
+    const records = await this.prismaClient.marketCandle.findMany({
+      where: { marketType, interval, market: { in: markets } },
+      orderBy: [{ market: 'asc' }, { openTimeMs: 'asc' }],
+      distinct: ['market']
+    });
+
+    return new Map(records.map(record => [record.market, {
+      openTime: Number(record.openTimeMs),
+      open: record.open,
+      high: record.high,
+      low: record.low,
+      close: record.close,
+      volume: record.volume
+    }]));
+  }
+
+  /**
+   * Supprime les bougies d'un intervalle antérieures à beforeMs
+   * @returns nombre de lignes supprimées
+   */
+  async deleteOlderThan(interval: CandleInterval, beforeMs: number): Promise<number> {
+    const result = await this.prismaClient.marketCandle.deleteMany({
+      where: { interval, openTimeMs: { lt: BigInt(beforeMs) } }
+    });
+    return result.count;
+  }
+}
+
+export const marketCandleRepository = new MarketCandleRepository();
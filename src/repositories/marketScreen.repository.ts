@@ -0,0 +1,67 @@
+import { PrismaClient, MarketScreen } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import { ScreenCreateInput, ScreenUpdateInput } from '../schemas/screener.schema';
+
+export class MarketScreenRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  async findByUser(userId: number): Promise<MarketScreen[]> {
+    return this.prismaClient.marketScreen.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async findForUser(id: number, userId: number): Promise<MarketScreen | null> {
+    return this.prismaClient.marketScreen.findFirst({
+      where: { id, userId }
+    });
+  }
+
+  async findByName(userId: number, name: string): Promise<MarketScreen | null> {
+    return this.prismaClient.marketScreen.findUnique({
+      where: { userId_name: { userId, name } }
+    });
+  }
+
+  async countByUser(userId: number): Promise<number> {
+    return this.prismaClient.marketScreen.count({
+      where: { userId }
+    });
+  }
+
+  async create(userId: number, data: ScreenCreateInput): Promise<MarketScreen> {
+    return this.prismaClient.marketScreen.create({
+      data: {
+        userId,
+        name: data.name,
+        market: data.market,
+        filter: data.filter,
+        sort: data.sort ?? null
+      }
+    });
+  }
+
+  async update(id: number, data: ScreenUpdateInput): Promise<MarketScreen> {
+    return this.prismaClient.marketScreen.update({
+      where: { id },
+      data
+    });
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.prismaClient.marketScreen.delete({
+      where: { id }
+    });
+  }
+}
+
+export const marketScreenRepository = new MarketScreenRepository();
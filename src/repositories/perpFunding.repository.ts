@@ -0,0 +1,105 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+
+/**
+ * Relevé de funding d'un coin pour une heure
+ */
+export interface PerpFundingSnapshotInput {
+  coin: string;
+  hourMs: number;
+  funding: number;
+  premium: number;
+  oraclePx: number;
+  markPx: number;
+}
+
+export class PerpFundingRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Enregistre les relevés de l'heure en cours (une requête, le dernier relevé de l'heure l'emporte)
+   */
+  async upsertMany(snapshots: PerpFundingSnapshotInput[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    const values = snapshots.map(snapshot => Prisma.sql`(
+      ${snapshot.coin}, ${BigInt(snapshot.hourMs)}, ${snapshot.funding}, ${snapshot.premium},
+      ${snapshot.oraclePx}, ${snapshot.markPx}, NOW()
+    )`);
+
+    await this.prismaClient.$executeRaw`
+      INSERT INTO "public"."perp_funding_snapshots"
+        ("coin", "hour_ms", "funding", "premium", "oracle_px", "mark_px", "updated_at")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("coin", "hour_ms") DO UPDATE SET
+        "funding" = EXCLUDED."funding",
+        "premium" = EXCLUDED."premium",
+        "oracle_px" = EXCLUDED."oracle_px",
+        "mark_px" = EXCLUDED."mark_px",
+        "updated_at" = EXCLUDED."updated_at"
+    `;
+  }
+
+  /**
+   * Historique horaire d'un coin, du plus ancien au plus récent
+   */
+  async findHistory(coin: string, sinceMs: number): Promise<PerpFundingSnapshotInput[]> {
+    const records = await this.prismaClient.perpFundingSnapshot.findMany({
+      where: {
+        coin: { equals: coin, mode: 'insensitive' },
+        hourMs: { gte: BigInt(sinceMs) }
+      },
+      orderBy: { hourMs: 'asc' }
+    });
+
+    return records.map(record => ({
+      coin: record.coin,
+      hourMs: Number(record.hourMs),
+      funding: record.funding,
+      premium: record.premium,
+      oraclePx: record.oraclePx,
+      markPx: record.markPx
+    }));
+  }
+
+  /**
+   * Funding horaire moyen par coin depuis sinceMs
+   */
+  async getAverages(sinceMs: number, coin?: string): Promise<Map<string, { funding: number; samples: number }>> {
+    const groups = await this.prismaClient.perpFundingSnapshot.groupBy({
+      by: ['coin'],
+      where: {
+        hourMs: { gte: BigInt(sinceMs) },
+        ...(coin && { coin: { equals: coin, mode: 'insensitive' } })
+      },
+      _avg: { funding: true },
+      _count: { _all: true }
+    });
+
+    return new Map(groups.map(group => [
+      group.coin,
+      { funding: group._avg.funding ?? 0, samples: group._count._all }
+    ]));
+  }
+
+  /**
+   * Supprime les relevés antérieurs à beforeMs
+   * @returns nombre de lignes supprimées
+   */
+  async deleteOlderThan(beforeMs: number): Promise<number> {
+    const result = await this.prismaClient.perpFundingSnapshot.deleteMany({
+      where: { hourMs: { lt: BigInt(beforeMs) } }
+    });
+    return result.count;
+  }
+}
+
+export const perpFundingRepository = new PerpFundingRepository();
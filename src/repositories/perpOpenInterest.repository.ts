@@ -0,0 +1,109 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+
+/**
+ * Relevé d'open interest d'un coin
+ */
+export interface PerpOpenInterestSnapshotInput {
+  coin: string;
+  timeMs: number;
+  openInterest: number;
+  openInterestUsd: number;
+  price: number;
+}
+
+interface PerpOpenInterestRow {
+  coin: string;
+  time_ms: bigint;
+  open_interest: number;
+  open_interest_usd: number;
+  price: number;
+}
+
+export class PerpOpenInterestRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Enregistre les relevés de l'intervalle en cours (le dernier relevé de l'intervalle l'emporte)
+   */
+  async upsertMany(snapshots: PerpOpenInterestSnapshotInput[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    const values = snapshots.map(snapshot => Prisma.sql`(
+      ${snapshot.coin}, ${BigInt(snapshot.timeMs)}, ${snapshot.openInterest},
+      ${snapshot.openInterestUsd}, ${snapshot.price}
+    )`);
+
+    await this.prismaClient.$executeRaw`
+      INSERT INTO "public"."perp_oi_snapshots"
+        ("coin", "time_ms", "open_interest", "open_interest_usd", "price")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("coin", "time_ms") DO UPDATE SET
+        "open_interest" = EXCLUDED."open_interest",
+        "open_interest_usd" = EXCLUDED."open_interest_usd",
+        "price" = EXCLUDED."price"
+    `;
+  }
+
+  /**
+   * Historique d'un coin depuis sinceMs, un point par bucket (dernier relevé du bucket)
+   * Le nom du coin doit être exact (clé primaire ("coin", "time_ms"))
+   */
+  async findHistory(coin: string, sinceMs: number, bucketMs: number): Promise<PerpOpenInterestSnapshotInput[]> {
+    const rows = await this.prismaClient.$queryRaw<PerpOpenInterestRow[]>`
+      SELECT DISTINCT ON ("time_ms" / ${BigInt(bucketMs)})
+        "coin", "time_ms", "open_interest", "open_interest_usd", "price"
+      FROM "public"."perp_oi_snapshots"
+      WHERE "coin" = ${coin} AND "time_ms" >= ${BigInt(sinceMs)}
+      ORDER BY "time_ms" / ${BigInt(bucketMs)}, "time_ms" DESC
+    `;
+
+    return rows.map(row => this.toSnapshot(row));
+  }
+
+  /**
+   * Dernier relevé de chaque coin à atMs (au plus maxAgeMs avant)
+   */
+  async findLatestAt(atMs: number, maxAgeMs: number): Promise<Map<string, PerpOpenInterestSnapshotInput>> {
+    const rows = await this.prismaClient.$queryRaw<PerpOpenInterestRow[]>`
+      SELECT DISTINCT ON ("coin")
+        "coin", "time_ms", "open_interest", "open_interest_usd", "price"
+      FROM "public"."perp_oi_snapshots"
+      WHERE "time_ms" <= ${BigInt(atMs)} AND "time_ms" >= ${BigInt(atMs - maxAgeMs)}
+      ORDER BY "coin", "time_ms" DESC
+    `;
+
+    return new Map(rows.map(row => [row.coin, this.toSnapshot(row)]));
+  }
+
+  /**
+   * Supprime les relevés antérieurs à beforeMs
+   * @returns nombre de lignes supprimées
+   */
+  async deleteOlderThan(beforeMs: number): Promise<number> {
+    const result = await this.prismaClient.perpOpenInterestSnapshot.deleteMany({
+      where: { timeMs: { lt: BigInt(beforeMs) } }
+    });
+    return result.count;
+  }
+
+  private toSnapshot(row: PerpOpenInterestRow): PerpOpenInterestSnapshotInput {
+    return {
+      coin: row.coin,
+      timeMs: Number(row.time_ms),
+      openInterest: row.open_interest,
+      openInterestUsd: row.open_interest_usd,
+      price: row.price
+    };
+  }
+}
+
+export const perpOpenInterestRepository = new PerpOpenInterestRepository();
@@ -0,0 +1,191 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import { StakedHolderChangeDirection } from '../types/staking.types';
+
+/**
+ * Solde d'un holder à la date d'un snapshot
+ */
+export interface StakedHolderBalanceInput {
+  address: string;
+  timeMs: number;
+  amount: number;
+}
+
+export interface StakedHolderSnapshotInput {
+  timeMs: number;
+  holdersCount: number;
+  totalStaked: number;
+}
+
+export interface StakedHolderChangeRow {
+  address: string;
+  currentAmount: number;
+  previousAmount: number;
+}
+
+interface StakedHolderChangeQueryRow {
+  address: string;
+  current_amount: number;
+  previous_amount: number;
+}
+
+export class StakedHolderHistoryRepository {
+  private static readonly INSERT_BATCH_SIZE = 1000;
+
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Enregistre un snapshot et les soldes modifiés (par lots, le dernier relevé de l'intervalle l'emporte)
+   */
+  async saveSnapshot(snapshot: StakedHolderSnapshotInput, balances: StakedHolderBalanceInput[]): Promise<void> {
+    for (let i = 0; i < balances.length; i += StakedHolderHistoryRepository.INSERT_BATCH_SIZE) {
+      const values = balances
+        .slice(i, i + StakedHolderHistoryRepository.INSERT_BATCH_SIZE)
+        .map(balance => Prisma.sql`(${balance.address}, ${BigInt(balance.timeMs)}, ${balance.amount})`);
+
+      await this.prismaClient.$executeRaw`
+        INSERT INTO "public"."staked_holder_balances" ("address", "time_ms", "amount")
+        VALUES ${Prisma.join(values)}
+        ON CONFLICT ("address", "time_ms") DO UPDATE SET
+          "amount" = EXCLUDED."amount"
+      `;
+    }
+
+    await this.prismaClient.stakedHolderSnapshot.upsert({
+      where: { timeMs: BigInt(snapshot.timeMs) },
+      create: {
+        timeMs: BigInt(snapshot.timeMs),
+        holdersCount: snapshot.holdersCount,
+        totalStaked: snapshot.totalStaked
+      },
+      update: {
+        holdersCount: snapshot.holdersCount,
+        totalStaked: snapshot.totalStaked
+      }
+    });
+  }
+
+  /**
+   * Dates du premier et du dernier snapshot enregistrés
+   */
+  async findSnapshotRange(): Promise<{ firstMs: number; lastMs: number } | null> {
+    const result = await this.prismaClient.stakedHolderSnapshot.aggregate({
+      _min: { timeMs: true },
+      _max: { timeMs: true }
+    });
+
+    if (result._min.timeMs === null || result._max.timeMs === null) return null;
+    return { firstMs: Number(result._min.timeMs), lastMs: Number(result._max.timeMs) };
+  }
+
+  /**
+   * Plus fortes hausses (accumulators) ou baisses (distributors) de solde depuis baselineMs
+   * Seuls les holders dont le solde a été enregistré après baselineMs sont comparés
+   */
+  async findTopChanges(
+    baselineMs: number,
+    direction: StakedHolderChangeDirection,
+    limit: number
+  ): Promise<StakedHolderChangeRow[]> {
+    const baseline = BigInt(baselineMs);
+    const ordering = direction === 'accumulators'
+      ? Prisma.sql`WHERE "change" > 0 ORDER BY "change" DESC`
+      : Prisma.sql`WHERE "change" < 0 ORDER BY "change" ASC`;
+
+    const rows = await this.prismaClient.$queryRaw<StakedHolderChangeQueryRow[]>`
+      WITH "changed" AS (
+        SELECT DISTINCT "address"
+        FROM "public"."staked_holder_balances"
+        WHERE "time_ms" > ${baseline}
+      ),
+      "current" AS (
+        SELECT DISTINCT ON (b."address") b."address", b."amount"
+        FROM "public"."staked_holder_balances" b
+        JOIN "changed" c ON c."address" = b."address"
+        ORDER BY b."address", b."time_ms" DESC
+      ),
+      "previous" AS (
+        SELECT DISTINCT ON (b."address") b."address", b."amount"
+        FROM "public"."staked_holder_balances" b
+        JOIN "changed" c ON c."address" = b."address"
+        WHERE b."time_ms" <= ${baseline}
+        ORDER BY b."address", b."time_ms" DESC
+      )
+      SELECT "address", "current_amount", "previous_amount"
+      FROM (
+        SELECT
+          cur."address",
+          cur."amount" AS "current_amount",
+          COALESCE(prev."amount", 0) AS "previous_amount",
+          cur."amount" - COALESCE(prev."amount", 0) AS "change"
+        FROM "current" cur
+        LEFT JOIN "previous" prev ON prev."address" = cur."address"
+      ) "changes"
+      ${ordering}
+      LIMIT ${limit}
+    `;
+
+    return rows.map(row => ({
+      address: row.address,
+      currentAmount: row.current_amount,
+      previousAmount: row.previous_amount
+    }));
+  }
+
+  /**
+   * Soldes enregistrés d'un holder depuis sinceMs, précédés du dernier solde connu avant sinceMs
+   */
+  async findBalanceHistory(address: string, sinceMs: number): Promise<StakedHolderBalanceInput[]> {
+    const [before, records] = await Promise.all([
+      this.prismaClient.stakedHolderBalance.findFirst({
+        where: { address, timeMs: { lt: BigInt(sinceMs) } },
+        orderBy: { timeMs: 'desc' }
+      }),
+      this.prismaClient.stakedHolderBalance.findMany({
+        where: { address, timeMs: { gte: BigInt(sinceMs) } },
+        orderBy: { timeMs: 'asc' }
+      })
+    ]);
+
+    return [...(before ? [before] : []), ...records].map(record => ({
+      address: record.address,
+      timeMs: Number(record.timeMs),
+      amount: record.amount
+    }));
+  }
+
+  /**
+   * Supprime les snapshots et les soldes antérieurs à beforeMs
+   * Le dernier solde de chaque holder avant beforeMs est conservé pour pouvoir reconstituer les soldes à cette date
+   * @returns nombre de soldes supprimés
+   */
+  async deleteOlderThan(beforeMs: number): Promise<number> {
+    const before = BigInt(beforeMs);
+
+    const [balances] = await Promise.all([
+      this.prismaClient.$executeRaw`
+        DELETE FROM "public"."staked_holder_balances" b
+        WHERE b."time_ms" < ${before}
+          AND EXISTS (
+            SELECT 1 FROM "public"."staked_holder_balances" n
+            WHERE n."address" = b."address" AND n."time_ms" > b."time_ms" AND n."time_ms" <= ${before}
+          )
+      `,
+      this.prismaClient.stakedHolderSnapshot.deleteMany({
+        where: { timeMs: { lt: before } }
+      })
+    ]);
+
+    return balances;
+  }
+}
+
+export const stakedHolderHistoryRepository = new StakedHolderHistoryRepository();
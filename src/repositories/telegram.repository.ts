@@ -0,0 +1,198 @@
+import { PrismaClient, Prisma, TelegramUser, TelegramSubscription } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import {
+  TelegramSubscriptionCreateInput,
+  TelegramSubscriptionUpdateInput
+} from '../schemas/telegram.schema';
+
+export type TelegramSubscriptionWithUser = TelegramSubscription & { telegramUser: TelegramUser };
+
+export class TelegramRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  // ========== USERS ==========
+
+  /**
+   * Crée ou met à jour un utilisateur Telegram à partir de son identifiant
+   */
+  async upsertUser(data: { telegramId: bigint; username?: string; firstName?: string }): Promise<TelegramUser> {
+    return this.prismaClient.telegramUser.upsert({
+      where: { telegramId: data.telegramId },
+      create: {
+        telegramId: data.telegramId,
+        username: data.username ?? null,
+        firstName: data.firstName ?? null
+      },
+      update: {
+        ...(data.username !== undefined && { username: data.username }),
+        ...(data.firstName !== undefined && { firstName: data.firstName })
+      }
+    });
+  }
+
+  async findUserByTelegramId(telegramId: bigint): Promise<TelegramUser | null> {
+    return this.prismaClient.telegramUser.findUnique({
+      where: { telegramId }
+    });
+  }
+
+  async findUserByLinkedUserId(linkedUserId: number): Promise<TelegramUser | null> {
+    return this.prismaClient.telegramUser.findUnique({
+      where: { linkedUserId }
+    });
+  }
+
+  async setLinkedUser(id: string, linkedUserId: number | null): Promise<TelegramUser> {
+    return this.prismaClient.telegramUser.update({
+      where: { id },
+      data: { linkedUserId }
+    });
+  }
+
+  // ========== SUBSCRIPTIONS ==========
+
+  async findSubscriptionsByUser(telegramUserId: string): Promise<TelegramSubscription[]> {
+    return this.prismaClient.telegramSubscription.findMany({
+      where: { telegramUserId },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  async findSubscriptionForUser(id: string, telegramUserId: string): Promise<TelegramSubscription | null> {
+    return this.prismaClient.telegramSubscription.findFirst({
+      where: { id, telegramUserId }
+    });
+  }
+
+  async countSubscriptionsByUser(telegramUserId: string): Promise<number> {
+    return this.prismaClient.telegramSubscription.count({
+      where: { telegramUserId }
+    });
+  }
+
+  async createSubscription(telegramUserId: string, data: TelegramSubscriptionCreateInput): Promise<TelegramSubscription> {
+    return this.prismaClient.telegramSubscription.create({
+      data: {
+        telegramUserId,
+        name: data.name,
+        subscriptionType: data.subscriptionType,
+        filterCoins: data.filterCoins,
+        filterMinUsd: data.filterMinUsd,
+        filterWallets: data.filterWallets,
+        useLinkedWallets: data.useLinkedWallets,
+        isActive: data.isActive
+      }
+    });
+  }
+
+  async updateSubscription(id: string, data: TelegramSubscriptionUpdateInput): Promise<TelegramSubscription> {
+    return this.prismaClient.telegramSubscription.update({
+      where: { id },
+      data
+    });
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.prismaClient.telegramSubscription.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Désactive toutes les subscriptions d'un utilisateur (chat bloqué ou supprimé)
+   */
+  async deactivateSubscriptionsByUser(telegramUserId: string): Promise<number> {
+    const result = await this.prismaClient.telegramSubscription.updateMany({
+      where: { telegramUserId, isActive: true },
+      data: { isActive: false }
+    });
+    return result.count;
+  }
+
+  /**
+   * Récupère les subscriptions actives d'un type donné avec leur utilisateur
+   */
+  async findActiveSubscriptions(subscriptionType: string): Promise<TelegramSubscriptionWithUser[]> {
+    return this.prismaClient.telegramSubscription.findMany({
+      where: { isActive: true, subscriptionType },
+      include: { telegramUser: true }
+    });
+  }
+
+  /**
+   * Récupère les adresses des wallets suivis par des utilisateurs LiquidTerminal
+   */
+  async findWalletAddressesByUsers(userIds: number[]): Promise<Map<number, string[]>> {
+    const result = new Map<number, string[]>();
+    if (userIds.length === 0) return result;
+
+    const userWallets = await this.prismaClient.userWallet.findMany({
+      where: { userId: { in: userIds } },
+      select: {
+        userId: true,
+        Wallet: { select: { address: true } }
+      }
+    });
+
+    for (const userWallet of userWallets) {
+      const addresses = result.get(userWallet.userId) || [];
+      addresses.push(userWallet.Wallet.address.toLowerCase());
+      result.set(userWallet.userId, addresses);
+    }
+    return result;
+  }
+
+  // ========== SENT ALERTS ==========
+
+  /**
+   * Retourne les clés "telegramUserId:liquidationId" déjà envoyées
+   */
+  async findSentAlertKeys(telegramUserIds: string[], liquidationIds: string[]): Promise<Set<string>> {
+    if (telegramUserIds.length === 0 || liquidationIds.length === 0) return new Set();
+
+    const sentAlerts = await this.prismaClient.telegramSentAlert.findMany({
+      where: {
+        telegramUserId: { in: telegramUserIds },
+        liquidationId: { in: liquidationIds }
+      },
+      select: { telegramUserId: true, liquidationId: true }
+    });
+
+    return new Set(sentAlerts.map(alert => `${alert.telegramUserId}:${alert.liquidationId}`));
+  }
+
+  /**
+   * Réserve l'envoi d'une alerte pour un utilisateur
+   * @returns false si une autre instance a déjà enregistré cette alerte (contrainte unique)
+   */
+  async claimSentAlert(telegramUserId: string, liquidationId: string): Promise<boolean> {
+    try {
+      await this.prismaClient.telegramSentAlert.create({
+        data: { telegramUserId, liquidationId }
+      });
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async deleteSentAlertsBefore(date: Date): Promise<number> {
+    const result = await this.prismaClient.telegramSentAlert.deleteMany({
+      where: { sentAt: { lt: date } }
+    });
+    return result.count;
+  }
+}
+
+export const telegramRepository = new TelegramRepository();
@@ -0,0 +1,206 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../core/prisma.service';
+import { ValidatorEvent, ValidatorEventType } from '../types/staking.types';
+
+/**
+ * Relevé d'un validateur
+ */
+export interface ValidatorSnapshotInput {
+  validator: string;
+  timeMs: number;
+  name: string;
+  stake: number;
+  commission: number;
+  uptime: number;
+  apr: number;
+  isActive: boolean;
+  isJailed: boolean;
+  unjailableAfter: number | null;
+  nRecentBlocks: number;
+}
+
+export type ValidatorEventInput = Omit<ValidatorEvent, 'id' | 'time'>;
+
+export interface ValidatorEventFilters {
+  validators?: string[];
+  types?: ValidatorEventType[];
+  sinceMs: number;
+  limit: number;
+}
+
+interface ValidatorSnapshotRow {
+  validator: string;
+  time_ms: bigint;
+  name: string;
+  stake: number;
+  commission: number;
+  uptime: number;
+  apr: number;
+  is_active: boolean;
+  is_jailed: boolean;
+  unjailable_after: bigint | null;
+  n_recent_blocks: number;
+}
+
+export class ValidatorHistoryRepository {
+  private prismaClient: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'> = prisma;
+
+  setPrismaClient(client: PrismaClient | Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>): void {
+    this.prismaClient = client;
+  }
+
+  resetPrismaClient(): void {
+    this.prismaClient = prisma;
+  }
+
+  /**
+   * Enregistre les relevés de l'intervalle en cours (le dernier relevé de l'intervalle l'emporte)
+   */
+  async upsertSnapshots(snapshots: ValidatorSnapshotInput[]): Promise<void> {
+    if (snapshots.length === 0) return;
+
+    const values = snapshots.map(snapshot => Prisma.sql`(
+      ${snapshot.validator}, ${BigInt(snapshot.timeMs)}, ${snapshot.name}, ${snapshot.stake},
+      ${snapshot.commission}, ${snapshot.uptime}, ${snapshot.apr}, ${snapshot.isActive}, ${snapshot.isJailed},
+      ${snapshot.unjailableAfter !== null ? BigInt(snapshot.unjailableAfter) : null}, ${snapshot.nRecentBlocks}
+    )`);
+
+    await this.prismaClient.$executeRaw`
+      INSERT INTO "public"."validator_snapshots"
+        ("validator", "time_ms", "name", "stake", "commission", "uptime", "apr",
+         "is_active", "is_jailed", "unjailable_after", "n_recent_blocks")
+      VALUES ${Prisma.join(values)}
+      ON CONFLICT ("validator", "time_ms") DO UPDATE SET
+        "name" = EXCLUDED."name",
+        "stake" = EXCLUDED."stake",
+        "commission" = EXCLUDED."commission",
+        "uptime" = EXCLUDED."uptime",
+        "apr" = EXCLUDED."apr",
+        "is_active" = EXCLUDED."is_active",
+        "is_jailed" = EXCLUDED."is_jailed",
+        "unjailable_after" = EXCLUDED."unjailable_after",
+        "n_recent_blocks" = EXCLUDED."n_recent_blocks"
+    `;
+  }
+
+  /**
+   * Historique d'un validateur depuis sinceMs, un point par bucket (dernier relevé du bucket)
+   */
+  async findHistory(validator: string, sinceMs: number, bucketMs: number): Promise<ValidatorSnapshotInput[]> {
+    const rows = await this.prismaClient.$queryRaw<ValidatorSnapshotRow[]>`
+      SELECT DISTINCT ON ("time_ms" / ${BigInt(bucketMs)})
+        "validator", "time_ms", "name", "stake", "commission", "uptime", "apr",
+        "is_active", "is_jailed", "unjailable_after", "n_recent_blocks"
+      FROM "public"."validator_snapshots"
+      WHERE "validator" = ${validator} AND "time_ms" >= ${BigInt(sinceMs)}
+      ORDER BY "time_ms" / ${BigInt(bucketMs)}, "time_ms" DESC
+    `;
+
+    return rows.map(row => ({
+      validator: row.validator,
+      timeMs: Number(row.time_ms),
+      name: row.name,
+      stake: row.stake,
+      commission: row.commission,
+      uptime: row.uptime,
+      apr: row.apr,
+      isActive: row.is_active,
+      isJailed: row.is_jailed,
+      unjailableAfter: row.unjailable_after !== null ? Number(row.unjailable_after) : null,
+      nRecentBlocks: row.n_recent_blocks
+    }));
+  }
+
+  /**
+   * Enregistre les événements détectés et les renvoie avec leur identifiant
+   */
+  async createEvents(events: ValidatorEventInput[]): Promise<ValidatorEvent[]> {
+    if (events.length === 0) return [];
+
+    const records = await Promise.all(events.map(event =>
+      this.prismaClient.validatorEvent.create({
+        data: {
+          validator: event.validator,
+          name: event.name,
+          type: event.type,
+          previousValue: event.previousValue,
+          currentValue: event.currentValue,
+          unjailableAfter: event.unjailableAfter !== null ? BigInt(event.unjailableAfter) : null,
+          timeMs: BigInt(event.timeMs)
+        }
+      })
+    ));
+
+    return records.map(record => this.toEvent(record));
+  }
+
+  /**
+   * Événements les plus récents correspondant aux filtres (du plus récent au plus ancien)
+   */
+  async findEvents(filters: ValidatorEventFilters): Promise<{ events: ValidatorEvent[]; total: number }> {
+    const where: Prisma.ValidatorEventWhereInput = {
+      timeMs: { gte: BigInt(filters.sinceMs) },
+      ...(filters.validators && { validator: { in: filters.validators } }),
+      ...(filters.types && { type: { in: filters.types } })
+    };
+
+    const [records, total] = await Promise.all([
+      this.prismaClient.validatorEvent.findMany({
+        where,
+        orderBy: [{ timeMs: 'desc' }, { id: 'desc' }],
+        take: filters.limit
+      }),
+      this.prismaClient.validatorEvent.count({ where })
+    ]);
+
+    return { events: records.map(record => this.toEvent(record)), total };
+  }
+
+  /**
+   * Supprime les relevés antérieurs à beforeMs
+   * @returns nombre de lignes supprimées
+   */
+  async deleteSnapshotsOlderThan(beforeMs: number): Promise<number> {
+    const result = await this.prismaClient.validatorSnapshot.deleteMany({
+      where: { timeMs: { lt: BigInt(beforeMs) } }
+    });
+    return result.count;
+  }
+
+  /**
+   * Supprime les événements antérieurs à beforeMs
+   * @returns nombre de lignes supprimées
+   */
+  async deleteEventsOlderThan(beforeMs: number): Promise<number> {
+    const result = await this.prismaClient.validatorEvent.deleteMany({
+      where: { timeMs: { lt: BigInt(beforeMs) } }
+    });
+    return result.count;
+  }
+
+  private toEvent(record: {
+    id: number;
+    validator: string;
+    name: string;
+    type: string;
+    previousValue: number | null;
+    currentValue: number | null;
+    unjailableAfter: bigint | null;
+    timeMs: bigint;
+  }): ValidatorEvent {
+    const timeMs = Number(record.timeMs);
+    return {
+      id: record.id,
+      validator: record.validator,
+      name: record.name,
+      type: record.type as ValidatorEventType,
+      previousValue: record.previousValue,
+      currentValue: record.currentValue,
+      unjailableAfter: record.unjailableAfter !== null ? Number(record.unjailableAfter) : null,
+      time: new Date(timeMs).toISOString(),
+      timeMs
+    };
+  }
+}
+
+export const validatorHistoryRepository = new ValidatorHistoryRepository();
@@ -0,0 +1,48 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { AssetService } from '../../services/assets/asset.service';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validateGetRequest } from '../../middleware/validation';
+import { assetGetSchema } from '../../schemas/asset.schema';
+import { AssetError } from '../../errors/asset.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const assetService = AssetService.getInstance();
+
+router.use(marketRateLimiter);
+
+/**
+ * @route GET /market/assets/:symbol
+ * @description Vue unifiée d'un asset : marché spot, marché perp, infos token et auction
+ * @param symbol - Nom affiché (BTC), nom on-chain du token (UBTC) ou nom du marché perp
+ */
+router.get('/:symbol', validateGetRequest(assetGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const symbol = String(req.params.symbol);
+    const asset = await assetService.getAsset(symbol);
+
+    res.status(200).json({
+      success: true,
+      message: 'Asset retrieved successfully',
+      data: asset
+    });
+  } catch (error) {
+    logDeduplicator.error('Error retrieving asset:', { error: error instanceof Error ? error.message : String(error) });
+
+    if (error instanceof AssetError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
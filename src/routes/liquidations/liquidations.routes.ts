@@ -1,16 +1,40 @@
 import { Router, Request, Response, RequestHandler } from 'express';
 import { LiquidationsService } from '../../services/liquidations/liquidations.service';
 import { SSEManagerService } from '../../services/liquidations/sse-manager.service';
+import { LiquidationsHistoryService } from '../../services/liquidations/liquidations-history.service';
+import { LiquidationsBackfillService } from '../../services/liquidations/liquidations-backfill.service';
+import { LiquidationsHeatmapService } from '../../services/liquidations/liquidations-heatmap.service';
+import { LiquidationsWalletService } from '../../services/liquidations/liquidations-wallet.service';
+import { LiquidatorsService } from '../../services/liquidations/liquidators.service';
+import { LiquidationsCascadeService } from '../../services/liquidations/liquidations-cascade.service';
+import { LiquidationsExportService } from '../../services/liquidations/liquidations-export.service';
+import { StreamFiltersService } from '../../services/liquidations/stream-filters.service';
+import { WSManagerService } from '../../services/liquidations/ws-manager.service';
+import { LiquidationsReplayService } from '../../services/liquidations/liquidations-replay.service';
 import { LiquidationQueryParams, LiquidationsError, ChartPeriod } from '../../types/liquidations.types';
+import { SSEClientFilters } from '../../types/sse.types';
+import { WalletListError } from '../../errors/walletlist.errors';
 import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validatePrivyToken } from '../../middleware/authMiddleware';
+import { requireAdmin } from '../../middleware/roleMiddleware';
 import { validateRequest } from '../../middleware/validation/validation.middleware';
-import { liquidationsQuerySchema, recentLiquidationsQuerySchema } from '../../schemas/liquidations.schema';
+import { liquidationsQuerySchema, recentLiquidationsQuerySchema, liquidationsBackfillSchema, liquidationHeatmapQuerySchema, walletLiquidationProfileSchema, liquidatorLeaderboardQuerySchema, liquidationCascadesQuerySchema, liquidationsExportQuerySchema } from '../../schemas/liquidations.schema';
 import { sseStreamQuerySchema } from '../../schemas/sse.schema';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
 const router = Router();
 const liquidationsService = LiquidationsService.getInstance();
 const sseManager = SSEManagerService.getInstance();
+const historyService = LiquidationsHistoryService.getInstance();
+const backfillService = LiquidationsBackfillService.getInstance();
+const heatmapService = LiquidationsHeatmapService.getInstance();
+const walletService = LiquidationsWalletService.getInstance();
+const liquidatorsService = LiquidatorsService.getInstance();
+const cascadeService = LiquidationsCascadeService.getInstance();
+const exportService = LiquidationsExportService.getInstance();
+const streamFiltersService = StreamFiltersService.getInstance();
+const wsManager = WSManagerService.getInstance();
+const replayService = LiquidationsReplayService.getInstance();
 
 /**
  * Parse validated query parameters into LiquidationQueryParams
@@ -79,6 +103,7 @@ function parseQueryParams(query: Request['query']): LiquidationQueryParams {
 /**
  * GET /liquidations
  * Historical liquidations with filters and keyset pagination
+ * start_time/end_time ranges covered by the Postgres history are served locally
  */
 router.get('/',
   marketRateLimiter,
@@ -295,17 +320,364 @@ router.get('/recent',
   }) as RequestHandler
 );
 
+/**
+ * GET /liquidations/heatmap
+ * Liquidated notional clustered by coin, price band and time window
+ *
+ * Query params:
+ * - period: '2h' | '4h' | '8h' | '12h' | '24h' (default: '24h')
+ * - coin: single coin (optional, default: top coins by volume)
+ * - price_source: 'mark' | 'fill' (default: 'fill', uses fill_px_vwap)
+ * - band_pct: band width as % of the coin median price (default: 0.5)
+ * - band_width: absolute band width in USD (requires coin)
+ * - max_coins: number of coins returned (default: 10)
+ */
+router.get('/heatmap',
+  marketRateLimiter,
+  validateRequest(liquidationHeatmapQuerySchema),
+  (async (req: Request, res: Response) => {
+    try {
+      const query = liquidationHeatmapQuerySchema.shape.query.parse(req.query);
+
+      logDeduplicator.info('GET /liquidations/heatmap request', { query });
+
+      const response = await heatmapService.getHeatmap({
+        period: query.period,
+        coin: query.coin,
+        priceSource: query.price_source,
+        bandPct: query.band_pct,
+        bandWidth: query.band_width,
+        maxCoins: query.max_coins
+      });
+
+      res.json(response);
+    } catch (error) {
+      logDeduplicator.error('Error fetching liquidation heatmap:', { error });
+
+      if (error instanceof LiquidationsError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
+/**
+ * GET /liquidations/wallet/:address
+ * Liquidation profile of an address: lifetime and windowed totals, per-coin breakdown, recent events
+ *
+ * Query params:
+ * - recent_limit: number of recent events returned (default: 20)
+ */
+router.get('/wallet/:address',
+  marketRateLimiter,
+  validateRequest(walletLiquidationProfileSchema),
+  (async (req: Request, res: Response) => {
+    try {
+      const { query, params } = walletLiquidationProfileSchema.parse({ query: req.query, params: req.params });
+
+      logDeduplicator.info('GET /liquidations/wallet/:address request', { address: params.address });
+
+      const ip = req.ip || req.socket.remoteAddress || 'unknown';
+      const response = await walletService.getWalletProfile(params.address, query.recent_limit, ip);
+      res.json(response);
+    } catch (error) {
+      logDeduplicator.error('Error fetching wallet liquidation profile:', { error });
+
+      if (error instanceof LiquidationsError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
+/**
+ * GET /liquidations/liquidators
+ * Liquidator leaderboard for all periods (2h, 4h, 8h, 12h, 24h) with HLP vault share
+ *
+ * Query params:
+ * - sort_by: 'volume' | 'count' | 'coins' (default: 'volume')
+ * - limit: number of liquidators per period (default: 25)
+ */
+router.get('/liquidators',
+  marketRateLimiter,
+  validateRequest(liquidatorLeaderboardQuerySchema),
+  (async (req: Request, res: Response) => {
+    try {
+      const query = liquidatorLeaderboardQuerySchema.shape.query.parse(req.query);
+
+      logDeduplicator.info('GET /liquidations/liquidators request', { query });
+
+      const response = await liquidatorsService.getLeaderboard(query.sort_by, query.limit);
+      res.json(response);
+    } catch (error) {
+      logDeduplicator.error('Error fetching liquidator leaderboard:', { error });
+
+      if (error instanceof LiquidationsError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
+/**
+ * GET /liquidations/cascades
+ * Detected liquidation cascades (bursts on one coin), most recent first
+ * Live detections are pushed on /liquidations/stream as `cascade` events
+ *
+ * Query params:
+ * - coin: Filter by coin (optional)
+ * - hours: look-back window (default: 24, max: 720)
+ * - limit: max cascades returned (default: 50)
+ */
+router.get('/cascades',
+  marketRateLimiter,
+  validateRequest(liquidationCascadesQuerySchema),
+  (async (req: Request, res: Response) => {
+    try {
+      const query = liquidationCascadesQuerySchema.shape.query.parse(req.query);
+
+      logDeduplicator.info('GET /liquidations/cascades request', { query });
+
+      const response = await cascadeService.getCascades(query);
+      res.json(response);
+    } catch (error) {
+      logDeduplicator.error('Error fetching liquidation cascades:', { error });
+
+      if (error instanceof LiquidationsError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
+/**
+ * GET /liquidations/export
+ * Stream liquidations of a time range as CSV or NDJSON (oldest first, max 31 days)
+ * Pages are fetched from HypeDexer and written one at a time, honoring client backpressure
+ *
+ * Query params:
+ * - format: csv | ndjson (default: csv)
+ * - start_time: range start, ISO (required)
+ * - end_time: range end, ISO (default: now)
+ * - coin, user, amount_dollars: same filters as GET /liquidations
+ */
+router.get('/export',
+  marketRateLimiter,
+  validateRequest(liquidationsExportQuerySchema),
+  (async (req: Request, res: Response) => {
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = true;
+    });
+
+    try {
+      const query = liquidationsExportQuerySchema.shape.query.parse(req.query);
+      const params = {
+        format: query.format,
+        startTime: query.start_time,
+        endTime: query.end_time,
+        coin: query.coin,
+        user: query.user,
+        amountDollars: query.amount_dollars
+      };
+
+      logDeduplicator.info('GET /liquidations/export request', { params, ip });
+
+      // Fetch the first page before sending headers, so early errors get a JSON response
+      const filename = exportService.getFilename(params);
+      const chunks = exportService.exportChunks(params, ip);
+      let next = await chunks.next();
+
+      res.setHeader('Content-Type', exportService.getContentType(params));
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'no-store');
+
+      while (!next.done && !clientClosed) {
+        if (!res.write(next.value)) {
+          // Wait until the client drained the buffer (or left)
+          await new Promise<void>(resolve => {
+            const done = () => {
+              res.off('drain', done);
+              res.off('close', done);
+              resolve();
+            };
+            res.on('drain', done);
+            res.on('close', done);
+          });
+        }
+        if (clientClosed) break;
+        next = await chunks.next();
+      }
+
+      if (clientClosed) {
+        // Stop fetching pages
+        await chunks.return(undefined);
+        logDeduplicator.info('Liquidations export aborted by client', { ip });
+        return;
+      }
+
+      res.end();
+    } catch (error) {
+      logDeduplicator.error('Error exporting liquidations:', { error });
+
+      // Headers already sent: the truncated response is the only signal left
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+
+      if (error instanceof LiquidationsError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
+/**
+ * GET /liquidations/history/status
+ * Time range covered by the Postgres history and state of the last backfill
+ */
+router.get('/history/status',
+  marketRateLimiter,
+  (async (_req: Request, res: Response) => {
+    try {
+      const [coverage, backfill] = await Promise.all([
+        historyService.getCoverage(),
+        backfillService.getState()
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          coverage: coverage && {
+            ...coverage,
+            start: new Date(coverage.startMs).toISOString(),
+            latest: new Date(coverage.latestMs).toISOString(),
+            syncedAt: new Date(coverage.syncedAtMs).toISOString()
+          },
+          backfill
+        }
+      });
+    } catch (error) {
+      logDeduplicator.error('Error fetching liquidations history status:', { error });
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
+/**
+ * POST /liquidations/history/backfill
+ * Start a backfill of the Postgres history from HypeDexer (admin only)
+ *
+ * Body:
+ * - start_time: ISO datetime (required)
+ * - end_time: ISO datetime (optional, default: now)
+ */
+router.post('/history/backfill',
+  marketRateLimiter,
+  validatePrivyToken,
+  requireAdmin,
+  validateRequest(liquidationsBackfillSchema),
+  (async (req: Request, res: Response) => {
+    try {
+      const { start_time, end_time } = req.body as { start_time: string; end_time?: string };
+
+      logDeduplicator.info('POST /liquidations/history/backfill request', { start_time, end_time });
+
+      const state = await backfillService.start(start_time, end_time);
+      res.status(202).json({
+        success: true,
+        data: state
+      });
+    } catch (error) {
+      logDeduplicator.error('Error starting liquidations backfill:', { error });
+
+      if (error instanceof LiquidationsError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }) as RequestHandler
+);
+
 /**
  * GET /liquidations/stream
  * Server-Sent Events endpoint for real-time liquidation updates
  *
  * Query params:
  * - coin: Filter by coin (optional, e.g., "BTC")
+ * - coins: Filter by any of several coins, comma-separated (optional, e.g., "BTC,ETH,SOL")
+ * - liq_dir: Filter by liquidated side, "Long" or "Short" (optional)
  * - min_amount_dollars: Minimum notional value filter (optional)
+ * - max_amount_dollars: Maximum notional value filter (optional)
+ * - user: Filter by liquidated wallet address (optional)
+ * - wallet_list_id: Only liquidations of addresses in this wallet list (optional)
+ *   Public lists are open to everyone, private lists require the owner's token
+ * - access_token: Privy token, for EventSource clients that cannot send headers (optional)
  * - last_event_id: Resume from this event ID (optional)
+ *   Missed liquidations are replayed exactly within the replay retention window,
+ *   then a `replay` event tells whether the gap could be filled entirely
  *
  * Headers:
  * - Last-Event-ID: Alternative way to specify resume point (SSE standard)
+ * - Authorization: Bearer <privy token> (optional, alternative to access_token)
  *
  * Note: This route does NOT use marketRateLimiter - SSE has its own connection limits
  */
@@ -317,24 +689,40 @@ router.get('/stream',
     res.setTimeout(0);
 
     const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    const { access_token, last_event_id, ...filterInput } = sseStreamQuerySchema.shape.query.parse(req.query);
+    const authHeader = req.headers.authorization;
+    const accessToken = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : access_token;
+
+    // Parse filters from query (wallet lists are resolved to their addresses)
+    let filters: SSEClientFilters;
+    try {
+      filters = await streamFiltersService.resolveFilters(filterInput, accessToken);
+    } catch (error) {
+      logDeduplicator.error('Error resolving SSE stream filters:', { error, walletListId: filterInput.wallet_list_id });
 
-    // Parse filters from query
-    const filters = {
-      coin: req.query.coin as string | undefined,
-      minAmountDollars: req.query.min_amount_dollars
-        ? parseFloat(String(req.query.min_amount_dollars))
-        : undefined,
-      user: req.query.user as string | undefined
-    };
-
-    // Get last event ID (from query or header)
-    const lastEventId = req.query.last_event_id
-      ? parseInt(String(req.query.last_event_id), 10)
-      : req.headers['last-event-id']
-        ? parseInt(String(req.headers['last-event-id']), 10)
+      if (error instanceof LiquidationsError || error instanceof WalletListError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+
+    // Get last event ID (from query or header), invalid header values are ignored
+    const headerEventId = req.headers['last-event-id'] ? String(req.headers['last-event-id']) : undefined;
+    const lastEventId = last_event_id !== undefined
+      ? last_event_id
+      : headerEventId && replayService.isValidEventId(headerEventId)
+        ? headerEventId
         : undefined;
 
-    logDeduplicator.info('SSE stream request', { ip, filters, lastEventId });
+    logDeduplicator.info('SSE stream request', { ip, filters: filterInput, lastEventId });
 
     // Add client
     const clientId = await sseManager.addClient(res, ip, filters, lastEventId);
@@ -347,16 +735,7 @@ router.get('/stream',
       });
     }
 
-    // Handle client disconnect
-    req.on('close', () => {
-      sseManager.removeClient(clientId);
-    });
-
-    req.on('error', () => {
-      sseManager.removeClient(clientId);
-    });
-
-    // Keep connection open - response handled by SSE manager
+    // Keep connection open - response and disconnect handled by SSE manager
   }) as RequestHandler
 );
 
@@ -375,4 +754,20 @@ router.get('/stream/stats',
   }) as RequestHandler
 );
 
+/**
+ * GET /liquidations/ws/stats
+ * Get current WebSocket connection statistics (for monitoring)
+ * The WebSocket endpoint itself (/liquidations/ws) is handled on the HTTP upgrade by WSManagerService
+ */
+router.get('/ws/stats',
+  marketRateLimiter,
+  (async (_req: Request, res: Response) => {
+    const stats = wsManager.getStats();
+    res.json({
+      success: true,
+      data: stats
+    });
+  }) as RequestHandler
+);
+
 export default router;
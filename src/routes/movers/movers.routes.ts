@@ -0,0 +1,93 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { MarketMoversService } from '../../services/movers/marketMovers.service';
+import { MoversSSEManagerService } from '../../services/movers/movers-sse-manager.service';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validateGetRequest } from '../../middleware/validation';
+import { moversGetSchema, moversStreamQuerySchema } from '../../schemas/movers.schema';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const marketMoversService = MarketMoversService.getInstance();
+const moversSseManager = MoversSSEManagerService.getInstance();
+
+/**
+ * GET /market/movers
+ * Recent market anomalies (newest first): price / volume / OI z-scores and new 24h highs / lows
+ *
+ * Query params:
+ * - marketType: "spot" or "perp" (optional)
+ * - types: Anomaly types, comma-separated (optional, e.g. "price_zscore,new_high_24h")
+ * - coins: Markets, comma-separated (optional, e.g. "BTC,HYPE")
+ * - minZScore: Minimum |z-score| for z-score anomalies (optional)
+ * - hours: Lookback window, 1 to 24 (default: 24)
+ * - limit: Max anomalies returned, 1 to 500 (default: 100)
+ */
+router.get('/', marketRateLimiter, validateGetRequest(moversGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const params = moversGetSchema.shape.query.parse(req.query);
+    const result = await marketMoversService.getMovers(params);
+
+    res.status(200).json({
+      success: true,
+      message: 'Market movers retrieved successfully',
+      data: result.data,
+      metadata: result.metadata
+    });
+  } catch (error) {
+    logDeduplicator.error('Error retrieving market movers:', { error });
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /market/movers/stream
+ * Server-Sent Events endpoint pushing anomalies as they are detected (`anomaly` events)
+ * Accepts the same filters as GET /market/movers (marketType, types, coins, minZScore)
+ *
+ * Note: This route does NOT use marketRateLimiter - SSE has its own connection limits
+ */
+router.get('/stream', validateGetRequest(moversStreamQuerySchema), ((req: Request, res: Response) => {
+  // Disable timeouts for SSE long-lived connections
+  req.setTimeout(0);
+  res.setTimeout(0);
+
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  const filters = moversStreamQuerySchema.shape.query.parse(req.query);
+
+  const clientId = moversSseManager.addClient(res, ip, filters);
+  if (!clientId) {
+    return res.status(429).json({
+      success: false,
+      error: 'Connection limit reached',
+      code: 'SSE_CONNECTION_LIMIT'
+    });
+  }
+
+  req.on('close', () => {
+    moversSseManager.removeClient(clientId);
+  });
+
+  req.on('error', () => {
+    moversSseManager.removeClient(clientId);
+  });
+
+  // Keep connection open - response handled by the movers SSE manager
+}) as RequestHandler);
+
+/**
+ * GET /market/movers/stream/stats
+ * Get current movers SSE connection statistics (for monitoring)
+ */
+router.get('/stream/stats', marketRateLimiter, ((_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: moversSseManager.getStats()
+  });
+}) as RequestHandler);
+
+export default router;
@@ -1,12 +1,14 @@
 import express, { Request, Response } from 'express';
 import { PerpAssetContextService } from '../../services/perp/perpAssetContext.service';
+import { MarketCandlesService } from '../../services/candles/marketCandles.service';
 import { validateGetRequest } from '../../middleware/validation';
-import { marketPerpGetSchema } from '../../schemas/perp.schemas';
-import { PerpMarketDataError, PerpTimeoutError } from '../../errors/perp.errors';
+import { marketPerpGetSchema, marketPerpCandlesGetSchema } from '../../schemas/perp.schemas';
+import { PerpError, PerpMarketDataError, PerpMarketNotFoundError, PerpTimeoutError } from '../../errors/perp.errors';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
 const router = express.Router();
 const perpMarketService = PerpAssetContextService.getInstance();
+const candlesService = MarketCandlesService.getInstance();
 
 router.get('/', validateGetRequest(marketPerpGetSchema), async (req: Request, res: Response): Promise<void> => {
   try {
@@ -16,7 +18,8 @@ router.get('/', validateGetRequest(marketPerpGetSchema), async (req: Request, re
       limit, 
       page,
       token,
-      pair 
+      pair,
+      dex
     } = req.query;
 
     const result = await perpMarketService.getPerpMarketsData({
@@ -25,7 +28,8 @@ router.get('/', validateGetRequest(marketPerpGetSchema), async (req: Request, re
       limit: limit ? Number(limit) : undefined,
       page: page ? Number(page) : undefined,
       token: token as string,
-      pair: pair as string
+      pair: pair as string,
+      dex: dex as string
     });
 
     logDeduplicator.info('Perp market data retrieved successfully', { 
@@ -71,4 +75,49 @@ router.get('/', validateGetRequest(marketPerpGetSchema), async (req: Request, re
   }
 });
 
+/**
+ * @route GET /market/perp/:name/candles
+ * @description Récupère les bougies OHLCV d'un marché perp
+ * @query interval - Intervalle des bougies ('1m', '5m', '1h', '1d', par défaut '1h')
+ * @query startTime - Début de la période (timestamp ms)
+ * @query endTime - Fin de la période (timestamp ms)
+ * @query limit - Nombre maximum de bougies (1-2000, par défaut 500)
+ */
+router.get('/:name/candles', validateGetRequest(marketPerpCandlesGetSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    const query = marketPerpCandlesGetSchema.shape.query.parse(req.query);
+    const result = await candlesService.getCandles('perp', name, query);
+
+    if (!result) {
+      throw new PerpMarketNotFoundError(`Market ${name} not found`);
+    }
+
+    logDeduplicator.info('Perp candles retrieved successfully', {
+      market: result.data.market,
+      interval: query.interval,
+      count: result.data.candles.length
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    logDeduplicator.error('Error retrieving perp candles:', { error: error instanceof Error ? error.message : String(error) });
+
+    if (error instanceof PerpError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,46 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { PerpBasisService } from '../../services/perp/perpBasis.service';
+import { validateGetRequest } from '../../middleware/validation';
+import { perpBasisGetSchema } from '../../schemas/perp.schemas';
+import { PerpError } from '../../errors/perp.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const perpBasisService = PerpBasisService.getInstance();
+
+/**
+ * GET /market/perp/basis
+ * Basis mark / oracle, premium et écart des impact prices, avec alertes au-delà du seuil
+ */
+router.get('/', validateGetRequest(perpBasisGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const params = perpBasisGetSchema.shape.query.parse(req.query);
+    const result = await perpBasisService.getPerpBasisData(params);
+
+    res.status(200).json({
+      success: true,
+      message: 'Perp basis data retrieved successfully',
+      data: result.data,
+      pagination: result.pagination,
+      metadata: result.metadata
+    });
+  } catch (error) {
+    logDeduplicator.error('Error retrieving perp basis data:', { error });
+
+    if (error instanceof PerpError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -0,0 +1,82 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { PerpFundingService } from '../../services/perp/perpFunding.service';
+import { validateGetRequest } from '../../middleware/validation';
+import { perpFundingRankingGetSchema, perpFundingHistoryGetSchema } from '../../schemas/perp.schemas';
+import { PerpError } from '../../errors/perp.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const perpFundingService = PerpFundingService.getInstance();
+
+/**
+ * GET /market/perp/funding
+ * Marchés classés par funding : plus positifs / plus négatifs
+ */
+router.get('/', validateGetRequest(perpFundingRankingGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const { rankBy, limit } = perpFundingRankingGetSchema.shape.query.parse(req.query);
+    const result = await perpFundingService.getFundingRanking(rankBy, limit);
+
+    logDeduplicator.info('Perp funding ranking retrieved successfully', {
+      rankBy,
+      limit,
+      totalMarkets: result.metadata.totalMarkets
+    });
+
+    res.json(result);
+  } catch (error) {
+    logDeduplicator.error('Error fetching perp funding ranking:', { error });
+
+    if (error instanceof PerpError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /market/perp/funding/:coin
+ * Historique horaire du funding, APR et moyennes 24h / 7j / 30j
+ */
+router.get('/:coin', validateGetRequest(perpFundingHistoryGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const coin = String(req.params.coin);
+    const { hours } = perpFundingHistoryGetSchema.shape.query.parse(req.query);
+    const result = await perpFundingService.getCoinFunding(coin, hours);
+
+    logDeduplicator.info('Perp funding history retrieved successfully', {
+      coin,
+      hours,
+      points: result.data.history.length
+    });
+
+    res.json(result);
+  } catch (error) {
+    logDeduplicator.error('Error fetching perp funding history:', { error });
+
+    if (error instanceof PerpError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
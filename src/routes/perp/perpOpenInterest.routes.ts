@@ -0,0 +1,82 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { PerpOpenInterestService } from '../../services/perp/perpOpenInterest.service';
+import { validateGetRequest } from '../../middleware/validation';
+import { perpOpenInterestScreenerGetSchema, perpOpenInterestHistoryGetSchema } from '../../schemas/perp.schemas';
+import { PerpError } from '../../errors/perp.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const perpOpenInterestService = PerpOpenInterestService.getInstance();
+
+/**
+ * GET /market/perp/oi
+ * Screener : marchés classés par variation d'OI sur 1h / 4h / 24h
+ */
+router.get('/', validateGetRequest(perpOpenInterestScreenerGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const params = perpOpenInterestScreenerGetSchema.shape.query.parse(req.query);
+    const result = await perpOpenInterestService.getScreener(params);
+
+    logDeduplicator.info('Perp open interest screener retrieved successfully', {
+      ...params,
+      totalMarkets: result.metadata.totalMarkets
+    });
+
+    res.json(result);
+  } catch (error) {
+    logDeduplicator.error('Error fetching perp open interest screener:', { error });
+
+    if (error instanceof PerpError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /market/perp/oi/:coin
+ * Historique d'open interest d'un coin (5m / 1h / 1d)
+ */
+router.get('/:coin', validateGetRequest(perpOpenInterestHistoryGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const coin = String(req.params.coin);
+    const { interval, hours } = perpOpenInterestHistoryGetSchema.shape.query.parse(req.query);
+    const result = await perpOpenInterestService.getCoinHistory(coin, interval, hours);
+
+    logDeduplicator.info('Perp open interest history retrieved successfully', {
+      coin,
+      interval,
+      hours,
+      points: result.data.history.length
+    });
+
+    res.json(result);
+  } catch (error) {
+    logDeduplicator.error('Error fetching perp open interest history:', { error });
+
+    if (error instanceof PerpError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
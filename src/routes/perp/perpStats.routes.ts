@@ -8,9 +8,10 @@ import { logDeduplicator } from '../../utils/logDeduplicator';
 const router = express.Router();
 const perpGlobalStatsService = PerpGlobalStatsService.getInstance();
 
-router.get('/', validateGetRequest(globalPerpStatsGetSchema), (async (_req: Request, res: Response) => {
+router.get('/', validateGetRequest(globalPerpStatsGetSchema), (async (req: Request, res: Response) => {
   try {
-    const stats = await perpGlobalStatsService.getPerpGlobalStats();
+    const { dex } = globalPerpStatsGetSchema.shape.query.parse(req.query);
+    const stats = await perpGlobalStatsService.getPerpGlobalStats(dex);
     logDeduplicator.info('Perp global stats retrieved successfully', { 
       totalOpenInterest: stats.totalOpenInterest,
       totalVolume24h: stats.totalVolume24h,
@@ -0,0 +1,141 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { ScreenerService } from '../../services/screener/screener.service';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validatePrivyToken } from '../../middleware/authMiddleware';
+import { validateGetRequest } from '../../middleware/validation';
+import { validateRequest } from '../../middleware/validation/validation.middleware';
+import {
+  screenerQuerySchema,
+  screenCreateRequestSchema,
+  screenUpdateRequestSchema,
+  screenRequestSchema,
+  screenRunRequestSchema,
+  screenCreateSchema,
+  screenUpdateSchema
+} from '../../schemas/screener.schema';
+import { ScreenerError } from '../../errors/screener.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+import { prisma } from '../../core/prisma.service';
+
+const router = express.Router();
+const screenerService = ScreenerService.getInstance();
+
+// Rate limiting
+router.use(marketRateLimiter);
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  logDeduplicator.error(`Error ${context}:`, {
+    error: error instanceof Error ? error.message : String(error)
+  });
+  if (error instanceof ScreenerError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+  }
+  return res.status(500).json({ success: false, error: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' });
+};
+
+/**
+ * Résout l'utilisateur connecté, répond 401 et retourne null s'il est introuvable
+ */
+const resolveUserId = async (req: Request, res: Response): Promise<number | null> => {
+  const privyUserId = req.user?.sub;
+  if (!privyUserId) {
+    res.status(401).json({ success: false, error: 'User not authenticated', code: 'UNAUTHENTICATED' });
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({ where: { privyUserId } });
+  if (!user) {
+    res.status(401).json({ success: false, error: 'User not found', code: 'USER_NOT_FOUND' });
+    return null;
+  }
+  return user.id;
+};
+
+// ========== SCREENER ==========
+
+/**
+ * GET /market/screener
+ * Exécute un filtre sur les marchés spot / perp en cache
+ * ex: ?filter=volume > 1e6 AND change24h < -5&sort=volume:desc,change24h:asc
+ */
+router.get('/', validateGetRequest(screenerQuerySchema), (async (req: Request, res: Response) => {
+  try {
+    const query = screenerQuerySchema.shape.query.parse(req.query);
+    const result = await screenerService.run(query);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    handleError(res, error, 'running market screener');
+  }
+}) as RequestHandler);
+
+// ========== SAVED SCREENS (token Privy) ==========
+
+// Lister les screens de l'utilisateur connecté
+router.get('/screens', validatePrivyToken, (async (req: Request, res: Response) => {
+  try {
+    const userId = await resolveUserId(req, res);
+    if (userId === null) return;
+
+    const screens = await screenerService.listScreens(userId);
+    res.json({ success: true, data: screens });
+  } catch (error) {
+    handleError(res, error, 'fetching market screens');
+  }
+}) as RequestHandler);
+
+// Créer un screen
+router.post('/screens', validatePrivyToken, validateRequest(screenCreateRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const userId = await resolveUserId(req, res);
+    if (userId === null) return;
+
+    const input = screenCreateSchema.parse(req.body);
+    const screen = await screenerService.createScreen(userId, input);
+    res.status(201).json({ success: true, data: screen });
+  } catch (error) {
+    handleError(res, error, 'creating market screen');
+  }
+}) as RequestHandler);
+
+// Mettre à jour un screen
+router.put('/screens/:screenId', validatePrivyToken, validateRequest(screenUpdateRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const userId = await resolveUserId(req, res);
+    if (userId === null) return;
+
+    const input = screenUpdateSchema.parse(req.body);
+    const screen = await screenerService.updateScreen(userId, Number(req.params.screenId), input);
+    res.json({ success: true, data: screen });
+  } catch (error) {
+    handleError(res, error, 'updating market screen');
+  }
+}) as RequestHandler);
+
+// Supprimer un screen
+router.delete('/screens/:screenId', validatePrivyToken, validateRequest(screenRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const userId = await resolveUserId(req, res);
+    if (userId === null) return;
+
+    await screenerService.deleteScreen(userId, Number(req.params.screenId));
+    res.json({ success: true, message: 'Screen deleted successfully' });
+  } catch (error) {
+    handleError(res, error, 'deleting market screen');
+  }
+}) as RequestHandler);
+
+// Exécuter un screen sauvegardé
+router.get('/screens/:screenId/results', validatePrivyToken, validateRequest(screenRunRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const userId = await resolveUserId(req, res);
+    if (userId === null) return;
+
+    const pagination = screenRunRequestSchema.shape.query.parse(req.query);
+    const result = await screenerService.runScreen(userId, Number(req.params.screenId), pagination);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    handleError(res, error, 'running market screen');
+  }
+}) as RequestHandler);
+
+export default router;
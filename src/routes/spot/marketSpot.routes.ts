@@ -1,13 +1,15 @@
 import express, { Request, Response } from 'express';
 import { SpotAssetContextService } from '../../services/spot/marketData.service';
+import { MarketCandlesService } from '../../services/candles/marketCandles.service';
 import { marketRateLimiter } from '../../middleware/apiRateLimiter';
 import { validateGetRequest } from '../../middleware/validation';
-import { marketSpotGetSchema } from '../../schemas/spot.schemas';
-import { MarketDataError, RateLimitError } from '../../errors/spot.errors';
+import { marketSpotGetSchema, marketSpotCandlesGetSchema } from '../../schemas/spot.schemas';
+import { MarketDataError, MarketNotFoundError, RateLimitError, SpotError } from '../../errors/spot.errors';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
 const router = express.Router();
 const marketService = SpotAssetContextService.getInstance();
+const candlesService = MarketCandlesService.getInstance();
 
 // Appliquer le rate limiting et la sanitization
 router.use(marketRateLimiter);
@@ -128,4 +130,49 @@ router.get('/tokens-without-pairs', validateGetRequest(marketSpotGetSchema), asy
   }
 });
 
+/**
+ * @route GET /market/spot/:name/candles
+ * @description Récupère les bougies OHLCV d'un marché spot
+ * @query interval - Intervalle des bougies ('1m', '5m', '1h', '1d', par défaut '1h')
+ * @query startTime - Début de la période (timestamp ms)
+ * @query endTime - Fin de la période (timestamp ms)
+ * @query limit - Nombre maximum de bougies (1-2000, par défaut 500)
+ */
+router.get('/:name/candles', validateGetRequest(marketSpotCandlesGetSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const name = String(req.params.name);
+    const query = marketSpotCandlesGetSchema.shape.query.parse(req.query);
+    const result = await candlesService.getCandles('spot', name, query);
+
+    if (!result) {
+      throw new MarketNotFoundError(`Market ${name} not found`);
+    }
+
+    logDeduplicator.info('Spot candles retrieved successfully', {
+      market: result.data.market,
+      interval: query.interval,
+      count: result.data.candles.length
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    logDeduplicator.error('Error retrieving spot candles:', { error: error instanceof Error ? error.message : String(error) });
+
+    if (error instanceof SpotError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,75 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { TokenConcentrationService } from '../../services/spot/tokenConcentration.service';
+import { validateGetRequest } from '../../middleware/validation';
+import { spotTokenConcentrationRankingGetSchema, spotTokenConcentrationGetSchema } from '../../schemas/spot.schemas';
+import { SpotError } from '../../errors/spot.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const tokenConcentrationService = TokenConcentrationService.getInstance();
+
+/**
+ * GET /market/spot/concentration
+ * Tokens spot les plus / les moins concentrés (répartition genesis des holders)
+ */
+router.get('/', validateGetRequest(spotTokenConcentrationRankingGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const params = spotTokenConcentrationRankingGetSchema.shape.query.parse(req.query);
+    const result = await tokenConcentrationService.getRanking(params);
+
+    logDeduplicator.info('Token concentration ranking retrieved successfully', {
+      sortBy: params.sortBy,
+      limit: params.limit,
+      totalTokens: result.metadata.totalTokens
+    });
+
+    res.json(result);
+  } catch (error) {
+    logDeduplicator.error('Error fetching token concentration ranking:', { error });
+
+    if (error instanceof SpotError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /market/spot/concentration/:tokenId
+ * Top 10 / top 50, Gini, HHI, part du deployer et part hors circulation d'un token
+ */
+router.get('/:tokenId', validateGetRequest(spotTokenConcentrationGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const tokenId = String(req.params.tokenId);
+    const data = await tokenConcentrationService.getTokenConcentration(tokenId);
+
+    res.json({ success: true, data });
+  } catch (error) {
+    logDeduplicator.error('Error fetching token concentration:', { error });
+
+    if (error instanceof SpotError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -0,0 +1,73 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { TokenLaunchService } from '../../services/spot/tokenLaunch.service';
+import { validateGetRequest } from '../../middleware/validation';
+import { spotRecentDeploymentsGetSchema, spotTokenLaunchGetSchema } from '../../schemas/spot.schemas';
+import { SpotError } from '../../errors/spot.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = express.Router();
+const tokenLaunchService = TokenLaunchService.getInstance();
+
+/**
+ * GET /market/spot/launches
+ * Déploiements récents (auctions) avec leur performance depuis le lancement
+ */
+router.get('/', validateGetRequest(spotRecentDeploymentsGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const params = spotRecentDeploymentsGetSchema.shape.query.parse(req.query);
+    const result = await tokenLaunchService.getRecentDeployments(params);
+
+    res.json({
+      success: true,
+      data: result.data,
+      metadata: result.metadata
+    });
+  } catch (error) {
+    logDeduplicator.error('Error fetching recent deployments:', { error });
+
+    if (error instanceof SpotError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /market/spot/launches/:tokenId
+ * Rapport de lancement d'un token : déploiement, auction, allocations genesis et market cap actuelle
+ */
+router.get('/:tokenId', validateGetRequest(spotTokenLaunchGetSchema), (async (req: Request, res: Response) => {
+  try {
+    const tokenId = String(req.params.tokenId);
+    const data = await tokenLaunchService.getLaunchReport(tokenId);
+
+    res.json({ success: true, data });
+  } catch (error) {
+    logDeduplicator.error('Error fetching token launch report:', { error });
+
+    if (error instanceof SpotError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+}) as RequestHandler);
+
+export default router;
@@ -1,9 +1,15 @@
 import { Router, Request, Response, RequestHandler } from 'express';
 import { StakedHoldersService } from '../../services/staking/stakedHolders.service';
+import { StakedHolderHistoryService } from '../../services/staking/stakedHolderHistory.service';
 import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validateGetRequest } from '../../middleware/validation';
+import { stakedHolderChangesGetSchema, stakedHolderHistoryGetSchema } from '../../schemas/staking.schema';
+import { StakedHolderChangeDirection } from '../../types/staking.types';
+import { StakingError } from '../../errors/staking.errors';
 
 const router = Router();
 const stakedHoldersService = StakedHoldersService.getInstance();
+const stakedHolderHistoryService = StakedHolderHistoryService.getInstance();
 
 // Middleware global pour rate limiting
 router.use(marketRateLimiter);
@@ -82,6 +88,44 @@ router.get('/stats',
   }) as RequestHandler
 );
 
+/**
+ * Classement des holders par variation de solde sur la fenêtre demandée
+ */
+const topChangesHandler = (direction: StakedHolderChangeDirection, code: string): RequestHandler =>
+  (async (req: Request, res: Response) => {
+    try {
+      const params = stakedHolderChangesGetSchema.shape.query.parse(req.query);
+
+      const response = await stakedHolderHistoryService.getTopChanges(direction, params);
+
+      res.json(response);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code
+      });
+    }
+  }) as RequestHandler;
+
+/**
+ * GET /api/staking/holders/accumulators
+ * Récupère les holders dont le stake a le plus augmenté sur 24h ou 7j
+ */
+router.get('/accumulators',
+  validateGetRequest(stakedHolderChangesGetSchema),
+  topChangesHandler('accumulators', 'ACCUMULATORS_ERROR')
+);
+
+/**
+ * GET /api/staking/holders/distributors
+ * Récupère les holders dont le stake a le plus diminué sur 24h ou 7j
+ */
+router.get('/distributors',
+  validateGetRequest(stakedHolderChangesGetSchema),
+  topChangesHandler('distributors', 'DISTRIBUTORS_ERROR')
+);
+
 /**
  * GET /api/staking/holders/:address
  * Récupère un holder spécifique par son adresse
@@ -115,4 +159,36 @@ router.get('/:address',
   }) as RequestHandler
 );
 
+/**
+ * GET /api/staking/holders/:address/history
+ * Récupère l'historique du stake d'un holder et ses variations 24h / 7j
+ */
+router.get('/:address/history',
+  validateGetRequest(stakedHolderHistoryGetSchema),
+  (async (req: Request, res: Response) => {
+    try {
+      const address = String(req.params.address);
+      const { days } = stakedHolderHistoryGetSchema.shape.query.parse(req.query);
+
+      const response = await stakedHolderHistoryService.getHolderHistory(address, days);
+
+      res.json(response);
+    } catch (error) {
+      if (error instanceof StakingError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: 'HOLDER_HISTORY_ERROR'
+      });
+    }
+  }) as RequestHandler
+);
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { StakingSimulatorService } from '../../services/staking/stakingSimulator.service';
+import { StakingSimulationResponse } from '../../types/staking.types';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validateRequest } from '../../middleware/validation';
+import { stakingSimulatePostSchema } from '../../schemas/staking.schema';
+import { StakingError } from '../../errors/staking.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = Router();
+const stakingSimulatorService = StakingSimulatorService.getInstance();
+
+// Appliquer le rate limiter à toutes les routes
+router.use(marketRateLimiter);
+
+/**
+ * @route POST /staking/simulate
+ * @description Projette les récompenses d'une délégation répartie entre plusieurs validateurs,
+ * nettes de commission et ajustées de l'uptime, avec un tableau comparatif des validateurs
+ * @body amount - Montant délégué en HYPE
+ * @body validators - Validateurs choisis et leurs poids ([{ address, weight }], poids par défaut 1)
+ * @body horizonDays - Horizon en jours (1 à 3650, par défaut 365)
+ * @body compound - Capitalisation quotidienne des récompenses (par défaut true)
+ * @body compareLimit - Nombre de validateurs du tableau comparatif, hors validateurs choisis (par défaut 10)
+ */
+router.post('/', validateRequest(stakingSimulatePostSchema), async (req: Request, res: Response) => {
+  try {
+    const input = stakingSimulatePostSchema.shape.body.parse(req.body);
+    const result = await stakingSimulatorService.simulate(input);
+
+    const response: StakingSimulationResponse = {
+      success: true,
+      data: result
+    };
+
+    res.json(response);
+  } catch (error) {
+    logDeduplicator.error('Error in /simulate route:', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    if (error instanceof StakingError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to simulate staking rewards',
+        code: 'UNKNOWN_ERROR'
+      });
+    }
+  }
+});
+
+export default router;
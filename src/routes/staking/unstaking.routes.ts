@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { UnstakingService } from '../../services/staking/unstaking.service';
 import { UnstakingQueueResponse } from '../../types/staking.types';
 import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validateGetRequest } from '../../middleware/validation';
+import { unstakingCalendarGetSchema } from '../../schemas/staking.schema';
 import { ValidatorError } from '../../errors/staking.errors';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
@@ -98,4 +100,45 @@ router.get('/stats', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route GET /staking/unstaking-queue/calendar
+ * @description Calendrier prévisionnel des déblocages (par heure et par jour), plus gros déblocages à venir
+ * et ratio historique de re-stake des HYPE débloqués
+ * @query days - Horizon en jours (1 à 7, défaut: 7)
+ * @query top - Nombre de plus gros déblocages à venir (1 à 50, défaut: 10)
+ */
+router.get('/calendar', validateGetRequest(unstakingCalendarGetSchema), async (req: Request, res: Response) => {
+  try {
+    const params = unstakingCalendarGetSchema.shape.query.parse(req.query);
+    const calendar = await unstakingService.getUnstakingCalendar(params);
+
+    logDeduplicator.info('Unstaking calendar retrieved successfully', {
+      days: params.days,
+      totalTokens: calendar.totals.totalTokens,
+      transactionCount: calendar.totals.transactionCount
+    });
+
+    res.json({
+      success: true,
+      data: calendar
+    });
+  } catch (error) {
+    logDeduplicator.error('Error in /unstaking-queue/calendar route:', { error });
+
+    if (error instanceof ValidatorError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch unstaking calendar',
+        code: 'UNKNOWN_ERROR'
+      });
+    }
+  }
+});
+
 export default router; 
\ No newline at end of file
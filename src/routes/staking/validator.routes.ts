@@ -1,14 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { ValidatorSummariesService, SortBy } from '../../services/staking/validator.service';
+import { ValidatorHistoryService } from '../../services/staking/validatorHistory.service';
 import { ValidatorDetailsResponse } from '../../types/staking.types';
 import { marketRateLimiter } from '../../middleware/apiRateLimiter';
 import { validateGetRequest } from '../../middleware/validation';
-import { validatorsGetSchema } from '../../schemas/staking.schema';
+import { validatorsGetSchema, validatorHistoryGetSchema } from '../../schemas/staking.schema';
 import { ValidatorError } from '../../errors/staking.errors';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
 const router = Router();
 const validatorService = ValidatorSummariesService.getInstance();
+const validatorHistoryService = ValidatorHistoryService.getInstance();
 
 // Appliquer le rate limiter à toutes les routes
 router.use(marketRateLimiter);
@@ -60,4 +62,47 @@ router.get('/', validateGetRequest(validatorsGetSchema), async (req: Request, re
   }
 });
 
+/**
+ * @route GET /staking/validators/:address/history
+ * @description Récupère l'historique d'un validateur (stake, commission, uptime, APR, jail) et ses événements
+ * @query interval - Intervalle entre deux points ('15m', '1h' ou '1d', par défaut '1h')
+ * @query hours - Profondeur de l'historique en heures (1 à 2160, par défaut 168)
+ */
+router.get('/:address/history', validateGetRequest(validatorHistoryGetSchema), async (req: Request, res: Response) => {
+  try {
+    const address = String(req.params.address);
+    const { interval, hours } = validatorHistoryGetSchema.shape.query.parse(req.query);
+
+    const response = await validatorHistoryService.getValidatorHistory(address, interval, hours);
+
+    logDeduplicator.info('Validator history retrieved successfully', {
+      address,
+      interval,
+      hours,
+      points: response.data.history.length,
+      events: response.data.events.length
+    });
+
+    res.json(response);
+  } catch (error) {
+    logDeduplicator.error('Error in /validators/:address/history route:', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    if (error instanceof ValidatorError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch validator history',
+        code: 'UNKNOWN_ERROR'
+      });
+    }
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { Router, Request, Response } from 'express';
+import { ValidatorHistoryService } from '../../services/staking/validatorHistory.service';
+import { ValidatorEventsSSEManagerService } from '../../services/staking/validator-events-sse-manager.service';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validateGetRequest } from '../../middleware/validation';
+import { validatorEventsGetSchema, validatorEventsStreamQuerySchema } from '../../schemas/staking.schema';
+import { StakingError } from '../../errors/staking.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+const router = Router();
+const validatorHistoryService = ValidatorHistoryService.getInstance();
+const validatorEventsSseManager = ValidatorEventsSSEManagerService.getInstance();
+
+/**
+ * @route GET /staking/validators/events
+ * @description Récupère les événements validateurs récents (stake, commission, jail / unjail, activation, uptime)
+ * @query validators - Adresses des validateurs, séparées par des virgules (optionnel)
+ * @query types - Types d'événements, séparés par des virgules (optionnel)
+ * @query hours - Profondeur en heures (1 à 8760, par défaut 168)
+ * @query limit - Nombre maximum d'événements (1 à 500, par défaut 100)
+ */
+router.get('/', marketRateLimiter, validateGetRequest(validatorEventsGetSchema), async (req: Request, res: Response) => {
+  try {
+    const params = validatorEventsGetSchema.shape.query.parse(req.query);
+    const response = await validatorHistoryService.getEvents(params);
+
+    logDeduplicator.info('Validator events retrieved successfully', {
+      count: response.data.length,
+      total: response.metadata.total,
+      hours: params.hours
+    });
+
+    res.json(response);
+  } catch (error) {
+    logDeduplicator.error('Error in /validators/events route:', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    if (error instanceof StakingError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch validator events',
+        code: 'UNKNOWN_ERROR'
+      });
+    }
+  }
+});
+
+/**
+ * @route GET /staking/validators/events/stream
+ * @description Server-Sent Events : événements validateurs en temps réel (`validator_event`)
+ * @query validators - Adresses des validateurs, séparées par des virgules (optionnel)
+ * @query types - Types d'événements, séparés par des virgules (optionnel)
+ *
+ * Note : pas de marketRateLimiter sur cette route, le SSE a ses propres limites de connexions
+ */
+router.get('/stream', validateGetRequest(validatorEventsStreamQuerySchema), (req: Request, res: Response) => {
+  // Désactiver les timeouts pour les connexions SSE longues
+  req.setTimeout(0);
+  res.setTimeout(0);
+
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+  const filters = validatorEventsStreamQuerySchema.shape.query.parse(req.query);
+
+  const clientId = validatorEventsSseManager.addClient(res, ip, filters);
+  if (!clientId) {
+    res.status(429).json({
+      success: false,
+      error: 'Connection limit reached',
+      code: 'SSE_CONNECTION_LIMIT'
+    });
+    return;
+  }
+
+  req.on('close', () => {
+    validatorEventsSseManager.removeClient(clientId);
+  });
+
+  req.on('error', () => {
+    validatorEventsSseManager.removeClient(clientId);
+  });
+});
+
+/**
+ * @route GET /staking/validators/events/stream/stats
+ * @description Statistiques des connexions SSE (monitoring)
+ */
+router.get('/stream/stats', marketRateLimiter, (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: validatorEventsSseManager.getStats()
+  });
+});
+
+export default router;
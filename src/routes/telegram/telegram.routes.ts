@@ -0,0 +1,159 @@
+import express, { Request, Response, RequestHandler } from 'express';
+import { TelegramService } from '../../services/telegram/telegram.service';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { validatePrivyToken } from '../../middleware/authMiddleware';
+import { validateTelegramBotSecret } from '../../middleware/telegramAuth.middleware';
+import { validateRequest } from '../../middleware/validation/validation.middleware';
+import {
+  telegramRegisterRequestSchema,
+  telegramUserRequestSchema,
+  telegramSubscriptionCreateRequestSchema,
+  telegramSubscriptionUpdateRequestSchema,
+  telegramSubscriptionRequestSchema,
+  telegramLinkRequestSchema,
+  telegramUserRegisterSchema,
+  telegramSubscriptionCreateSchema,
+  telegramSubscriptionUpdateSchema,
+  telegramLinkSchema
+} from '../../schemas/telegram.schema';
+import { TelegramError } from '../../errors/telegram.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+import { prisma } from '../../core/prisma.service';
+
+const router = express.Router();
+const telegramService = TelegramService.getInstance();
+
+const handleError = (res: Response, error: unknown, context: string) => {
+  logDeduplicator.error(`Error ${context}:`, {
+    error: error instanceof Error ? error.message : String(error)
+  });
+  if (error instanceof TelegramError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+  }
+  return res.status(500).json({ success: false, error: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' });
+};
+
+// ========== BOT ROUTES (secret partagé) ==========
+// Pas de rate limiting par IP : tout le trafic du bot provient de la même IP
+
+// Enregistrer un utilisateur Telegram
+router.post('/users', validateTelegramBotSecret, validateRequest(telegramRegisterRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const input = telegramUserRegisterSchema.parse(req.body);
+    const user = await telegramService.registerUser(input);
+    res.status(201).json({ success: true, data: user });
+  } catch (error) {
+    handleError(res, error, 'registering Telegram user');
+  }
+}) as RequestHandler);
+
+// Récupérer un utilisateur Telegram
+router.get('/users/:telegramId', validateTelegramBotSecret, validateRequest(telegramUserRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const user = await telegramService.getUser(BigInt(String(req.params.telegramId)));
+    res.json({ success: true, data: user });
+  } catch (error) {
+    handleError(res, error, 'fetching Telegram user');
+  }
+}) as RequestHandler);
+
+// Générer un code de liaison avec un compte LiquidTerminal
+router.post('/users/:telegramId/link-code', validateTelegramBotSecret, validateRequest(telegramUserRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const linkCode = await telegramService.createLinkCode(BigInt(String(req.params.telegramId)));
+    res.status(201).json({ success: true, data: linkCode });
+  } catch (error) {
+    handleError(res, error, 'creating Telegram link code');
+  }
+}) as RequestHandler);
+
+// Lister les subscriptions d'un utilisateur
+router.get('/users/:telegramId/subscriptions', validateTelegramBotSecret, validateRequest(telegramUserRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const subscriptions = await telegramService.getSubscriptions(BigInt(String(req.params.telegramId)));
+    res.json({ success: true, data: subscriptions });
+  } catch (error) {
+    handleError(res, error, 'fetching Telegram subscriptions');
+  }
+}) as RequestHandler);
+
+// Créer une subscription
+router.post('/users/:telegramId/subscriptions', validateTelegramBotSecret, validateRequest(telegramSubscriptionCreateRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const input = telegramSubscriptionCreateSchema.parse(req.body);
+    const subscription = await telegramService.createSubscription(BigInt(String(req.params.telegramId)), input);
+    res.status(201).json({ success: true, data: subscription });
+  } catch (error) {
+    handleError(res, error, 'creating Telegram subscription');
+  }
+}) as RequestHandler);
+
+// Mettre à jour une subscription
+router.patch('/users/:telegramId/subscriptions/:subscriptionId', validateTelegramBotSecret, validateRequest(telegramSubscriptionUpdateRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const input = telegramSubscriptionUpdateSchema.parse(req.body);
+    const subscription = await telegramService.updateSubscription(
+      BigInt(String(req.params.telegramId)),
+      String(req.params.subscriptionId),
+      input
+    );
+    res.json({ success: true, data: subscription });
+  } catch (error) {
+    handleError(res, error, 'updating Telegram subscription');
+  }
+}) as RequestHandler);
+
+// Supprimer une subscription
+router.delete('/users/:telegramId/subscriptions/:subscriptionId', validateTelegramBotSecret, validateRequest(telegramSubscriptionRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    await telegramService.deleteSubscription(BigInt(String(req.params.telegramId)), String(req.params.subscriptionId));
+    res.json({ success: true, message: 'Subscription deleted successfully' });
+  } catch (error) {
+    handleError(res, error, 'deleting Telegram subscription');
+  }
+}) as RequestHandler);
+
+// ========== USER ROUTES (token Privy) ==========
+
+// Lier le compte Telegram à l'utilisateur connecté
+router.post('/link', marketRateLimiter, validatePrivyToken, validateRequest(telegramLinkRequestSchema), (async (req: Request, res: Response) => {
+  try {
+    const privyUserId = req.user?.sub;
+    if (!privyUserId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated', code: 'UNAUTHENTICATED' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { privyUserId } });
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'User not found', code: 'USER_NOT_FOUND' });
+    }
+
+    const { code } = telegramLinkSchema.parse(req.body);
+    const telegramUser = await telegramService.linkUser(code, user.id);
+    res.json({ success: true, data: telegramUser });
+  } catch (error) {
+    handleError(res, error, 'linking Telegram account');
+  }
+}) as RequestHandler);
+
+// Délier le compte Telegram de l'utilisateur connecté
+router.delete('/link', marketRateLimiter, validatePrivyToken, (async (req: Request, res: Response) => {
+  try {
+    const privyUserId = req.user?.sub;
+    if (!privyUserId) {
+      return res.status(401).json({ success: false, error: 'User not authenticated', code: 'UNAUTHENTICATED' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { privyUserId } });
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'User not found', code: 'USER_NOT_FOUND' });
+    }
+
+    await telegramService.unlinkUser(user.id);
+    res.json({ success: true, message: 'Telegram account unlinked successfully' });
+  } catch (error) {
+    handleError(res, error, 'unlinking Telegram account');
+  }
+}) as RequestHandler);
+
+export default router;
@@ -1,12 +1,15 @@
 import express, { Request, Response } from 'express';
 import { VaultsService } from '../../services/vault/vaults.service';
+import { VaultDetailsService } from '../../services/vault/vaultDetails.service';
 import { validateGetRequest } from '../../middleware/validation';
-import { vaultsGetSchema } from '../../schemas/vault.schemas';
+import { marketRateLimiter } from '../../middleware/apiRateLimiter';
+import { vaultsGetSchema, vaultDetailsGetSchema } from '../../schemas/vault.schemas';
 import { VaultsError, VaultsTimeoutError } from '../../errors/vault.errors';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
 const router = express.Router();
 const vaultsService = VaultsService.getInstance();
+const vaultDetailsService = VaultDetailsService.getInstance();
 
 
 router.get('/', validateGetRequest(vaultsGetSchema), async (req: Request, res: Response): Promise<void> => {
@@ -66,4 +69,40 @@ router.get('/', validateGetRequest(vaultsGetSchema), async (req: Request, res: R
   }
 });
 
+/**
+ * Détail d'un vault : courbes PnL / valeur de compte normalisées par TimeFrame, drawdown, Sharpe,
+ * concentration des followers et part du leader (interroge Hyperliquid, d'où le rate limiter)
+ */
+router.get('/:address', marketRateLimiter, validateGetRequest(vaultDetailsGetSchema), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const address = String(req.params.address);
+
+    const result = await vaultDetailsService.getVaultDetails(address);
+
+    logDeduplicator.info('Vault details retrieved successfully', {
+      vaultAddress: result.data.vaultAddress,
+      timeFrames: result.data.performance.length
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    logDeduplicator.error('Error retrieving vault details:', { error });
+
+    if (error instanceof VaultsError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
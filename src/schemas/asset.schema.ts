@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * Schéma de validation pour la vue unifiée d'un asset (GET)
+ */
+export const assetGetSchema = z.object({
+  query: z.object({}),
+  params: z.object({
+    symbol: z.string().min(1).max(50),
+  }),
+});
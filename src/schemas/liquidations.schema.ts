@@ -65,6 +65,130 @@ export const recentLiquidationsQuerySchema = z.object({
   params: z.object({})
 });
 
+/**
+ * Schéma pour la heatmap des liquidations par bande de prix
+ */
+export const liquidationHeatmapQuerySchema = z.object({
+  query: z.object({
+    period: z.enum(['2h', '4h', '8h', '12h', '24h']).optional().default('24h'),
+    coin: z.string().min(1).max(20).optional(),
+    price_source: z.enum(['mark', 'fill']).optional().default('fill'),
+    // Largeur de bande en % du prix de référence du coin
+    band_pct: z.coerce
+      .number()
+      .min(0.01, 'band_pct must be >= 0.01')
+      .max(20, 'band_pct must be <= 20')
+      .optional(),
+    // Largeur de bande absolue en USD (nécessite coin)
+    band_width: z.coerce
+      .number()
+      .positive('band_width must be > 0')
+      .optional(),
+    max_coins: z.coerce
+      .number()
+      .int()
+      .min(1, 'max_coins must be >= 1')
+      .max(50, 'max_coins must be <= 50')
+      .optional()
+      .default(10)
+  }),
+  params: z.object({})
+});
+
+/**
+ * Schéma pour le profil de liquidation d'un wallet
+ */
+export const walletLiquidationProfileSchema = z.object({
+  query: z.object({
+    recent_limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'recent_limit must be >= 1')
+      .max(100, 'recent_limit must be <= 100')
+      .optional()
+      .default(20)
+  }),
+  params: z.object({
+    address: z
+      .string()
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format')
+  })
+});
+
+/**
+ * Schéma pour le classement des liquidateurs
+ */
+export const liquidatorLeaderboardQuerySchema = z.object({
+  query: z.object({
+    sort_by: z.enum(['volume', 'count', 'coins']).optional().default('volume'),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'limit must be >= 1')
+      .max(100, 'limit must be <= 100')
+      .optional()
+      .default(25)
+  }),
+  params: z.object({})
+});
+
+/**
+ * Schéma pour l'historique des cascades de liquidations
+ */
+export const liquidationCascadesQuerySchema = z.object({
+  query: z.object({
+    coin: z.string().min(1).max(20).optional(),
+    hours: z.coerce
+      .number()
+      .int()
+      .min(1, 'hours must be >= 1')
+      .max(720, 'hours must be <= 720')
+      .optional()
+      .default(24),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'limit must be >= 1')
+      .max(200, 'limit must be <= 200')
+      .optional()
+      .default(50)
+  }),
+  params: z.object({})
+});
+
+/**
+ * Schéma pour le lancement d'un backfill de l'historique
+ */
+export const liquidationsBackfillSchema = z.object({
+  body: z.object({
+    start_time: z.string().min(1, 'start_time is required'),
+    end_time: z.string().optional()
+  }),
+  params: z.object({})
+});
+
+/**
+ * Schéma pour l'export des liquidations (CSV / NDJSON)
+ */
+export const liquidationsExportQuerySchema = z.object({
+  query: z.object({
+    format: z.enum(['csv', 'ndjson']).optional().default('csv'),
+    start_time: z.string().min(1, 'start_time is required'),
+    end_time: z.string().optional(),
+    // Repris dans le nom du fichier (Content-Disposition)
+    coin: z.string().regex(/^[A-Za-z0-9:_-]{1,20}$/, 'Invalid coin format').optional(),
+    user: z
+      .string()
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format')
+      .optional(),
+    amount_dollars: z.coerce
+      .number()
+      .min(0, 'amount_dollars must be >= 0')
+      .optional()
+  }),
+  params: z.object({})
+});
+
 export type LiquidationsQueryInput = z.infer<typeof liquidationsQuerySchema>;
 export type RecentLiquidationsQueryInput = z.infer<typeof recentLiquidationsQuerySchema>;
 
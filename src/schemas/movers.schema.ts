@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+const ANOMALY_TYPES = ['price_zscore', 'volume_zscore', 'oi_zscore', 'new_high_24h', 'new_low_24h'] as const;
+
+const commaSeparated = z.string().transform(value => value.split(',').map(item => item.trim()).filter(Boolean));
+
+/**
+ * Movers filters, shared by the feed and the SSE stream query strings
+ */
+const moversFilterFields = {
+  marketType: z.enum(['spot', 'perp']).optional(),
+  types: commaSeparated
+    .pipe(z.array(z.enum(ANOMALY_TYPES)).min(1, 'types must contain at least one anomaly type'))
+    .optional(),
+  coins: commaSeparated
+    .transform(coins => coins.map(coin => coin.toUpperCase()))
+    .pipe(z.array(z.string()).min(1, 'coins must contain at least one coin').max(50, 'coins must contain at most 50 coins'))
+    .optional(),
+  minZScore: z.coerce.number().min(0, 'minZScore must be >= 0').optional()
+};
+
+/**
+ * Schema for the movers feed
+ */
+export const moversGetSchema = z.object({
+  query: z.object({
+    ...moversFilterFields,
+    hours: z.coerce.number().int().min(1).max(24).optional().default(24),
+    limit: z.coerce.number().int().min(1).max(500).optional().default(100)
+  }),
+  params: z.object({})
+});
+
+/**
+ * Schema for the movers SSE stream
+ */
+export const moversStreamQuerySchema = z.object({
+  query: z.object(moversFilterFields),
+  params: z.object({})
+});
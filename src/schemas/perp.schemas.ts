@@ -7,6 +7,7 @@ export const marketPerpGetSchema = z.object({
   query: z.object({
     token: z.string().optional(),
     pair: z.string().optional(),
+    dex: z.string().regex(/^[a-zA-Z0-9]{1,20}$/, 'Invalid dex name').optional(),
     sortBy: z.enum(['volume', 'openInterest', 'change24h', 'name', 'price']).optional().default('volume'),
     sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
     limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 1000, {
@@ -26,6 +27,7 @@ export const marketPerpQuerySchema = z.object({
   query: z.object({
     token: z.string().optional(),
     pair: z.string().optional(),
+    dex: z.string().regex(/^[a-zA-Z0-9]{1,20}$/, 'Invalid dex name').optional(),
     sortBy: z.enum(['volume', 'openInterest', 'change24h', 'name', 'price']).optional().default('volume'),
     sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
     limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 1000, {
@@ -43,7 +45,9 @@ export const marketPerpQuerySchema = z.object({
  * Schéma de validation pour les requêtes de statistiques globales perp (GET)
  */
 export const globalPerpStatsGetSchema = z.object({
-  query: z.object({}),
+  query: z.object({
+    dex: z.string().regex(/^[a-zA-Z0-9]{1,20}$/, 'Invalid dex name').optional()
+  }),
   params: z.object({}),
 });
 
@@ -54,4 +58,106 @@ export const globalPerpStatsQuerySchema = z.object({
   query: z.object({}),
   params: z.object({}),
   body: z.object({})
-}); 
\ No newline at end of file
+}); 
+/**
+ * Schéma de validation pour le classement des marchés par funding (GET)
+ */
+export const perpFundingRankingGetSchema = z.object({
+  query: z.object({
+    rankBy: z.enum(['current', '7d', '30d']).optional().default('current'),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 50, {
+      message: 'Limit must be between 1 and 50'
+    }).optional().default(10),
+  }),
+  params: z.object({}),
+});
+
+/**
+ * Schéma de validation pour l'historique de funding d'un coin (GET)
+ */
+export const perpFundingHistoryGetSchema = z.object({
+  query: z.object({
+    hours: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 2160, {
+      message: 'Hours must be between 1 and 2160'
+    }).optional().default(168),
+  }),
+  params: z.object({
+    coin: z.string().min(1).max(50),
+  }),
+});
+
+/**
+ * Schéma de validation pour le screener de variation d'open interest (GET)
+ */
+export const perpOpenInterestScreenerGetSchema = z.object({
+  query: z.object({
+    window: z.enum(['1h', '4h', '24h']).optional().default('1h'),
+    sortBy: z.enum(['oiChangeUsd', 'oiChangePct', 'priceChangePct', 'openInterestUsd']).optional().default('oiChangePct'),
+    sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+    minOpenInterestUsd: z.string().regex(/^\d+(\.\d+)?$/).transform(Number).optional().default(0),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 500, {
+      message: 'Limit must be between 1 and 500'
+    }).optional().default(50),
+  }),
+  params: z.object({}),
+});
+
+/**
+ * Schéma de validation pour l'historique d'open interest d'un coin (GET)
+ */
+export const perpOpenInterestHistoryGetSchema = z.object({
+  query: z.object({
+    interval: z.enum(['5m', '1h', '1d']).optional().default('1h'),
+    hours: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 720, {
+      message: 'Hours must be between 1 and 720'
+    }).optional().default(24),
+  }),
+  params: z.object({
+    coin: z.string().min(1).max(50),
+  }),
+});
+
+/**
+ * Schéma de validation pour les bougies OHLCV de marchés perp (GET)
+ */
+export const marketPerpCandlesGetSchema = z.object({
+  query: z.object({
+    interval: z.enum(['1m', '5m', '1h', '1d']).optional().default('1h'),
+    startTime: z.string().regex(/^\d+$/).transform(Number).optional(),
+    endTime: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 2000, {
+      message: 'Limit must be between 1 and 2000'
+    }).optional().default(500),
+  }).refine(query => query.startTime === undefined || query.endTime === undefined || query.startTime <= query.endTime, {
+    message: 'startTime must be <= endTime',
+    path: ['endTime']
+  }),
+  params: z.object({
+    name: z.string().min(1).max(50),
+  }),
+});
+
+/**
+ * Schéma de validation pour le moniteur de basis perp (GET)
+ */
+export const perpBasisGetSchema = z.object({
+  query: z.object({
+    token: z.string().optional(),
+    pair: z.string().optional(),
+    sortBy: z.enum(['basisPct', 'absBasisPct', 'premium', 'impactSpreadBps', 'volume', 'openInterest', 'name']).optional().default('absBasisPct'),
+    sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 1000, {
+      message: 'Limit must be between 1 and 1000'
+    }).optional().default(20),
+    page: z.string().regex(/^\d+$/).transform(Number).refine(val => val >= 1, {
+      message: 'Page must be greater than or equal to 1'
+    }).optional().default(1),
+    threshold: z.string().regex(/^\d+(\.\d+)?$/).transform(Number).refine(val => val > 0 && val <= 100, {
+      message: 'Threshold must be between 0 and 100'
+    }).optional(),
+    alertsOnly: z.string()
+      .transform(val => val === 'true')
+      .optional(),
+  }),
+  params: z.object({}),
+});
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { SCREENER_CONSTANTS } from '../constants/screener.constants';
+
+const paginationQuery = {
+  limit: z.coerce.number().int().min(1).max(1000).optional().default(50),
+  page: z.coerce.number().int().min(1).optional().default(1)
+};
+
+// Schéma pour l'exécution d'un screener à la volée
+export const screenerQuerySchema = z.object({
+  query: z.object({
+    market: z.enum(SCREENER_CONSTANTS.MARKETS).optional().default('all'),
+    filter: z.string().trim().max(SCREENER_CONSTANTS.MAX_FILTER_LENGTH).optional(),
+    sort: z.string().trim().max(255).optional(),
+    ...paginationQuery
+  }),
+  params: z.object({})
+});
+
+// Schéma pour la création d'un screen sauvegardé
+export const screenCreateSchema = z.object({
+  name: z.string()
+    .min(1, 'Le nom est requis')
+    .max(100, 'Le nom ne doit pas dépasser 100 caractères')
+    .trim(),
+  market: z.enum(SCREENER_CONSTANTS.MARKETS).optional().default('all'),
+  filter: z.string().trim().min(1, 'Le filtre est requis').max(SCREENER_CONSTANTS.MAX_FILTER_LENGTH),
+  sort: z.string().trim().max(255).nullable().optional()
+});
+
+// Schéma pour la mise à jour d'un screen sauvegardé
+export const screenUpdateSchema = z.object({
+  name: z.string()
+    .min(1, 'Le nom est requis')
+    .max(100, 'Le nom ne doit pas dépasser 100 caractères')
+    .trim()
+    .optional(),
+  market: z.enum(SCREENER_CONSTANTS.MARKETS).optional(),
+  filter: z.string().trim().min(1, 'Le filtre est requis').max(SCREENER_CONSTANTS.MAX_FILTER_LENGTH).optional(),
+  sort: z.string().trim().max(255).nullable().optional()
+});
+
+const screenParamsSchema = z.object({
+  screenId: z.string().regex(/^\d+$/, 'screenId must be a positive integer')
+});
+
+// Schémas de requête pour le middleware validateRequest
+export const screenCreateRequestSchema = z.object({
+  body: screenCreateSchema,
+  params: z.object({})
+});
+
+export const screenUpdateRequestSchema = z.object({
+  body: screenUpdateSchema,
+  params: screenParamsSchema
+});
+
+export const screenRequestSchema = z.object({
+  params: screenParamsSchema
+});
+
+export const screenRunRequestSchema = z.object({
+  query: z.object(paginationQuery),
+  params: screenParamsSchema
+});
+
+// Types
+export type ScreenCreateInput = z.infer<typeof screenCreateSchema>;
+export type ScreenUpdateInput = z.infer<typeof screenUpdateSchema>;
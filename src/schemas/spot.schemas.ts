@@ -101,4 +101,72 @@ export const createAuctionSchema = z.object({
     message: 'End time must be after start time',
     path: ['endTime'],
   }),
-}); 
\ No newline at end of file
+}); 
+/**
+ * Schéma de validation pour les bougies OHLCV de marketSpot (GET)
+ */
+export const marketSpotCandlesGetSchema = z.object({
+  query: z.object({
+    interval: z.enum(['1m', '5m', '1h', '1d']).optional().default('1h'),
+    startTime: z.string().regex(/^\d+$/).transform(Number).optional(),
+    endTime: z.string().regex(/^\d+$/).transform(Number).optional(),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 2000, {
+      message: 'Limit must be between 1 and 2000'
+    }).optional().default(500),
+  }).refine(query => query.startTime === undefined || query.endTime === undefined || query.startTime <= query.endTime, {
+    message: 'startTime must be <= endTime',
+    path: ['endTime']
+  }),
+  params: z.object({
+    name: z.string().min(1).max(50),
+  }),
+});
+
+/**
+ * Schéma de validation pour le classement de concentration des holders (GET)
+ */
+export const spotTokenConcentrationRankingGetSchema = z.object({
+  query: z.object({
+    sortBy: z.enum(['top10Share', 'top50Share', 'gini', 'hhi', 'deployerShare', 'nonCirculatingShare']).optional().default('top10Share'),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 100, {
+      message: 'Limit must be between 1 and 100'
+    }).optional().default(20),
+    minHolders: z.string().regex(/^\d+$/).transform(Number).optional().default(1),
+  }),
+  params: z.object({}),
+});
+
+/**
+ * Schéma de validation pour la concentration des holders d'un token (GET)
+ */
+export const spotTokenConcentrationGetSchema = z.object({
+  query: z.object({}),
+  params: z.object({
+    tokenId: z.string().regex(/^0x[a-fA-F0-9]{32}$/, 'Invalid token ID'),
+  }),
+});
+
+/**
+ * Schéma de validation pour les déploiements récents (GET)
+ */
+export const spotRecentDeploymentsGetSchema = z.object({
+  query: z.object({
+    days: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 365, {
+      message: 'Days must be between 1 and 365'
+    }).optional().default(30),
+    limit: z.string().regex(/^\d+$/).transform(Number).refine(val => val > 0 && val <= 100, {
+      message: 'Limit must be between 1 and 100'
+    }).optional().default(20),
+  }),
+  params: z.object({}),
+});
+
+/**
+ * Schéma de validation pour le rapport de lancement d'un token (GET)
+ */
+export const spotTokenLaunchGetSchema = z.object({
+  query: z.object({}),
+  params: z.object({
+    tokenId: z.string().regex(/^0x[a-fA-F0-9]{32}$/, 'Invalid token ID'),
+  }),
+});
@@ -1,24 +1,71 @@
 import { z } from 'zod';
 
+/**
+ * Live stream filters, shared by the SSE query string and WebSocket subscribe messages
+ */
+const streamFilterFields = {
+  coin: z.string().optional(),
+  coins: z.union([z.string().transform(value => value.split(',')), z.array(z.string())])
+    .transform(coins => coins.map(coin => coin.trim().toUpperCase()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1, 'coins must contain at least one coin').max(50, 'coins must contain at most 50 coins'))
+    .optional(),
+  liq_dir: z.enum(['Long', 'Short']).optional(),
+  min_amount_dollars: z.coerce
+    .number()
+    .min(0, 'min_amount_dollars must be >= 0')
+    .optional(),
+  max_amount_dollars: z.coerce
+    .number()
+    .positive('max_amount_dollars must be > 0')
+    .optional(),
+  user: z.string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, 'user must be a valid Ethereum address')
+    .optional(),
+  wallet_list_id: z.coerce
+    .number()
+    .int()
+    .positive('wallet_list_id must be a positive integer')
+    .optional()
+};
+
+const hasValidAmountRange = (filters: { min_amount_dollars?: number; max_amount_dollars?: number }) =>
+  filters.min_amount_dollars === undefined
+  || filters.max_amount_dollars === undefined
+  || filters.min_amount_dollars <= filters.max_amount_dollars;
+
+const amountRangeError = { message: 'min_amount_dollars must be <= max_amount_dollars', path: ['max_amount_dollars'] };
+
 /**
  * Schema for SSE stream endpoint query parameters
  */
 export const sseStreamQuerySchema = z.object({
   query: z.object({
-    coin: z.string().optional(),
-    min_amount_dollars: z.coerce
-      .number()
-      .min(0, 'min_amount_dollars must be >= 0')
-      .optional(),
-    user: z.string()
-      .regex(/^0x[a-fA-F0-9]{40}$/, 'user must be a valid Ethereum address')
-      .optional(),
-    last_event_id: z.coerce
-      .number()
-      .int()
+    ...streamFilterFields,
+    access_token: z.string().optional(),
+    last_event_id: z.string()
+      .regex(/^\d+(-\d+)?$/, 'last_event_id must be a stream event ID')
       .optional()
-  }),
+  }).refine(hasValidAmountRange, amountRangeError),
   params: z.object({})
 });
 
+/**
+ * Schema for messages sent by WebSocket clients
+ * - subscribe: create or replace the subscription `id` (default: "default")
+ * - unsubscribe: remove the subscription `id`, or all subscriptions without id
+ */
+export const wsClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('subscribe'),
+    id: z.string().min(1).max(64).default('default'),
+    filters: z.object(streamFilterFields).refine(hasValidAmountRange, amountRangeError).default({}),
+    access_token: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('unsubscribe'),
+    id: z.string().min(1).max(64).optional()
+  })
+]);
+
 export type SSEStreamQueryInput = z.infer<typeof sseStreamQuerySchema>;
+export type WSClientMessage = z.infer<typeof wsClientMessageSchema>;
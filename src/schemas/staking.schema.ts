@@ -77,6 +77,101 @@ export const holderByAddressGetSchema = z.object({
   })
 });
 
+const VALIDATOR_EVENT_TYPES = [
+  'stake_increase',
+  'stake_decrease',
+  'commission_increase',
+  'commission_decrease',
+  'jailed',
+  'unjailed',
+  'activated',
+  'deactivated',
+  'uptime_drop'
+] as const;
+
+const commaSeparated = z.string().transform(value => value.split(',').map(item => item.trim()).filter(Boolean));
+
+// Filtres des événements validateurs, partagés par le feed et le stream SSE
+const validatorEventFilterFields = {
+  validators: commaSeparated
+    .transform(addresses => addresses.map(address => address.toLowerCase()))
+    .pipe(z.array(z.string().regex(/^0x[a-f0-9]{40}$/, 'Invalid Ethereum address format')).min(1).max(50))
+    .optional(),
+  types: commaSeparated
+    .pipe(z.array(z.enum(VALIDATOR_EVENT_TYPES)).min(1, 'types must contain at least one event type'))
+    .optional()
+};
+
+// Schéma pour l'historique d'un validateur
+export const validatorHistoryGetSchema = z.object({
+  query: z.object({
+    interval: z.enum(['15m', '1h', '1d']).optional().default('1h'),
+    hours: z.coerce.number().int().min(1).max(2160).optional().default(168)
+  }),
+  params: z.object({
+    address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format')
+  })
+});
+
+// Schéma pour le feed des événements validateurs
+export const validatorEventsGetSchema = z.object({
+  query: z.object({
+    ...validatorEventFilterFields,
+    hours: z.coerce.number().int().min(1).max(8760).optional().default(168),
+    limit: z.coerce.number().int().min(1).max(500).optional().default(100)
+  }),
+  params: z.object({})
+});
+
+// Schéma pour le stream SSE des événements validateurs
+export const validatorEventsStreamQuerySchema = z.object({
+  query: z.object(validatorEventFilterFields),
+  params: z.object({})
+});
+
+// Schéma pour le calendrier de déblocage de la queue de unstaking
+export const unstakingCalendarGetSchema = z.object({
+  query: z.object({
+    days: z.coerce.number().int().min(1).max(7).optional().default(7),
+    top: z.coerce.number().int().min(1).max(50).optional().default(10)
+  }),
+  params: z.object({})
+});
+
+// Schéma pour le simulateur de rendement (POST)
+export const stakingSimulatePostSchema = z.object({
+  query: z.object({}),
+  params: z.object({}),
+  body: z.object({
+    amount: z.number().positive('Amount must be greater than 0').max(1_000_000_000),
+    validators: z.array(z.object({
+      address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format'),
+      weight: z.number().positive('Weight must be greater than 0').optional().default(1)
+    })).min(1, 'At least one validator is required').max(20, 'At most 20 validators'),
+    horizonDays: z.number().int().min(1).max(3650).optional().default(365),
+    compound: z.boolean().optional().default(true),
+    compareLimit: z.number().int().min(1).max(100).optional().default(10)
+  })
+});
+
 export type StakedHoldersQueryInput = z.infer<typeof stakedHoldersQuerySchema>;
 export type HolderAddressParamInput = z.infer<typeof holderAddressParamSchema>;
-export type TopHoldersQueryInput = z.infer<typeof topHoldersQuerySchema>; 
\ No newline at end of file
+export type TopHoldersQueryInput = z.infer<typeof topHoldersQuerySchema>; 
+// Schéma pour les classements accumulators / distributors des holders
+export const stakedHolderChangesGetSchema = z.object({
+  query: z.object({
+    window: z.enum(['24h', '7d']).optional().default('24h'),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20)
+  }),
+  params: z.object({})
+});
+
+// Schéma pour l'historique du solde d'un holder
+export const stakedHolderHistoryGetSchema = z.object({
+  query: z.object({
+    days: z.coerce.number().int().min(1).max(90).optional().default(30)
+  }),
+  params: z.object({
+    address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format')
+  })
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { TELEGRAM_CONSTANTS } from '../constants/telegram.constants';
+
+const telegramIdSchema = z.union([
+  z.string().regex(/^\d{1,20}$/, 'telegramId must be a numeric string'),
+  z.number().int().positive()
+]).transform(value => BigInt(value));
+
+const walletAddressSchema = z.string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address format')
+  .transform(address => address.toLowerCase());
+
+const coinSchema = z.string()
+  .min(1)
+  .max(20)
+  .trim()
+  .transform(coin => coin.toUpperCase());
+
+// Schéma pour l'enregistrement d'un utilisateur Telegram (appelé par le bot)
+export const telegramUserRegisterSchema = z.object({
+  telegramId: telegramIdSchema,
+  username: z.string().max(255).trim().optional(),
+  firstName: z.string().max(255).trim().optional()
+});
+
+// Schéma pour la création d'une subscription
+export const telegramSubscriptionCreateSchema = z.object({
+  name: z.string()
+    .min(1, 'Le nom est requis')
+    .max(100, 'Le nom ne doit pas dépasser 100 caractères')
+    .trim(),
+  subscriptionType: z.enum(TELEGRAM_CONSTANTS.SUBSCRIPTION_TYPES).optional().default('liquidations'),
+  filterCoins: z.array(coinSchema).max(50).optional().default([]),
+  filterMinUsd: z.number().min(0, 'filterMinUsd must be >= 0').optional().default(0),
+  filterWallets: z.array(walletAddressSchema).max(50).optional().default([]),
+  useLinkedWallets: z.boolean().optional().default(false),
+  isActive: z.boolean().optional().default(true)
+});
+
+// Schéma pour la mise à jour d'une subscription
+export const telegramSubscriptionUpdateSchema = z.object({
+  name: z.string()
+    .min(1, 'Le nom est requis')
+    .max(100, 'Le nom ne doit pas dépasser 100 caractères')
+    .trim()
+    .optional(),
+  filterCoins: z.array(coinSchema).max(50).optional(),
+  filterMinUsd: z.number().min(0, 'filterMinUsd must be >= 0').optional(),
+  filterWallets: z.array(walletAddressSchema).max(50).optional(),
+  useLinkedWallets: z.boolean().optional(),
+  isActive: z.boolean().optional()
+});
+
+// Schéma pour la liaison d'un compte (appelé par le front avec le token Privy)
+export const telegramLinkSchema = z.object({
+  code: z.string().regex(/^[A-Z0-9]{8}$/, 'Invalid link code format')
+});
+
+const telegramUserParamsSchema = z.object({
+  telegramId: z.string().regex(/^\d{1,20}$/, 'telegramId must be a numeric string')
+});
+
+const telegramSubscriptionParamsSchema = telegramUserParamsSchema.extend({
+  subscriptionId: z.string().min(1).max(50)
+});
+
+// Schémas de requête pour le middleware validateRequest
+export const telegramRegisterRequestSchema = z.object({
+  body: telegramUserRegisterSchema,
+  params: z.object({})
+});
+
+export const telegramUserRequestSchema = z.object({
+  params: telegramUserParamsSchema
+});
+
+export const telegramSubscriptionCreateRequestSchema = z.object({
+  body: telegramSubscriptionCreateSchema,
+  params: telegramUserParamsSchema
+});
+
+export const telegramSubscriptionUpdateRequestSchema = z.object({
+  body: telegramSubscriptionUpdateSchema,
+  params: telegramSubscriptionParamsSchema
+});
+
+export const telegramSubscriptionRequestSchema = z.object({
+  params: telegramSubscriptionParamsSchema
+});
+
+export const telegramLinkRequestSchema = z.object({
+  body: telegramLinkSchema,
+  params: z.object({})
+});
+
+// Types
+export type TelegramUserRegisterInput = z.infer<typeof telegramUserRegisterSchema>;
+export type TelegramSubscriptionCreateInput = z.infer<typeof telegramSubscriptionCreateSchema>;
+export type TelegramSubscriptionUpdateInput = z.infer<typeof telegramSubscriptionUpdateSchema>;
@@ -24,6 +24,16 @@ export const vaultsGetSchema = z.object({
   params: z.object({}),
 });
 
+/**
+ * Schéma de validation pour le détail d'un vault (GET)
+ */
+export const vaultDetailsGetSchema = z.object({
+  query: z.object({}),
+  params: z.object({
+    address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid vault address format')
+  }),
+});
+
 /**
  * Schéma de validation pour les requêtes de vaults (avec body pour POST/PUT)
  */
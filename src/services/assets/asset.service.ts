@@ -0,0 +1,220 @@
+import {
+  AssetPerpData,
+  AssetSource,
+  AssetSpotData,
+  AssetTokenData,
+  AssetView
+} from '../../types/asset.types';
+import { AuctionInfoWithCurrency } from '../../types/auction.types';
+import { MarketData, PerpMarketData, SpotContext, AssetContext, Token } from '../../types/market.types';
+import { HyperliquidTokenInfoClient } from '../../clients/hyperliquid/spot/spot.tokeninfo.client';
+import { TokenInfoService } from '../spot/tokenInfo.service';
+import { AuctionPageService } from '../spot/auction/auction.service';
+import { SpotDeployStateApiService } from '../spot/auction/auctionTiming.service';
+import { redisService } from '../../core/redis.service';
+import { AssetNotFoundError } from '../../errors/asset.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+export class AssetService {
+  private static instance: AssetService;
+
+  private static readonly CACHE_TTL = 10; // secondes, aligné sur le polling spot / perp
+  private static readonly TOP_HOLDERS_LIMIT = 20;
+  private static readonly HOURS_PER_YEAR = 24 * 365;
+
+  private readonly SPOT_MARKET_CACHE_KEY = 'spot:markets';
+  private readonly SPOT_RAW_CACHE_KEY = 'spot:raw_data';
+  private readonly PERP_MARKET_CACHE_KEY = 'perp:markets';
+  private readonly CACHE_PREFIX = 'asset:view';
+
+  private readonly tokenInfoClient: HyperliquidTokenInfoClient;
+  private readonly tokenInfoService: TokenInfoService;
+  private readonly auctionService: AuctionPageService;
+
+  private constructor() {
+    this.tokenInfoClient = HyperliquidTokenInfoClient.getInstance();
+    this.tokenInfoService = TokenInfoService.getInstance();
+    this.auctionService = AuctionPageService.getInstance(SpotDeployStateApiService.getInstance());
+  }
+
+  public static getInstance(): AssetService {
+    if (!AssetService.instance) {
+      AssetService.instance = new AssetService();
+    }
+    return AssetService.instance;
+  }
+
+  /**
+   * Construit la vue unifiée d'un asset à partir de son symbole
+   * Le symbole peut être le nom affiché (BTC), le nom on-chain du token spot (UBTC) ou le nom du marché perp
+   */
+  public async getAsset(symbol: string): Promise<AssetView> {
+    const cacheKey = `${this.CACHE_PREFIX}:${symbol.toUpperCase()}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as AssetView;
+    }
+
+    const [spotMarkets, spotTokens, perpMarkets] = await Promise.all([
+      this.readCache<MarketData[]>(this.SPOT_MARKET_CACHE_KEY),
+      this.readSpotTokens(),
+      this.readCache<PerpMarketData[]>(this.PERP_MARKET_CACHE_KEY)
+    ]);
+
+    // Résoudre le token spot (par nom affiché du marché, puis par nom on-chain)
+    const spotMarket = spotMarkets?.find(market => this.equals(market.name, symbol))
+      ?? spotMarkets?.find(market => this.equals(spotTokens.find(t => t.tokenId === market.tokenId)?.name, symbol));
+    const token = spotMarket
+      ? spotTokens.find(t => t.tokenId === spotMarket.tokenId)
+      : spotTokens.find(t => this.equals(t.name, symbol));
+
+    // Le marché perp peut porter le nom affiché du token spot (UBTC -> BTC)
+    const candidates = [symbol, spotMarket?.name, token?.name].filter((name): name is string => !!name);
+    const perpMarket = perpMarkets?.find(market => candidates.some(name => this.equals(market.name, name)));
+
+    if (!spotMarket && !token && !perpMarket) {
+      throw new AssetNotFoundError(`Asset ${symbol} not found`);
+    }
+
+    const unavailable: AssetSource[] = [];
+    if (!spotMarkets) unavailable.push('spot');
+    if (!perpMarkets) unavailable.push('perp');
+
+    const [tokenData, auction] = await Promise.all([
+      token ? this.getTokenData(token, unavailable) : Promise.resolve(null),
+      token ? this.getAuction(token, unavailable) : Promise.resolve(null)
+    ]);
+
+    const spot = spotMarket ? this.toSpotData(spotMarket, token) : null;
+    const perp = perpMarket ? this.toPerpData(perpMarket) : null;
+
+    const view: AssetView = {
+      symbol: spotMarket?.name ?? perpMarket?.name ?? token!.name,
+      price: spot?.price ?? perp?.price ?? null,
+      priceSource: spot ? 'spot' : perp ? 'perp' : null,
+      spot,
+      perp,
+      token: tokenData,
+      auction,
+      metadata: {
+        unavailable,
+        generatedAt: new Date().toISOString()
+      }
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(view), AssetService.CACHE_TTL);
+
+    logDeduplicator.info('Asset view built successfully', {
+      symbol: view.symbol,
+      hasSpot: !!spot,
+      hasPerp: !!perp,
+      hasToken: !!tokenData,
+      hasAuction: !!auction,
+      unavailable
+    });
+
+    return view;
+  }
+
+  /**
+   * Détails du token (deployer, supply, holders)
+   * Le client token info met le token en cache et l'ajoute au polling
+   */
+  private async getTokenData(token: Token, unavailable: AssetSource[]): Promise<AssetTokenData | null> {
+    try {
+      await this.tokenInfoClient.getTokenDetailsRaw(token.tokenId);
+      const info = await this.tokenInfoService.getTokenInfo(token.tokenId);
+
+      const topHolders = [...info.holders]
+        .sort((a, b) => Number(b.balance) - Number(a.balance))
+        .slice(0, AssetService.TOP_HOLDERS_LIMIT);
+
+      return {
+        tokenId: token.tokenId,
+        name: token.name,
+        fullName: token.fullName,
+        szDecimals: token.szDecimals,
+        weiDecimals: token.weiDecimals,
+        evmContract: token.evmContract,
+        deployer: info.deployer,
+        deployTime: info.deployTime,
+        deployGas: info.deployGas,
+        maxSupply: info.maxSupply,
+        totalSupply: info.totalSupply,
+        circulatingSupply: info.circulatingSupply,
+        holdersCount: info.holders.length,
+        topHolders,
+        nonCirculatingHolders: info.nonCirculatingHolders
+      };
+    } catch (error) {
+      logDeduplicator.warn('Token info unavailable for asset view', {
+        tokenId: token.tokenId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      unavailable.push('token');
+      return null;
+    }
+  }
+
+  /**
+   * Auction de déploiement du token, null si le token n'est pas passé par une auction
+   */
+  private async getAuction(token: Token, unavailable: AssetSource[]): Promise<AuctionInfoWithCurrency | null> {
+    try {
+      const { usdcAuctions, hypeAuctions } = await this.auctionService.getAllAuctions();
+      return [...usdcAuctions, ...hypeAuctions].find(auction =>
+        auction.tokenId === token.tokenId || this.equals(auction.name, token.name)
+      ) ?? null;
+    } catch (error) {
+      logDeduplicator.warn('Auction data unavailable for asset view', {
+        tokenId: token.tokenId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      unavailable.push('auction');
+      return null;
+    }
+  }
+
+  private toSpotData(market: MarketData, token: Token | undefined): AssetSpotData {
+    return {
+      tokenId: market.tokenId,
+      tokenName: token?.name ?? market.name,
+      marketIndex: market.marketIndex,
+      price: market.price,
+      marketCap: market.marketCap,
+      volume: market.volume,
+      change24h: market.change24h,
+      liquidity: market.liquidity,
+      supply: market.supply
+    };
+  }
+
+  private toPerpData(market: PerpMarketData): AssetPerpData {
+    return {
+      name: market.name,
+      price: market.price,
+      change24h: market.change24h,
+      volume: market.volume,
+      openInterest: market.openInterest,
+      openInterestUsd: market.openInterest * market.price,
+      funding: market.funding,
+      fundingApr: Number((market.funding * AssetService.HOURS_PER_YEAR * 100).toFixed(4)),
+      maxLeverage: market.maxLeverage,
+      onlyIsolated: market.onlyIsolated
+    };
+  }
+
+  private async readSpotTokens(): Promise<Token[]> {
+    const raw = await this.readCache<[SpotContext, AssetContext[]]>(this.SPOT_RAW_CACHE_KEY);
+    return raw?.[0]?.tokens ?? [];
+  }
+
+  private async readCache<T>(key: string): Promise<T | null> {
+    const raw = await redisService.get(key);
+    return raw ? JSON.parse(raw) as T : null;
+  }
+
+  private equals(a: string | undefined, b: string): boolean {
+    return a !== undefined && a.toUpperCase() === b.toUpperCase();
+  }
+}
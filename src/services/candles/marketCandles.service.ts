@@ -0,0 +1,400 @@
+import {
+  Candle,
+  CandleInterval,
+  CandleMarketType,
+  CandlesQueryParams,
+  CandlesResponse,
+  MarketData,
+  PerpAssetContext,
+  PerpMarket
+} from '../../types/market.types';
+import { redisService } from '../../core/redis.service';
+import { marketCandleRepository, MarketCandleUpsertInput } from '../../repositories/marketCandle.repository';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Bougie en cours de construction
+ * pendingVolume : volume pas encore enregistré en base
+ */
+interface OpenCandle {
+  openTimeMs: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  pendingVolume: number;
+  updatedAt: number;
+  flushedAt: number;
+}
+
+interface PricePoint {
+  market: string;
+  price: number;
+  dayVolume: number;
+}
+
+export class MarketCandlesService {
+  private static instance: MarketCandlesService;
+
+  private static readonly MINUTE_MS = 60 * 1000;
+  private static readonly DAY_MS = 24 * 60 * MarketCandlesService.MINUTE_MS;
+  private static readonly FLUSH_INTERVAL_MS = MarketCandlesService.MINUTE_MS;
+  private static readonly FLUSH_BATCH_SIZE = 1000;
+  private static readonly PURGE_INTERVAL_MS = MarketCandlesService.DAY_MS;
+
+  private static readonly INTERVALS: Record<CandleInterval, number> = {
+    '1m': MarketCandlesService.MINUTE_MS,
+    '5m': 5 * MarketCandlesService.MINUTE_MS,
+    '1h': 60 * MarketCandlesService.MINUTE_MS,
+    '1d': MarketCandlesService.DAY_MS
+  };
+
+  // Rétention par intervalle (null : conservé indéfiniment)
+  private static readonly RETENTION_DAYS: Record<CandleInterval, number | null> = {
+    '1m': 7,
+    '5m': 30,
+    '1h': 365,
+    '1d': null
+  };
+
+  private readonly SPOT_UPDATE_CHANNEL = 'spot:data:updated';
+  private readonly PERP_UPDATE_CHANNEL = 'perp:data:updated';
+  private readonly SPOT_MARKET_CACHE_KEY = 'spot:markets';
+  private readonly PERP_MARKET_CACHE_KEY = 'perp:markets';
+  private readonly PERP_RAW_CACHE_KEY = 'perp:raw_data';
+
+  private openCandles: Map<string, OpenCandle> = new Map();
+  private closedCandles: MarketCandleUpsertInput[] = [];
+  private lastDayVolumes: Map<string, number> = new Map();
+
+  private isPolling = false;
+  private isSubscribed = false;
+  private isFlushing = false;
+  private flushInterval: NodeJS.Timeout | null = null;
+  private purgeInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): MarketCandlesService {
+    if (!MarketCandlesService.instance) {
+      MarketCandlesService.instance = new MarketCandlesService();
+    }
+    return MarketCandlesService.instance;
+  }
+
+  /**
+   * Démarre la construction des bougies à chaque mise à jour des caches spot et perp
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Market candles builder already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      this.subscribe(this.SPOT_UPDATE_CHANNEL, 'spot');
+      this.subscribe(this.PERP_UPDATE_CHANNEL, 'perp');
+      this.isSubscribed = true;
+    }
+
+    this.flushInterval = setInterval(() => {
+      this.flush();
+    }, MarketCandlesService.FLUSH_INTERVAL_MS);
+
+    this.purgeInterval = setInterval(() => {
+      this.purgeOldCandles();
+    }, MarketCandlesService.PURGE_INTERVAL_MS);
+
+    logDeduplicator.info('Market candles builder started', {
+      intervals: Object.keys(MarketCandlesService.INTERVALS),
+      flushIntervalMs: MarketCandlesService.FLUSH_INTERVAL_MS
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = null;
+    }
+    // Enregistrer les bougies en cours avant l'arrêt
+    this.flush();
+    logDeduplicator.info('Market candles builder stopped');
+  }
+
+  /**
+   * Bougies d'un marché, triées par date croissante
+   * La bougie en cours inclut les relevés pas encore enregistrés en base
+   * @returns null si le marché est inconnu
+   */
+  public async getCandles(marketType: CandleMarketType, name: string, params: CandlesQueryParams): Promise<CandlesResponse | null> {
+    const market = await this.resolveMarketName(marketType, name);
+    if (!market) {
+      return null;
+    }
+
+    const intervalMs = MarketCandlesService.INTERVALS[params.interval];
+    const stored = await marketCandleRepository.findRange(
+      marketType,
+      market,
+      params.interval,
+      params.startTime,
+      params.endTime,
+      params.limit
+    );
+
+    const candles = stored.map(candle => ({ ...candle, closeTime: candle.openTime + intervalMs }));
+    const current = this.openCandles.get(this.getCandleKey(marketType, market, params.interval));
+    const inRange = current
+      && (params.startTime === undefined || current.openTimeMs >= params.startTime)
+      && (params.endTime === undefined || current.openTimeMs <= params.endTime);
+
+    if (current && inRange) {
+      const last = candles[candles.length - 1];
+      if (last && last.openTime === current.openTimeMs) {
+        last.high = Math.max(last.high, current.high);
+        last.low = Math.min(last.low, current.low);
+        last.close = current.close;
+        last.volume += current.pendingVolume;
+      } else if (!last || last.openTime < current.openTimeMs) {
+        candles.push(this.toCandle(current, intervalMs));
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        market,
+        marketType,
+        interval: params.interval,
+        candles: candles.slice(-params.limit)
+      }
+    };
+  }
+
+  private subscribe(channel: string, marketType: CandleMarketType): void {
+    redisService.subscribe(channel, async (message) => {
+      try {
+        const { type, timestamp } = JSON.parse(message);
+        if (type === 'DATA_UPDATED' && this.isPolling) {
+          const points = marketType === 'spot' ? await this.getSpotPoints() : await this.getPerpPoints();
+          this.applyPoints(marketType, points, timestamp ?? Date.now());
+        }
+      } catch (error) {
+        logDeduplicator.error('Error processing market candles update:', {
+          marketType,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+  }
+
+  /**
+   * Met à jour les bougies en cours de chaque intervalle avec un relevé de prix
+   * Le volume est estimé par le delta du volume glissant 24h (dayNtlVlm) entre deux relevés,
+   * borné à 0 lorsque les trades sortant de la fenêtre 24h dépassent les nouveaux
+   */
+  private applyPoints(marketType: CandleMarketType, points: PricePoint[], timestamp: number): void {
+    for (const point of points) {
+      const volumeKey = `${marketType}:${point.market}`;
+      const previousVolume = this.lastDayVolumes.get(volumeKey);
+      const volumeDelta = previousVolume === undefined ? 0 : Math.max(0, point.dayVolume - previousVolume);
+      this.lastDayVolumes.set(volumeKey, point.dayVolume);
+
+      for (const [interval, intervalMs] of Object.entries(MarketCandlesService.INTERVALS) as [CandleInterval, number][]) {
+        const key = this.getCandleKey(marketType, point.market, interval);
+        const openTimeMs = Math.floor(timestamp / intervalMs) * intervalMs;
+        let candle = this.openCandles.get(key);
+
+        if (!candle || candle.openTimeMs !== openTimeMs) {
+          if (candle && candle.updatedAt > candle.flushedAt) {
+            this.closedCandles.push(this.toUpsertInput(marketType, point.market, interval, candle));
+          }
+          candle = {
+            openTimeMs,
+            open: point.price,
+            high: point.price,
+            low: point.price,
+            close: point.price,
+            pendingVolume: 0,
+            updatedAt: 0,
+            flushedAt: 0
+          };
+          this.openCandles.set(key, candle);
+        }
+
+        candle.high = Math.max(candle.high, point.price);
+        candle.low = Math.min(candle.low, point.price);
+        candle.close = point.price;
+        candle.pendingVolume += volumeDelta;
+        candle.updatedAt = timestamp;
+      }
+    }
+  }
+
+  /**
+   * Enregistre les bougies clôturées et les bougies en cours modifiées depuis le dernier enregistrement
+   * En cas d'échec, les bougies sont conservées pour le prochain enregistrement
+   */
+  private async flush(): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+
+    const closed = this.closedCandles.splice(0);
+    const flushed: { candle: OpenCandle; volume: number; flushedAt: number }[] = [];
+    const batch: MarketCandleUpsertInput[] = [...closed];
+
+    // Les bougies en cours sont marquées enregistrées avant l'écriture, pour que les relevés
+    // arrivant pendant l'écriture soient enregistrés au prochain passage
+    for (const [key, candle] of this.openCandles.entries()) {
+      if (candle.updatedAt > candle.flushedAt) {
+        const [marketType, market, interval] = this.parseCandleKey(key);
+        batch.push(this.toUpsertInput(marketType, market, interval, candle));
+        flushed.push({ candle, volume: candle.pendingVolume, flushedAt: candle.flushedAt });
+        candle.pendingVolume = 0;
+        candle.flushedAt = candle.updatedAt;
+      }
+    }
+
+    try {
+      for (let i = 0; i < batch.length; i += MarketCandlesService.FLUSH_BATCH_SIZE) {
+        await marketCandleRepository.upsertMany(batch.slice(i, i + MarketCandlesService.FLUSH_BATCH_SIZE));
+      }
+      if (batch.length > 0) {
+        logDeduplicator.info('Market candles saved', { candles: batch.length, closed: closed.length });
+      }
+    } catch (error) {
+      this.closedCandles.unshift(...closed);
+      for (const { candle, volume, flushedAt } of flushed) {
+        candle.pendingVolume += volume;
+        candle.flushedAt = Math.min(candle.flushedAt, flushedAt);
+      }
+      logDeduplicator.error('Failed to save market candles', {
+        candles: batch.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private async purgeOldCandles(): Promise<void> {
+    for (const [interval, retentionDays] of Object.entries(MarketCandlesService.RETENTION_DAYS) as [CandleInterval, number | null][]) {
+      if (retentionDays === null) continue;
+      try {
+        const cutoff = Date.now() - retentionDays * MarketCandlesService.DAY_MS;
+        const deleted = await marketCandleRepository.deleteOlderThan(interval, cutoff);
+        logDeduplicator.info('Market candles purged', { interval, deleted, cutoff: new Date(cutoff).toISOString() });
+      } catch (error) {
+        logDeduplicator.error('Market candles purge failed', {
+          interval,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * Relevés spot : midPx si disponible (exposé comme `liquidity` dans le cache), sinon markPx
+   * Un token coté contre plusieurs quote tokens partage le même nom : seule sa paire la plus ancienne
+   * (marketIndex le plus bas) est retenue, pour ne pas mélanger les prix et volumes de paires différentes
+   */
+  private async getSpotPoints(): Promise<PricePoint[]> {
+    const raw = await redisService.get(this.SPOT_MARKET_CACHE_KEY);
+    if (!raw) return [];
+
+    const marketsByName = new Map<string, MarketData>();
+    for (const market of JSON.parse(raw) as MarketData[]) {
+      const existing = marketsByName.get(market.name);
+      if (!existing || market.marketIndex < existing.marketIndex) {
+        marketsByName.set(market.name, market);
+      }
+    }
+
+    return Array.from(marketsByName.values())
+      .map(market => ({
+        market: market.name,
+        price: market.liquidity > 0 ? market.liquidity : market.price,
+        dayVolume: market.volume
+      }))
+      .filter(point => Number.isFinite(point.price) && point.price > 0);
+  }
+
+  /**
+   * Relevés perp : midPx si disponible, sinon markPx
+   */
+  private async getPerpPoints(): Promise<PricePoint[]> {
+    const raw = await redisService.get(this.PERP_RAW_CACHE_KEY);
+    if (!raw) return [];
+
+    const [meta, assetContexts] = JSON.parse(raw) as [{ universe: PerpMarket[] }, PerpAssetContext[]];
+    return meta.universe
+      .map((market, index) => {
+        const context = assetContexts[index];
+        const midPx = Number(context?.midPx);
+        return {
+          market: market.name,
+          price: midPx > 0 ? midPx : Number(context?.markPx),
+          dayVolume: Number(context?.dayNtlVlm ?? 0)
+        };
+      })
+      .filter(point => Number.isFinite(point.price) && point.price > 0);
+  }
+
+  /**
+   * Nom du marché tel qu'enregistré (recherche insensible à la casse dans le cache)
+   */
+  private async resolveMarketName(marketType: CandleMarketType, name: string): Promise<string | null> {
+    const raw = await redisService.get(marketType === 'spot' ? this.SPOT_MARKET_CACHE_KEY : this.PERP_MARKET_CACHE_KEY);
+    if (!raw) return null;
+
+    const markets = JSON.parse(raw) as { name: string }[];
+    const market = markets.find(m => m.name.toUpperCase() === name.toUpperCase());
+    return market ? market.name : null;
+  }
+
+  private toUpsertInput(
+    marketType: CandleMarketType,
+    market: string,
+    interval: CandleInterval,
+    candle: OpenCandle
+  ): MarketCandleUpsertInput {
+    return {
+      marketType,
+      market,
+      interval,
+      openTimeMs: candle.openTimeMs,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.pendingVolume
+    };
+  }
+
+  private toCandle(candle: OpenCandle, intervalMs: number): Candle {
+    return {
+      openTime: candle.openTimeMs,
+      closeTime: candle.openTimeMs + intervalMs,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.pendingVolume
+    };
+  }
+
+  private getCandleKey(marketType: CandleMarketType, market: string, interval: CandleInterval): string {
+    return `${marketType}|${market}|${interval}`;
+  }
+
+  private parseCandleKey(key: string): [CandleMarketType, string, CandleInterval] {
+    const [marketType, market, interval] = key.split('|');
+    return [marketType as CandleMarketType, market, interval as CandleInterval];
+  }
+}
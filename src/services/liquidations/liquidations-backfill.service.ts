@@ -0,0 +1,179 @@
+import { HLIndexerLiquidationsClient } from '../../clients/hlindexer/liquidations/liquidations.client';
+import { LiquidationsError } from '../../types/liquidations.types';
+import { LiquidationsHistoryService } from './liquidations-history.service';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Backfill job state, stored in Redis so an interrupted job can resume from its cursor
+ */
+export interface LiquidationsBackfillState {
+  status: 'running' | 'completed' | 'failed';
+  startTime: string;
+  endTime: string;
+  cursor: string | null;
+  pagesLoaded: number;
+  inserted: number;
+  startedAt: string;
+  updatedAt: string;
+  coverageExtended?: boolean;
+  error?: string;
+}
+
+/**
+ * Backfill of the liquidations history from HypeDexer
+ * Walks next_cursor keyset pages in ASC order and stores them in Postgres
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsBackfillService {
+  private static instance: LiquidationsBackfillService;
+
+  private static readonly STATE_KEY = 'liquidations:backfill:state';
+  private static readonly PAGE_LIMIT = 1000;
+  // Backfill shares the HypeDexer quota with the polling loop: keep a slow pace
+  private static readonly PAGE_DELAY_MS = 2000;
+
+  private readonly client: HLIndexerLiquidationsClient;
+  private readonly historyService: LiquidationsHistoryService;
+  private isRunning = false;
+
+  private constructor() {
+    this.client = HLIndexerLiquidationsClient.getInstance();
+    this.historyService = LiquidationsHistoryService.getInstance();
+  }
+
+  public static getInstance(): LiquidationsBackfillService {
+    if (!LiquidationsBackfillService.instance) {
+      LiquidationsBackfillService.instance = new LiquidationsBackfillService();
+    }
+    return LiquidationsBackfillService.instance;
+  }
+
+  public async getState(): Promise<LiquidationsBackfillState | null> {
+    const cached = await redisService.get(LiquidationsBackfillService.STATE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  /**
+   * Start a backfill of [startTime, endTime] in background
+   * Resumes from the stored cursor if the same range was interrupted
+   * (endTime omitted: the range of the interrupted job with the same startTime)
+   */
+  public async start(startTime: string, endTime?: string): Promise<LiquidationsBackfillState> {
+    if (this.isRunning) {
+      throw new LiquidationsError('A liquidations backfill is already running', 409, 'BACKFILL_ALREADY_RUNNING');
+    }
+
+    const startMs = this.historyService.parseTime(startTime);
+    if (startMs === null) {
+      throw new LiquidationsError('Invalid backfill time range', 400, 'INVALID_TIME_RANGE');
+    }
+
+    // Normalized to UTC ISO so that a resumed job matches its previous range
+    startTime = new Date(startMs).toISOString();
+    const previous = await this.getState();
+    const isPreviousUnfinished = previous !== null &&
+      previous.status !== 'completed' &&
+      previous.startTime === startTime;
+
+    // Without end_time, an unfinished job with the same start resumes up to its own end time
+    const endMs = endTime
+      ? this.historyService.parseTime(endTime)
+      : isPreviousUnfinished ? Date.parse(previous!.endTime) : Date.now();
+    if (endMs === null || startMs >= endMs) {
+      throw new LiquidationsError('Invalid backfill time range', 400, 'INVALID_TIME_RANGE');
+    }
+
+    const resolvedEndTime = new Date(endMs).toISOString();
+    const canResume = isPreviousUnfinished &&
+      previous!.endTime === resolvedEndTime &&
+      previous!.cursor !== null;
+
+    const now = new Date().toISOString();
+    const state: LiquidationsBackfillState = canResume
+      ? { ...previous!, status: 'running', updatedAt: now, error: undefined }
+      : {
+          status: 'running',
+          startTime,
+          endTime: resolvedEndTime,
+          cursor: null,
+          pagesLoaded: 0,
+          inserted: 0,
+          startedAt: now,
+          updatedAt: now
+        };
+
+    this.isRunning = true;
+    await this.saveState(state);
+
+    logDeduplicator.info('Liquidations backfill started', {
+      startTime: state.startTime,
+      endTime: state.endTime,
+      resumed: canResume
+    });
+
+    // Runs in background, progress is exposed through getState()
+    this.run(state).finally(() => {
+      this.isRunning = false;
+    });
+
+    return state;
+  }
+
+  private async run(state: LiquidationsBackfillState): Promise<void> {
+    try {
+      let hasMore = true;
+
+      while (hasMore) {
+        const response = await this.client.getLiquidations({
+          start_time: state.startTime,
+          end_time: state.endTime,
+          limit: LiquidationsBackfillService.PAGE_LIMIT,
+          order: 'ASC',
+          cursor: state.cursor || undefined
+        });
+
+        state.inserted += await this.historyService.persistBackfillPage(response.data);
+        state.pagesLoaded++;
+        state.cursor = response.next_cursor;
+        state.updatedAt = new Date().toISOString();
+        hasMore = response.has_more && response.next_cursor !== null;
+        await this.saveState(state);
+
+        if (hasMore) {
+          await new Promise(resolve => setTimeout(resolve, LiquidationsBackfillService.PAGE_DELAY_MS));
+        }
+      }
+
+      state.coverageExtended = await this.historyService.extendCoverage(
+        Date.parse(state.startTime),
+        Date.parse(state.endTime)
+      );
+      state.status = 'completed';
+      state.cursor = null;
+      state.updatedAt = new Date().toISOString();
+      await this.saveState(state);
+
+      logDeduplicator.info('Liquidations backfill completed', {
+        pagesLoaded: state.pagesLoaded,
+        inserted: state.inserted,
+        coverageExtended: state.coverageExtended
+      });
+    } catch (error) {
+      state.status = 'failed';
+      state.error = error instanceof Error ? error.message : String(error);
+      state.updatedAt = new Date().toISOString();
+      await this.saveState(state);
+
+      logDeduplicator.error('Liquidations backfill failed', {
+        error: state.error,
+        pagesLoaded: state.pagesLoaded,
+        cursor: state.cursor
+      });
+    }
+  }
+
+  private async saveState(state: LiquidationsBackfillState): Promise<void> {
+    await redisService.set(LiquidationsBackfillService.STATE_KEY, JSON.stringify(state));
+  }
+}
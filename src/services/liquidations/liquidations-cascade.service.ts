@@ -0,0 +1,236 @@
+import {
+  Liquidation,
+  LiquidationCascade,
+  LiquidationCascadesResponse,
+  CascadeTrigger,
+  LiquidationsError
+} from '../../types/liquidations.types';
+import { CASCADE_CONFIG } from '../../constants/liquidations.constants';
+import { liquidationCascadeRepository } from '../../repositories/liquidationCascade.repository';
+import { SSEManagerService } from './sse-manager.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Detection state for one coin
+ * window: recent liquidations within WINDOW_SECONDS of the newest one
+ * active: liquidations of the cascade in progress
+ */
+interface CoinCascadeState {
+  window: Liquidation[];
+  active: { liquidations: Liquidation[]; triggers: CascadeTrigger[]; detectedAt: string } | null;
+}
+
+/**
+ * Service for liquidation cascade detection
+ * Flags bursts of N liquidations or $X notional on one coin within T seconds,
+ * broadcasts them as SSE `cascade` events and stores them in Postgres
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsCascadeService {
+  private static instance: LiquidationsCascadeService;
+
+  private static readonly WINDOW_MS = CASCADE_CONFIG.WINDOW_SECONDS * 1000;
+  private static readonly CLOSE_AFTER_MS = (CASCADE_CONFIG.WINDOW_SECONDS + CASCADE_CONFIG.CLOSE_GRACE_SECONDS) * 1000;
+  private static readonly DEFAULT_HISTORY_HOURS = 24;
+
+  private readonly sseManager: SSEManagerService;
+  private coinStates: Map<string, CoinCascadeState> = new Map();
+
+  private constructor() {
+    this.sseManager = SSEManagerService.getInstance();
+  }
+
+  public static getInstance(): LiquidationsCascadeService {
+    if (!LiquidationsCascadeService.instance) {
+      LiquidationsCascadeService.instance = new LiquidationsCascadeService();
+    }
+    return LiquidationsCascadeService.instance;
+  }
+
+  /**
+   * Feed new liquidations (raw, not aggregated) to the detector
+   * Called on every refresh, even without new liquidations, so inactive cascades get closed
+   */
+  public async processLiquidations(newLiquidations: Liquidation[]): Promise<void> {
+    const updates: LiquidationCascade[] = [];
+    const sorted = [...newLiquidations].sort((a, b) => a.time_ms - b.time_ms);
+
+    for (const liq of sorted) {
+      const state = this.getCoinState(liq.coin);
+
+      if (state.active) {
+        const last = state.active.liquidations[state.active.liquidations.length - 1];
+        if (liq.time_ms - last.time_ms <= LiquidationsCascadeService.WINDOW_MS) {
+          state.active.liquidations.push(liq);
+          continue;
+        }
+        updates.push(this.closeCascade(state));
+      }
+
+      // Slide the detection window
+      state.window.push(liq);
+      state.window = state.window.filter(item => item.time_ms >= liq.time_ms - LiquidationsCascadeService.WINDOW_MS);
+
+      const triggers = this.getTriggers(state.window);
+      if (triggers.length > 0) {
+        state.active = {
+          liquidations: state.window,
+          triggers,
+          detectedAt: new Date().toISOString()
+        };
+        state.window = [];
+        updates.push(this.toCascade(liq.coin, state.active.liquidations, 'active', triggers, state.active.detectedAt));
+      }
+    }
+
+    // Close cascades with no liquidation for the whole window (+ indexing grace)
+    const now = Date.now();
+    for (const [coin, state] of this.coinStates) {
+      if (state.active) {
+        const last = state.active.liquidations[state.active.liquidations.length - 1];
+        if (now - last.time_ms > LiquidationsCascadeService.CLOSE_AFTER_MS) {
+          updates.push(this.closeCascade(state));
+        }
+      }
+
+      if (!state.active && state.window.every(item => now - item.time_ms > LiquidationsCascadeService.WINDOW_MS)) {
+        this.coinStates.delete(coin);
+      }
+    }
+
+    if (updates.length === 0) return;
+
+    // Keep the latest version of each cascade (detected and closed in the same batch)
+    const latest = new Map(updates.map(cascade => [cascade.id, cascade]));
+    const cascades = [...latest.values()];
+
+    for (const cascade of cascades) {
+      try {
+        await liquidationCascadeRepository.upsert(cascade);
+      } catch (error) {
+        logDeduplicator.error('Failed to store liquidation cascade', {
+          cascadeId: cascade.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    await this.sseManager.broadcastCascades(cascades);
+
+    logDeduplicator.info('Liquidation cascades updated', {
+      cascades: cascades.map(cascade => ({
+        id: cascade.id,
+        status: cascade.status,
+        count: cascade.liquidationsCount,
+        notional: cascade.totalNotional
+      }))
+    });
+  }
+
+  /**
+   * Get detected cascades, most recent first
+   */
+  public async getCascades(params: { coin?: string; hours?: number; limit: number }): Promise<LiquidationCascadesResponse> {
+    try {
+      const hours = params.hours ?? LiquidationsCascadeService.DEFAULT_HISTORY_HOURS;
+      const data = await liquidationCascadeRepository.findRecent({
+        sinceMs: Date.now() - hours * 60 * 60 * 1000,
+        coin: params.coin,
+        limit: params.limit
+      });
+
+      return {
+        success: true,
+        data,
+        config: {
+          windowSeconds: CASCADE_CONFIG.WINDOW_SECONDS,
+          minCount: CASCADE_CONFIG.MIN_COUNT,
+          minNotionalUsd: CASCADE_CONFIG.MIN_NOTIONAL_USD
+        }
+      };
+    } catch (error) {
+      logDeduplicator.error('LiquidationsCascadeService.getCascades failed', {
+        error: error instanceof Error ? error.message : String(error),
+        params
+      });
+
+      throw new LiquidationsError(
+        error instanceof Error ? error.message : 'Failed to fetch liquidation cascades',
+        500,
+        'CASCADES_ERROR'
+      );
+    }
+  }
+
+  private getCoinState(coin: string): CoinCascadeState {
+    let state = this.coinStates.get(coin);
+    if (!state) {
+      state = { window: [], active: null };
+      this.coinStates.set(coin, state);
+    }
+    return state;
+  }
+
+  private getTriggers(liquidations: Liquidation[]): CascadeTrigger[] {
+    const triggers: CascadeTrigger[] = [];
+    if (liquidations.length >= CASCADE_CONFIG.MIN_COUNT) {
+      triggers.push('count');
+    }
+    const notional = liquidations.reduce((sum, liq) => sum + liq.notional_total, 0);
+    if (notional >= CASCADE_CONFIG.MIN_NOTIONAL_USD) {
+      triggers.push('notional');
+    }
+    return triggers;
+  }
+
+  private closeCascade(state: CoinCascadeState): LiquidationCascade {
+    const active = state.active!;
+    state.active = null;
+    return this.toCascade(active.liquidations[0].coin, active.liquidations, 'ended', active.triggers, active.detectedAt);
+  }
+
+  private toCascade(
+    coin: string,
+    liquidations: Liquidation[],
+    status: LiquidationCascade['status'],
+    triggers: CascadeTrigger[],
+    detectedAt: string
+  ): LiquidationCascade {
+    const first = liquidations[0];
+    const last = liquidations[liquidations.length - 1];
+    let longNotional = 0;
+    let shortNotional = 0;
+
+    for (const liq of liquidations) {
+      if (liq.liq_dir === 'Long') {
+        longNotional += liq.notional_total;
+      } else {
+        shortNotional += liq.notional_total;
+      }
+    }
+
+    return {
+      id: `${coin}-${first.tid}`,
+      coin,
+      status,
+      startTime: new Date(first.time_ms).toISOString(),
+      startTimeMs: first.time_ms,
+      endTime: new Date(last.time_ms).toISOString(),
+      endTimeMs: last.time_ms,
+      durationSeconds: Math.round((last.time_ms - first.time_ms) / 1000),
+      liquidationsCount: liquidations.length,
+      totalNotional: Math.round((longNotional + shortNotional) * 100) / 100,
+      longNotional: Math.round(longNotional * 100) / 100,
+      shortNotional: Math.round(shortNotional * 100) / 100,
+      dominantSide: longNotional >= shortNotional ? 'Long' : 'Short',
+      firstMarkPx: first.mark_px,
+      lastMarkPx: last.mark_px,
+      priceMovePct: first.mark_px > 0
+        ? Math.round(((last.mark_px - first.mark_px) / first.mark_px) * 10000) / 100
+        : 0,
+      triggers,
+      tids: liquidations.map(liq => liq.tid),
+      detectedAt
+    };
+  }
+}
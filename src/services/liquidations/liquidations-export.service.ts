@@ -0,0 +1,190 @@
+import { HLIndexerLiquidationsClient } from '../../clients/hlindexer/liquidations/liquidations.client';
+import { RateLimiterService } from '../../core/hyperLiquid.ratelimiter.service';
+import {
+  Liquidation,
+  LiquidationExportParams,
+  LiquidationsError
+} from '../../types/liquidations.types';
+import { LiquidationsHistoryService } from './liquidations-history.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Service for liquidation exports (CSV / NDJSON)
+ * Walks HypeDexer cursors server-side and yields one chunk per page, nothing is held in memory
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsExportService {
+  private static instance: LiquidationsExportService;
+
+  private static readonly PAGE_LIMIT = 1000;
+  private static readonly MAX_RANGE_DAYS = 31;
+  private static readonly RATE_LIMIT_RETRY_MS = 1000;
+  private static readonly RATE_LIMIT_MAX_WAIT_MS = 60_000;
+  // Shared budget of all exports, below the HypeDexer limit so polling keeps working
+  private static readonly GLOBAL_RATE_LIMIT_KEY = 'global';
+  private static readonly GLOBAL_MAX_WEIGHT_PER_MINUTE = 600;
+
+  private static readonly CSV_COLUMNS: (keyof Liquidation)[] = [
+    'time',
+    'time_ms',
+    'tid',
+    'coin',
+    'liq_dir',
+    'liquidated_user',
+    'size_total',
+    'notional_total',
+    'fill_px_vwap',
+    'mark_px',
+    'fee_total_liquidated',
+    'method',
+    'liquidator_count',
+    'liquidators',
+    'hash'
+  ];
+
+  private readonly client: HLIndexerLiquidationsClient;
+  private readonly historyService: LiquidationsHistoryService;
+  private readonly globalRateLimiter: RateLimiterService;
+
+  private constructor() {
+    this.client = HLIndexerLiquidationsClient.getInstance();
+    this.historyService = LiquidationsHistoryService.getInstance();
+    this.globalRateLimiter = RateLimiterService.getInstance('liquidations-export', {
+      maxWeightPerMinute: LiquidationsExportService.GLOBAL_MAX_WEIGHT_PER_MINUTE,
+      requestWeight: HLIndexerLiquidationsClient.getRequestWeight()
+    });
+  }
+
+  public static getInstance(): LiquidationsExportService {
+    if (!LiquidationsExportService.instance) {
+      LiquidationsExportService.instance = new LiquidationsExportService();
+    }
+    return LiquidationsExportService.instance;
+  }
+
+  /**
+   * Validate the time range, returns it in milliseconds
+   */
+  public validateRange(params: LiquidationExportParams): { startMs: number; endMs: number } {
+    const startMs = this.historyService.parseTime(params.startTime);
+    const endMs = params.endTime ? this.historyService.parseTime(params.endTime) : Date.now();
+
+    if (startMs === null || endMs === null || startMs >= endMs) {
+      throw new LiquidationsError('Invalid start_time or end_time', 400, 'INVALID_TIME_RANGE');
+    }
+    if (endMs - startMs > LiquidationsExportService.MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new LiquidationsError(
+        `Export range cannot exceed ${LiquidationsExportService.MAX_RANGE_DAYS} days`,
+        400,
+        'EXPORT_RANGE_TOO_LARGE'
+      );
+    }
+
+    return { startMs, endMs };
+  }
+
+  public getContentType(params: LiquidationExportParams): string {
+    return params.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8';
+  }
+
+  public getFilename(params: LiquidationExportParams): string {
+    const { startMs, endMs } = this.validateRange(params);
+    const format = (ms: number) => new Date(ms).toISOString().slice(0, 19).replace(/[-:]/g, '');
+    // Only header-safe characters end up in Content-Disposition
+    const safeCoin = params.coin?.replace(/[^A-Za-z0-9:_-]/g, '').slice(0, 20);
+    const coin = safeCoin ? `_${safeCoin.toUpperCase()}` : '';
+    return `liquidations${coin}_${format(startMs)}_${format(endMs)}.${params.format}`;
+  }
+
+  /**
+   * Export liquidations of the range, oldest first
+   * Yields one chunk per HypeDexer page, the CSV header comes with the first one
+   * so that errors on the first page surface before anything is sent
+   * Stop iterating to abort (client disconnected): no further page is fetched
+   */
+  public async *exportChunks(params: LiquidationExportParams, ip: string): AsyncGenerator<string> {
+    const { startMs, endMs } = this.validateRange(params);
+    const startTime = Date.now();
+    let cursor: string | null = null;
+    let hasMore = true;
+    let pages = 0;
+    let rows = 0;
+
+    let header = params.format === 'csv' ? LiquidationsExportService.CSV_COLUMNS.join(',') + '\n' : '';
+
+    while (hasMore) {
+      await this.waitForRateLimit(ip);
+
+      const response = await this.client.getLiquidations({
+        start_time: new Date(startMs).toISOString(),
+        end_time: new Date(endMs).toISOString(),
+        coin: params.coin,
+        user: params.user,
+        amount_dollars: params.amountDollars,
+        limit: LiquidationsExportService.PAGE_LIMIT,
+        order: 'ASC',
+        cursor: cursor || undefined
+      });
+
+      pages++;
+      rows += response.data.length;
+      cursor = response.next_cursor;
+      hasMore = response.has_more && cursor !== null;
+
+      const chunk = header + response.data.map(liq => this.formatRow(liq, params.format)).join('');
+      header = '';
+      if (chunk.length > 0) {
+        yield chunk;
+      }
+    }
+
+    logDeduplicator.info('LiquidationsExportService export completed', {
+      format: params.format,
+      startTime: params.startTime,
+      endTime: params.endTime,
+      coin: params.coin,
+      pages,
+      rows,
+      executionTimeMs: Date.now() - startTime
+    });
+  }
+
+  /**
+   * Wait for both the per-IP and the global export budget
+   * Throws 429 if no budget frees up in time
+   */
+  private async waitForRateLimit(ip: string): Promise<void> {
+    const deadline = Date.now() + LiquidationsExportService.RATE_LIMIT_MAX_WAIT_MS;
+
+    while (!this.client.checkRateLimit(ip)) {
+      if (Date.now() >= deadline) {
+        throw new LiquidationsError('API rate limit exceeded. Please try again in a minute.', 429, 'RATE_LIMIT_EXCEEDED');
+      }
+      await new Promise(resolve => setTimeout(resolve, LiquidationsExportService.RATE_LIMIT_RETRY_MS));
+    }
+
+    while (!this.globalRateLimiter.checkRateLimit(LiquidationsExportService.GLOBAL_RATE_LIMIT_KEY)) {
+      if (Date.now() >= deadline) {
+        throw new LiquidationsError('Export capacity exceeded. Please try again in a minute.', 429, 'RATE_LIMIT_EXCEEDED');
+      }
+      await new Promise(resolve => setTimeout(resolve, LiquidationsExportService.RATE_LIMIT_RETRY_MS));
+    }
+  }
+
+  private formatRow(liq: Liquidation, format: LiquidationExportParams['format']): string {
+    if (format === 'ndjson') {
+      return JSON.stringify(liq) + '\n';
+    }
+
+    return LiquidationsExportService.CSV_COLUMNS
+      .map(column => {
+        const value = liq[column];
+        return this.escapeCsv(Array.isArray(value) ? value.join(';') : String(value ?? ''));
+      })
+      .join(',') + '\n';
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  Liquidation,
+  LiquidationHeatmapParams,
+  LiquidationHeatmapResponse,
+  CoinHeatmap,
+  HeatmapBand,
+  HeatmapCell,
+  LiquidationsError
+} from '../../types/liquidations.types';
+import { LiquidationsService } from './liquidations.service';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Service for the liquidation heatmap (price-level clustering)
+ * Buckets notional by coin, price band and time window from the background refresh data
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsHeatmapService {
+  private static instance: LiquidationsHeatmapService;
+
+  private static readonly CACHE_TTL = 8; // Just under polling interval
+  private static readonly DEFAULT_BAND_PCT = 0.5;
+
+  private readonly liquidationsService: LiquidationsService;
+
+  private constructor() {
+    this.liquidationsService = LiquidationsService.getInstance();
+  }
+
+  public static getInstance(): LiquidationsHeatmapService {
+    if (!LiquidationsHeatmapService.instance) {
+      LiquidationsHeatmapService.instance = new LiquidationsHeatmapService();
+    }
+    return LiquidationsHeatmapService.instance;
+  }
+
+  /**
+   * Build the heatmap for a period
+   * Band width is either absolute (bandWidth, single coin) or relative to each coin price (bandPct)
+   */
+  public async getHeatmap(params: LiquidationHeatmapParams): Promise<LiquidationHeatmapResponse> {
+    if (params.bandWidth !== undefined && !params.coin) {
+      throw new LiquidationsError('band_width requires a coin, use band_pct for multiple coins', 400, 'INVALID_BAND_WIDTH');
+    }
+
+    const bandPct = params.bandWidth !== undefined
+      ? null
+      : params.bandPct ?? LiquidationsHeatmapService.DEFAULT_BAND_PCT;
+    const cacheKey = this.getCacheKey(params, bandPct);
+
+    try {
+      const cached = await redisService.get(cacheKey);
+      if (cached) {
+        logDeduplicator.info('LiquidationsHeatmapService.getHeatmap cache hit', { cacheKey });
+        return JSON.parse(cached);
+      }
+    } catch (cacheError) {
+      logDeduplicator.warn('Redis cache error for heatmap', { error: String(cacheError) });
+    }
+
+    const startTime = Date.now();
+    const config = LiquidationsService.getPeriodConfig(params.period);
+    const windowStartMs = startTime - config.hours * 60 * 60 * 1000;
+
+    try {
+      const allLiquidations = await this.liquidationsService.getLatestLiquidations();
+      const coinFilter = params.coin?.toUpperCase();
+
+      // Group liquidations of the period by coin
+      const byCoin = new Map<string, Liquidation[]>();
+      for (const liq of allLiquidations) {
+        if (liq.time_ms < windowStartMs) continue;
+        if (coinFilter && liq.coin.toUpperCase() !== coinFilter) continue;
+
+        const price = this.getPrice(liq, params.priceSource);
+        if (!(price > 0)) continue;
+
+        const coinLiquidations = byCoin.get(liq.coin) || [];
+        coinLiquidations.push(liq);
+        byCoin.set(liq.coin, coinLiquidations);
+      }
+
+      const coins = [...byCoin.entries()]
+        .map(([coin, liquidations]) => this.buildCoinHeatmap(
+          coin,
+          liquidations,
+          params,
+          bandPct,
+          windowStartMs,
+          config.intervalMs
+        ))
+        .sort((a, b) => b.totalVolume - a.totalVolume)
+        .slice(0, params.maxCoins);
+
+      const result: LiquidationHeatmapResponse = {
+        success: true,
+        period: params.period,
+        interval: config.interval,
+        priceSource: params.priceSource,
+        bandPct,
+        bandWidth: params.bandWidth ?? null,
+        coins,
+        metadata: {
+          totalLiquidations: coins.reduce((sum, coin) => sum + coin.liquidationsCount, 0),
+          executionTimeMs: Date.now() - startTime,
+          cachedAt: new Date().toISOString()
+        }
+      };
+
+      try {
+        await redisService.set(cacheKey, JSON.stringify(result), LiquidationsHeatmapService.CACHE_TTL);
+      } catch (cacheError) {
+        logDeduplicator.warn('Failed to cache heatmap', { error: String(cacheError) });
+      }
+
+      logDeduplicator.info('LiquidationsHeatmapService.getHeatmap completed', {
+        period: params.period,
+        coins: coins.length,
+        executionTimeMs: result.metadata.executionTimeMs
+      });
+
+      return result;
+    } catch (error) {
+      logDeduplicator.error('LiquidationsHeatmapService.getHeatmap failed', {
+        error: error instanceof Error ? error.message : String(error),
+        params
+      });
+
+      if (error instanceof LiquidationsError) {
+        throw error;
+      }
+
+      throw new LiquidationsError(
+        error instanceof Error ? error.message : 'Failed to build liquidation heatmap',
+        500,
+        'HEATMAP_ERROR'
+      );
+    }
+  }
+
+  private buildCoinHeatmap(
+    coin: string,
+    liquidations: Liquidation[],
+    params: LiquidationHeatmapParams,
+    bandPct: number | null,
+    windowStartMs: number,
+    intervalMs: number
+  ): CoinHeatmap {
+    const bandWidth = params.bandWidth ?? this.getRelativeBandWidth(liquidations, params, bandPct!);
+
+    const bands = new Map<number, HeatmapBand>();
+    const cells = new Map<string, HeatmapCell>();
+    let totalVolume = 0;
+    let longVolume = 0;
+    let shortVolume = 0;
+
+    for (const liq of liquidations) {
+      const bandIndex = Math.floor(this.getPrice(liq, params.priceSource) / bandWidth);
+      const windowIndex = Math.floor((liq.time_ms - windowStartMs) / intervalMs);
+      const windowStart = windowStartMs + windowIndex * intervalMs;
+
+      let band = bands.get(bandIndex);
+      if (!band) {
+        band = this.createBand(bandIndex, bandWidth);
+        bands.set(bandIndex, band);
+      }
+
+      const cellKey = `${windowIndex}:${bandIndex}`;
+      let cell = cells.get(cellKey);
+      if (!cell) {
+        cell = {
+          timestamp: new Date(windowStart).toISOString(),
+          timestampMs: windowStart,
+          ...this.createBand(bandIndex, bandWidth)
+        };
+        cells.set(cellKey, cell);
+      }
+
+      this.addToBand(band, liq);
+      this.addToBand(cell, liq);
+
+      totalVolume += liq.notional_total;
+      if (liq.liq_dir === 'Long') {
+        longVolume += liq.notional_total;
+      } else {
+        shortVolume += liq.notional_total;
+      }
+    }
+
+    return {
+      coin,
+      bandWidth: this.roundPrice(bandWidth),
+      totalVolume: this.roundUsd(totalVolume),
+      longVolume: this.roundUsd(longVolume),
+      shortVolume: this.roundUsd(shortVolume),
+      liquidationsCount: liquidations.length,
+      bands: [...bands.values()]
+        .map(band => this.roundBand(band))
+        .sort((a, b) => a.priceLow - b.priceLow),
+      cells: [...cells.values()]
+        .map(cell => this.roundBand(cell))
+        .sort((a, b) => a.timestampMs - b.timestampMs || a.priceLow - b.priceLow)
+    };
+  }
+
+  /**
+   * Band width from a percentage of the coin reference price (median price of the period)
+   */
+  private getRelativeBandWidth(liquidations: Liquidation[], params: LiquidationHeatmapParams, bandPct: number): number {
+    const prices = liquidations
+      .map(liq => this.getPrice(liq, params.priceSource))
+      .sort((a, b) => a - b);
+    const median = prices[Math.floor(prices.length / 2)];
+    return (median * bandPct) / 100;
+  }
+
+  private getPrice(liq: Liquidation, priceSource: LiquidationHeatmapParams['priceSource']): number {
+    return priceSource === 'mark' ? liq.mark_px : liq.fill_px_vwap;
+  }
+
+  private createBand(bandIndex: number, bandWidth: number): HeatmapBand {
+    return {
+      priceLow: bandIndex * bandWidth,
+      priceHigh: (bandIndex + 1) * bandWidth,
+      totalVolume: 0,
+      longVolume: 0,
+      shortVolume: 0,
+      liquidationsCount: 0,
+      longCount: 0,
+      shortCount: 0
+    };
+  }
+
+  private addToBand(band: HeatmapBand, liq: Liquidation): void {
+    band.totalVolume += liq.notional_total;
+    band.liquidationsCount++;
+
+    if (liq.liq_dir === 'Long') {
+      band.longVolume += liq.notional_total;
+      band.longCount++;
+    } else {
+      band.shortVolume += liq.notional_total;
+      band.shortCount++;
+    }
+  }
+
+  private roundBand<T extends HeatmapBand>(band: T): T {
+    return {
+      ...band,
+      priceLow: this.roundPrice(band.priceLow),
+      priceHigh: this.roundPrice(band.priceHigh),
+      totalVolume: this.roundUsd(band.totalVolume),
+      longVolume: this.roundUsd(band.longVolume),
+      shortVolume: this.roundUsd(band.shortVolume)
+    };
+  }
+
+  private roundUsd(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Keep 6 significant digits: prices range from sub-cent tokens to BTC
+  private roundPrice(value: number): number {
+    return Number(value.toPrecision(6));
+  }
+
+  private getCacheKey(params: LiquidationHeatmapParams, bandPct: number | null): string {
+    const band = bandPct !== null ? `pct${bandPct}` : `abs${params.bandWidth}`;
+    const coin = params.coin ? params.coin.toUpperCase() : 'all';
+    return `liquidations:heatmap:${params.period}:${coin}:${params.priceSource}:${band}:${params.maxCoins}`;
+  }
+}
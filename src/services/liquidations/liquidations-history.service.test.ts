@@ -0,0 +1,38 @@
+import { LiquidationsHistoryService } from './liquidations-history.service';
+import { LiquidationsError } from '../../types/liquidations.types';
+
+jest.mock('../../core/redis.service', () => ({ redisService: {} }));
+jest.mock('../../repositories/liquidation.repository', () => ({ liquidationRepository: {} }));
+jest.mock('../../utils/logDeduplicator', () => ({ logDeduplicator: {} }));
+
+describe('LiquidationsHistoryService cursors', () => {
+  const service = LiquidationsHistoryService.getInstance();
+
+  it('parses a local keyset cursor', () => {
+    expect(service.parseCursor('db:1700000000000:123456')).toEqual({ timeMs: 1700000000000, tid: 123456 });
+  });
+
+  it.each([
+    '1700000000000:123456',
+    'db:1700000000000',
+    'db:1700000000000:abc',
+    'db:-1:2',
+    'db:1700000000000:123456:7',
+    'eyJ0aW1lIjoxNzAwMDAwMDAwMDAwfQ=='
+  ])('rejects %s', (cursor) => {
+    expect(() => service.parseCursor(cursor)).toThrow(LiquidationsError);
+    expect(() => service.parseCursor(cursor)).toThrow(
+      expect.objectContaining({ statusCode: 400, code: 'INVALID_CURSOR' })
+    );
+  });
+
+  it('recognizes local cursors by their prefix', () => {
+    expect(service.isLocalCursor('db:1700000000000:123456')).toBe(true);
+    expect(service.isLocalCursor('eyJ0aW1lIjoxNzAwMDAwMDAwMDAwfQ==')).toBe(false);
+  });
+
+  it('routes cursor pages by their source', async () => {
+    await expect(service.canServe({ limit: 100, cursor: 'db:1700000000000:123456' })).resolves.toBe(true);
+    await expect(service.canServe({ limit: 100, cursor: 'eyJ0aW1lIjoxNzAwMDAwMDAwMDAwfQ==' })).resolves.toBe(false);
+  });
+});
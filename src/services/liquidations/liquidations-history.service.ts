@@ -0,0 +1,221 @@
+import {
+  Liquidation,
+  LiquidationQueryParams,
+  LiquidationResponse,
+  LiquidationsError
+} from '../../types/liquidations.types';
+import { liquidationRepository } from '../../repositories/liquidation.repository';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Time range stored contiguously in Postgres
+ * startMs: oldest time_ms with no gap up to latestMs
+ * latestMs: newest persisted time_ms
+ * syncedAtMs: last successful write from the polling loop
+ */
+export interface LiquidationsHistoryCoverage {
+  startMs: number;
+  latestMs: number;
+  syncedAtMs: number;
+}
+
+/**
+ * Service for the persistent liquidations history
+ * Stores liquidations seen by the polling loop and the backfill job,
+ * and serves time ranges locally when they are fully covered
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsHistoryService {
+  private static instance: LiquidationsHistoryService;
+
+  private static readonly COVERAGE_KEY = 'liquidations:history:coverage';
+  // Prefix of the cursors issued by the local history, HypeDexer cursors never carry it
+  private static readonly LOCAL_CURSOR_PREFIX = 'db:';
+  // Local data is considered current if the polling loop wrote recently
+  private static readonly SYNC_TOLERANCE_MS = 60 * 1000;
+  private static readonly POLLING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+  private constructor() {}
+
+  public static getInstance(): LiquidationsHistoryService {
+    if (!LiquidationsHistoryService.instance) {
+      LiquidationsHistoryService.instance = new LiquidationsHistoryService();
+    }
+    return LiquidationsHistoryService.instance;
+  }
+
+  /**
+   * Persist a batch fetched by the polling loop (24h window, DESC)
+   * The whole batch is re-inserted (duplicates skipped): HypeDexer can index late,
+   * so any row that shows up inside the polled window is stored before coverage is claimed
+   * @param truncated true if the batch stopped before the start of the window (has_more)
+   */
+  public async persistPolledBatch(liquidations: Liquidation[], truncated: boolean): Promise<void> {
+    try {
+      const now = Date.now();
+      const coverage = await this.getCoverage();
+
+      const inserted = await liquidationRepository.insertMany(liquidations);
+
+      // The batch covers [windowStart, now] without gap
+      const batchMinMs = liquidations.length > 0
+        ? Math.min(...liquidations.map(liq => liq.time_ms))
+        : now - LiquidationsHistoryService.POLLING_WINDOW_MS;
+      const windowStartMs = truncated ? batchMinMs : now - LiquidationsHistoryService.POLLING_WINDOW_MS;
+      const batchMaxMs = liquidations.length > 0 ? Math.max(...liquidations.map(liq => liq.time_ms)) : 0;
+
+      // Keep the previous start only if the batch overlaps what is already stored
+      const isContiguous = coverage !== null && coverage.latestMs >= windowStartMs;
+      if (coverage && !isContiguous) {
+        logDeduplicator.warn('Liquidations history gap detected, coverage reset', {
+          previousLatestMs: coverage.latestMs,
+          windowStartMs
+        });
+      }
+
+      await this.setCoverage({
+        startMs: isContiguous ? Math.min(coverage!.startMs, windowStartMs) : windowStartMs,
+        latestMs: Math.max(coverage?.latestMs ?? 0, batchMaxMs),
+        syncedAtMs: now
+      });
+
+      if (inserted > 0) {
+        logDeduplicator.info('Liquidations history updated', { inserted, candidates: liquidations.length });
+      }
+    } catch (error) {
+      logDeduplicator.error('Failed to persist liquidations history', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Persist a page fetched by the backfill job
+   */
+  public async persistBackfillPage(liquidations: Liquidation[]): Promise<number> {
+    return liquidationRepository.insertMany(liquidations);
+  }
+
+  /**
+   * Extend coverage after a completed backfill of [startMs, endMs]
+   * Only extends when the range touches the already covered range
+   */
+  public async extendCoverage(startMs: number, endMs: number): Promise<boolean> {
+    const coverage = await this.getCoverage();
+    if (!coverage || endMs < coverage.startMs || startMs >= coverage.startMs) {
+      return false;
+    }
+
+    await this.setCoverage({ ...coverage, startMs });
+    logDeduplicator.info('Liquidations history coverage extended', {
+      previousStartMs: coverage.startMs,
+      startMs
+    });
+    return true;
+  }
+
+  public async getCoverage(): Promise<LiquidationsHistoryCoverage | null> {
+    const cached = await redisService.get(LiquidationsHistoryService.COVERAGE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  /**
+   * Whether a request can be served from the local history
+   * A cursor is always sent back to the source that issued it, whatever the current coverage;
+   * otherwise requires an explicit start_time inside the covered range
+   */
+  public async canServe(params: LiquidationQueryParams): Promise<boolean> {
+    if (params.cursor) {
+      return this.isLocalCursor(params.cursor);
+    }
+    if (!params.start_time || params.hours !== undefined) {
+      return false;
+    }
+
+    try {
+      const coverage = await this.getCoverage();
+      if (!coverage) return false;
+
+      const startMs = this.parseTime(params.start_time);
+      const endMs = params.end_time ? this.parseTime(params.end_time) : Date.now();
+      if (startMs === null || endMs === null) return false;
+
+      return startMs >= coverage.startMs &&
+        endMs <= coverage.syncedAtMs + LiquidationsHistoryService.SYNC_TOLERANCE_MS;
+    } catch (error) {
+      logDeduplicator.warn('Liquidations history coverage unavailable', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Serve a liquidations page from Postgres, same format as HypeDexer
+   */
+  public async getLiquidations(params: LiquidationQueryParams & { limit: number }): Promise<LiquidationResponse> {
+    const startTime = Date.now();
+    const startTimeMs = params.start_time ? this.parseTime(params.start_time) : null;
+    const endTimeMs = params.end_time ? this.parseTime(params.end_time) : null;
+    if (startTimeMs === null || (params.end_time && endTimeMs === null)) {
+      throw new LiquidationsError('Invalid start_time or end_time', 400, 'INVALID_TIME_RANGE');
+    }
+
+    const order = params.order ?? 'DESC';
+    const data = await liquidationRepository.findMany({
+      startTimeMs,
+      endTimeMs: endTimeMs ?? undefined,
+      coin: params.coin,
+      user: params.user,
+      minAmountDollars: params.amount_dollars,
+      order,
+      // One extra row to know if there is a next page
+      limit: params.limit + 1,
+      cursor: params.cursor ? this.parseCursor(params.cursor) : undefined
+    });
+
+    const hasMore = data.length > params.limit;
+    const page = hasMore ? data.slice(0, params.limit) : data;
+    const last = page[page.length - 1];
+
+    return {
+      success: true,
+      message: 'Liquidations retrieved from history',
+      data: page,
+      total_count: null,
+      execution_time_ms: Date.now() - startTime,
+      next_cursor: hasMore && last ? `${LiquidationsHistoryService.LOCAL_CURSOR_PREFIX}${last.time_ms}:${last.tid}` : null,
+      has_more: hasMore
+    };
+  }
+
+  private async setCoverage(coverage: LiquidationsHistoryCoverage): Promise<void> {
+    await redisService.set(LiquidationsHistoryService.COVERAGE_KEY, JSON.stringify(coverage));
+  }
+
+  /**
+   * Parse an ISO time, without timezone it is UTC (HypeDexer format)
+   */
+  public parseTime(value: string): number | null {
+    const hasTimezone = /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+    const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const ms = Date.parse(hasTimezone || isDateOnly ? value : `${value}Z`);
+    return isNaN(ms) ? null : ms;
+  }
+
+  public isLocalCursor(cursor: string): boolean {
+    return cursor.startsWith(LiquidationsHistoryService.LOCAL_CURSOR_PREFIX);
+  }
+
+  /**
+   * Parse a local keyset cursor "db:<time_ms>:<tid>"
+   */
+  public parseCursor(cursor: string): { timeMs: number; tid: number } {
+    const match = /^db:(\d+):(\d+)$/.exec(cursor);
+    if (!match) {
+      throw new LiquidationsError('Invalid cursor format', 400, 'INVALID_CURSOR');
+    }
+    return { timeMs: Number(match[1]), tid: Number(match[2]) };
+  }
+}
@@ -0,0 +1,157 @@
+import { Liquidation } from '../../types/liquidations.types';
+import { SSEReplayStatus } from '../../types/sse.types';
+import { REPLAY_CONFIG } from '../../constants/liquidations.constants';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Stream entry of a broadcast liquidation
+ */
+export interface ReplayEntry {
+  id: string;                          // Redis Stream entry ID, used as SSE event ID
+  liquidation: Liquidation;
+}
+
+/**
+ * Service for the live stream replay buffer
+ * Every broadcast liquidation is appended to a Redis Stream (one entry per tid),
+ * reconnecting clients get an exact gap fill from their Last-Event-ID over the retention window
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsReplayService {
+  private static instance: LiquidationsReplayService;
+
+  private static readonly EVENT_ID_PATTERN = /^\d+(-\d+)?$/;
+
+  private constructor() {}
+
+  public static getInstance(): LiquidationsReplayService {
+    if (!LiquidationsReplayService.instance) {
+      LiquidationsReplayService.instance = new LiquidationsReplayService();
+    }
+    return LiquidationsReplayService.instance;
+  }
+
+  /**
+   * Validate an event ID sent by a client ("<ms>-<seq>", or "<ms>" from older clients)
+   */
+  public isValidEventId(eventId: string): boolean {
+    return LiquidationsReplayService.EVENT_ID_PATTERN.test(eventId);
+  }
+
+  /**
+   * Append liquidations to the stream and trim entries older than the retention window
+   * Returns the entry IDs in the same order, or null if Redis is unavailable
+   */
+  public async append(liquidations: Liquidation[]): Promise<string[] | null> {
+    if (liquidations.length === 0) return [];
+
+    try {
+      const minId = String(Date.now() - REPLAY_CONFIG.RETENTION_SECONDS * 1000);
+      const pipeline = redisService.getClient().pipeline();
+
+      for (const liquidation of liquidations) {
+        pipeline.xadd(
+          REPLAY_CONFIG.STREAM_KEY,
+          'MINID', '~', minId,
+          '*',
+          'tid', String(liquidation.tid),
+          'data', JSON.stringify(liquidation)
+        );
+      }
+
+      const results = await pipeline.exec();
+      const ids: string[] = [];
+      for (const [error, id] of results || []) {
+        if (error) throw error;
+        ids.push(String(id));
+      }
+      return ids;
+    } catch (error) {
+      logDeduplicator.error('Failed to append liquidations to replay stream', {
+        count: liquidations.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Read every entry after an event ID, page by page, up to the latest entry at call time
+   */
+  public async *readSince(lastEventId: string): AsyncGenerator<ReplayEntry[]> {
+    const client = redisService.getClient();
+    const latest = await client.xrevrange(REPLAY_CONFIG.STREAM_KEY, '+', '-', 'COUNT', 1);
+    if (latest.length === 0) return;
+
+    const endId = latest[0][0];
+    let startId = lastEventId;
+
+    while (this.compareIds(startId, endId) < 0) {
+      const page = await client.xrange(
+        REPLAY_CONFIG.STREAM_KEY,
+        `(${startId}`,
+        endId,
+        'COUNT',
+        REPLAY_CONFIG.PAGE_SIZE
+      );
+      if (page.length === 0) return;
+
+      const entries: ReplayEntry[] = [];
+      for (const [id, fields] of page) {
+        const dataIndex = fields.indexOf('data');
+        if (dataIndex !== -1) {
+          entries.push({ id, liquidation: JSON.parse(fields[dataIndex + 1]) });
+        }
+      }
+
+      yield entries;
+      startId = page[page.length - 1][0];
+    }
+  }
+
+  /**
+   * Tell whether the gap since an event ID can be replayed entirely
+   * Entries older than the retention window have been trimmed
+   */
+  public async getReplayStatus(lastEventId: string, replayedCount: number): Promise<SSEReplayStatus> {
+    const retentionStartMs = Date.now() - REPLAY_CONFIG.RETENTION_SECONDS * 1000;
+    const gapTooLarge = this.getIdMs(lastEventId) < retentionStartMs;
+
+    let oldestAvailableEventId: string | null = null;
+    try {
+      const oldest = await redisService.getClient().xrange(REPLAY_CONFIG.STREAM_KEY, '-', '+', 'COUNT', 1);
+      oldestAvailableEventId = oldest.length > 0 ? oldest[0][0] : null;
+    } catch (error) {
+      logDeduplicator.warn('Failed to read replay stream head', { error: String(error) });
+    }
+
+    return {
+      fromEventId: lastEventId,
+      replayedCount,
+      complete: !gapTooLarge,
+      gapTooLarge,
+      oldestAvailableEventId,
+      retentionSeconds: REPLAY_CONFIG.RETENTION_SECONDS,
+      ...(gapTooLarge && {
+        message: `Gap is older than the ${REPLAY_CONFIG.RETENTION_SECONDS}s replay window, some liquidations were not replayed. Use GET /liquidations to backfill.`
+      })
+    };
+  }
+
+  /**
+   * Compare two stream IDs ("<ms>-<seq>", seq defaults to 0)
+   */
+  public compareIds(a: string, b: string): number {
+    const [aMs, aSeq = '0'] = a.split('-');
+    const [bMs, bSeq = '0'] = b.split('-');
+    const msDiff = BigInt(aMs) - BigInt(bMs);
+    if (msDiff !== 0n) return msDiff > 0n ? 1 : -1;
+    const seqDiff = BigInt(aSeq) - BigInt(bSeq);
+    return seqDiff === 0n ? 0 : seqDiff > 0n ? 1 : -1;
+  }
+
+  private getIdMs(eventId: string): number {
+    return parseInt(eventId.split('-')[0], 10);
+  }
+}
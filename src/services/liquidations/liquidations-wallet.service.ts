@@ -0,0 +1,224 @@
+import { HLIndexerLiquidationsClient } from '../../clients/hlindexer/liquidations/liquidations.client';
+import {
+  Liquidation,
+  LiquidationsError,
+  WalletLiquidationProfileResponse,
+  WalletLiquidationWindowStats,
+  WalletLiquidationCoinStats
+} from '../../types/liquidations.types';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Service for per-wallet liquidation profiles
+ * Uses the HypeDexer `user` filter, cached per address
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidationsWalletService {
+  private static instance: LiquidationsWalletService;
+  private readonly client: HLIndexerLiquidationsClient;
+
+  private static readonly CACHE_TTL = 60; // 1 minute
+  private static readonly MAX_PAGES = 10; // Max 10 pages (10000 liquidations)
+  private static readonly PAGE_LIMIT = 1000;
+  private static readonly MAX_RECENT_LIMIT = 100; // Max recent_limit accepted by the route
+
+  private static readonly WINDOWS = {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '30d': 30 * 24 * 60 * 60 * 1000
+  } as const;
+
+  private constructor() {
+    this.client = HLIndexerLiquidationsClient.getInstance();
+  }
+
+  public static getInstance(): LiquidationsWalletService {
+    if (!LiquidationsWalletService.instance) {
+      LiquidationsWalletService.instance = new LiquidationsWalletService();
+    }
+    return LiquidationsWalletService.instance;
+  }
+
+  /**
+   * Get the liquidation profile of an address
+   * The profile is cached once per address with MAX_RECENT_LIMIT recent events, then cut to recentLimit
+   * @param ip Client IP, each uncached HypeDexer page is charged to its rate limit budget
+   */
+  public async getWalletProfile(address: string, recentLimit: number, ip: string): Promise<WalletLiquidationProfileResponse> {
+    const normalizedAddress = address.toLowerCase();
+    const cacheKey = this.getCacheKey(normalizedAddress);
+
+    try {
+      const cached = await redisService.get(cacheKey);
+      if (cached) {
+        logDeduplicator.info('LiquidationsWalletService.getWalletProfile cache hit', { address: normalizedAddress });
+        return this.withRecentLimit(JSON.parse(cached), recentLimit);
+      }
+    } catch (cacheError) {
+      logDeduplicator.warn('Redis cache error for wallet profile', { error: String(cacheError) });
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const { liquidations, pagesLoaded, truncated } = await this.fetchWalletLiquidations(normalizedAddress, ip);
+      const now = Date.now();
+
+      // Most recent first
+      liquidations.sort((a, b) => b.time_ms - a.time_ms);
+
+      const lifetime = this.calculateWindowStats(liquidations);
+      const windows = {} as WalletLiquidationProfileResponse['windows'];
+      for (const [window, durationMs] of Object.entries(LiquidationsWalletService.WINDOWS)) {
+        windows[window as keyof typeof LiquidationsWalletService.WINDOWS] = this.calculateWindowStats(
+          liquidations.filter(liq => liq.time_ms >= now - durationMs)
+        );
+      }
+
+      const result: WalletLiquidationProfileResponse = {
+        success: true,
+        address: normalizedAddress,
+        lifetime: {
+          ...lifetime,
+          firstLiquidatedAt: liquidations.length > 0 ? liquidations[liquidations.length - 1].time : null,
+          lastLiquidatedAt: liquidations.length > 0 ? liquidations[0].time : null
+        },
+        windows,
+        coins: this.calculateCoinStats(liquidations),
+        recent: liquidations.slice(0, LiquidationsWalletService.MAX_RECENT_LIMIT),
+        metadata: {
+          pagesLoaded,
+          truncated,
+          executionTimeMs: Date.now() - startTime,
+          cachedAt: new Date().toISOString()
+        }
+      };
+
+      try {
+        await redisService.set(cacheKey, JSON.stringify(result), LiquidationsWalletService.CACHE_TTL);
+      } catch (cacheError) {
+        logDeduplicator.warn('Failed to cache wallet profile', { error: String(cacheError) });
+      }
+
+      logDeduplicator.info('LiquidationsWalletService.getWalletProfile completed', {
+        address: normalizedAddress,
+        liquidationsCount: liquidations.length,
+        pagesLoaded,
+        executionTimeMs: result.metadata.executionTimeMs
+      });
+
+      return this.withRecentLimit(result, recentLimit);
+    } catch (error) {
+      logDeduplicator.error('LiquidationsWalletService.getWalletProfile failed', {
+        error: error instanceof Error ? error.message : String(error),
+        address: normalizedAddress
+      });
+
+      if (error instanceof LiquidationsError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
+        throw new LiquidationsError(
+          'API rate limit exceeded. Please try again in a few seconds.',
+          429,
+          'RATE_LIMIT_EXCEEDED'
+        );
+      }
+
+      throw new LiquidationsError(
+        error instanceof Error ? error.message : 'Failed to fetch wallet liquidations',
+        500,
+        'WALLET_PROFILE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Fetch the liquidation history of an address (keyset pagination, newest first)
+   */
+  private async fetchWalletLiquidations(address: string, ip: string): Promise<{
+    liquidations: Liquidation[];
+    pagesLoaded: number;
+    truncated: boolean;
+  }> {
+    const liquidations: Liquidation[] = [];
+    let cursor: string | null = null;
+    let pagesLoaded = 0;
+    let hasMore = true;
+
+    while (hasMore && pagesLoaded < LiquidationsWalletService.MAX_PAGES) {
+      if (!this.client.checkRateLimit(ip)) {
+        throw new LiquidationsError('API rate limit exceeded. Please try again in a minute.', 429, 'RATE_LIMIT_EXCEEDED');
+      }
+
+      const response = await this.client.getLiquidations({
+        user: address,
+        limit: LiquidationsWalletService.PAGE_LIMIT,
+        order: 'DESC',
+        cursor: cursor || undefined
+      });
+
+      liquidations.push(...response.data);
+      cursor = response.next_cursor;
+      hasMore = response.has_more;
+      pagesLoaded++;
+
+      if (hasMore && pagesLoaded < LiquidationsWalletService.MAX_PAGES) {
+        await new Promise(resolve => setTimeout(resolve, 300));
+      }
+    }
+
+    return { liquidations, pagesLoaded, truncated: hasMore };
+  }
+
+  private calculateWindowStats(liquidations: Liquidation[]): WalletLiquidationWindowStats {
+    let longCount = 0;
+    let notionalLost = 0;
+    let feesPaid = 0;
+
+    for (const liq of liquidations) {
+      if (liq.liq_dir === 'Long') longCount++;
+      notionalLost += liq.notional_total;
+      feesPaid += liq.fee_total_liquidated;
+    }
+
+    return {
+      liquidationsCount: liquidations.length,
+      longCount,
+      shortCount: liquidations.length - longCount,
+      notionalLost: Math.round(notionalLost * 100) / 100,
+      feesPaid: Math.round(feesPaid * 100) / 100
+    };
+  }
+
+  /**
+   * Per-coin breakdown (liquidations must be sorted newest first)
+   */
+  private calculateCoinStats(liquidations: Liquidation[]): WalletLiquidationCoinStats[] {
+    const byCoin = new Map<string, Liquidation[]>();
+    for (const liq of liquidations) {
+      const coinLiquidations = byCoin.get(liq.coin) || [];
+      coinLiquidations.push(liq);
+      byCoin.set(liq.coin, coinLiquidations);
+    }
+
+    return [...byCoin.entries()]
+      .map(([coin, coinLiquidations]) => ({
+        coin,
+        ...this.calculateWindowStats(coinLiquidations),
+        lastLiquidatedAt: coinLiquidations[0].time
+      }))
+      .sort((a, b) => b.notionalLost - a.notionalLost);
+  }
+
+  private withRecentLimit(profile: WalletLiquidationProfileResponse, recentLimit: number): WalletLiquidationProfileResponse {
+    return { ...profile, recent: profile.recent.slice(0, recentLimit) };
+  }
+
+  private getCacheKey(address: string): string {
+    return `liquidations:wallet:${address}`;
+  }
+}
@@ -18,6 +18,9 @@ import {
 import { logDeduplicator } from '../../utils/logDeduplicator';
 import { redisService } from '../../core/redis.service';
 import { SSEManagerService } from './sse-manager.service';
+import { TelegramService } from '../telegram/telegram.service';
+import { LiquidationsHistoryService } from './liquidations-history.service';
+import { LiquidationsCascadeService } from './liquidations-cascade.service';
 
 /**
  * Period configuration for chart data aggregation
@@ -52,6 +55,10 @@ export class LiquidationsService {
   private refreshTimer: NodeJS.Timeout | null = null;
   private isRefreshing = false;
 
+  // Last 24h batch fetched by refreshAllData, reused by derived analytics
+  private latestLiquidations: Liquidation[] = [];
+  private latestLiquidationsAt = 0;
+
   // Aggregation configuration
   private static readonly AGGREGATION_ENABLED = process.env.LIQUIDATIONS_AGGREGATION_ENABLED === 'true';
   private static readonly MIN_AGGREGATION_COUNT = 2;
@@ -69,9 +76,21 @@ export class LiquidationsService {
   // SSE Manager for real-time broadcasting
   private readonly sseManager: SSEManagerService;
 
+  // Telegram alerts for subscribed bot users
+  private readonly telegramService: TelegramService;
+
+  // Postgres history (polling writes, range reads)
+  private readonly historyService: LiquidationsHistoryService;
+
+  // Burst detection on the raw (non aggregated) stream
+  private readonly cascadeService: LiquidationsCascadeService;
+
   private constructor() {
     this.client = HLIndexerLiquidationsClient.getInstance();
     this.sseManager = SSEManagerService.getInstance();
+    this.telegramService = TelegramService.getInstance();
+    this.historyService = LiquidationsHistoryService.getInstance();
+    this.cascadeService = LiquidationsCascadeService.getInstance();
   }
 
   public static getInstance(): LiquidationsService {
@@ -163,9 +182,15 @@ export class LiquidationsService {
         pages: pagesLoaded
       });
 
+      this.latestLiquidations = allLiquidations;
+      this.latestLiquidationsAt = Date.now();
+
       // Detect and broadcast new liquidations via SSE
       await this.detectAndBroadcastNewLiquidations(allLiquidations);
 
+      // Persist to the Postgres history (truncated if pages were left unread)
+      await this.historyService.persistPolledBatch(allLiquidations, hasMore);
+
       // Build and cache unified data for /liquidations/data endpoint
       await this.buildAndCacheUnifiedData(allLiquidations);
 
@@ -235,6 +260,13 @@ export class LiquidationsService {
         .filter(liq => liq.time_ms > lastSeenTimeMs)
         .sort((a, b) => a.time_ms - b.time_ms);
 
+      // Cascade detection runs on every refresh so that inactive cascades get closed
+      await this.cascadeService.processLiquidations(newLiquidations).catch(error => {
+        logDeduplicator.error('Cascade detection failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+
       // Apply aggregation if enabled
       const liquidationsToSend = LiquidationsService.AGGREGATION_ENABLED
         ? this.aggregateLiquidations(newLiquidations)
@@ -243,6 +275,15 @@ export class LiquidationsService {
       if (liquidationsToSend.length > 0) {
         await this.sseManager.broadcastNewLiquidations(liquidationsToSend);
 
+        // Telegram delivery must not delay the SSE refresh loop
+        if (this.telegramService.isEnabled()) {
+          this.telegramService.dispatchLiquidationAlerts(liquidationsToSend).catch(error => {
+            logDeduplicator.error('Telegram alert dispatch failed', {
+              error: error instanceof Error ? error.message : String(error)
+            });
+          });
+        }
+
         logDeduplicator.info('SSE broadcasting new liquidations', {
           originalCount: newLiquidations.length,
           afterAggregation: liquidationsToSend.length,
@@ -338,6 +379,28 @@ export class LiquidationsService {
     logDeduplicator.info('Stats all cached', { cacheKey });
   }
 
+  /**
+   * Get period configuration (hours, interval) for a chart period
+   */
+  public static getPeriodConfig(period: ChartPeriod): { hours: number; interval: ChartInterval; intervalMs: number } {
+    const { hours, interval, intervalMs } = LiquidationsService.PERIOD_CONFIG[period];
+    return { hours, interval, intervalMs };
+  }
+
+  /**
+   * Get the last 24h liquidations fetched by the background refresh
+   * Falls back to a direct fetch if the snapshot is missing or stale (polling not started yet)
+   */
+  public async getLatestLiquidations(): Promise<Liquidation[]> {
+    const maxAgeMs = LiquidationsService.REFRESH_INTERVAL_MS * 3;
+    if (this.latestLiquidationsAt > 0 && Date.now() - this.latestLiquidationsAt <= maxAgeMs) {
+      return this.latestLiquidations;
+    }
+
+    logDeduplicator.info('Latest liquidations snapshot unavailable, fetching directly');
+    return this.getLiquidationsFromStatsCache(24);
+  }
+
   /**
    * Get cache key for recent liquidations
    */
@@ -354,6 +417,18 @@ export class LiquidationsService {
       const limit = params.limit ?? LiquidationsService.DEFAULT_LIMIT;
 
       logDeduplicator.info('LiquidationsService.getLiquidations called', { params });
+
+      // Explicit time ranges fully covered by the history are served locally
+      if (await this.historyService.canServe(params)) {
+        const localResponse = await this.historyService.getLiquidations({ ...params, limit });
+
+        logDeduplicator.info('LiquidationsService.getLiquidations served from history', {
+          count: localResponse.data.length,
+          hasMore: localResponse.has_more
+        });
+
+        return localResponse;
+      }
       
       const response = await this.client.getLiquidations({
         ...params,
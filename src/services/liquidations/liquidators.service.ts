@@ -0,0 +1,217 @@
+import {
+  Liquidation,
+  ChartPeriod,
+  LiquidationsError,
+  LiquidatorSortBy,
+  LiquidatorEntry,
+  LiquidatorPeriodData,
+  LiquidatorLeaderboardResponse
+} from '../../types/liquidations.types';
+import { LiquidationsService } from './liquidations.service';
+import { HLP_LIQUIDATOR_ADDRESSES } from '../../constants/liquidations.constants';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+interface LiquidatorAccumulator {
+  address: string;
+  volumeAbsorbed: number;
+  longVolume: number;
+  shortVolume: number;
+  liquidationsCount: number;
+  coinVolumes: Map<string, number>;
+}
+
+/**
+ * Service for liquidator analytics (who absorbs liquidations)
+ * Aggregates the liquidators[] field of the background refresh data over the PERIOD_CONFIG windows
+ * Follows the Singleton pattern as per architecture
+ */
+export class LiquidatorsService {
+  private static instance: LiquidatorsService;
+
+  private static readonly CACHE_TTL = 8; // Just under polling interval
+  private static readonly PERIODS: ChartPeriod[] = ['2h', '4h', '8h', '12h', '24h'];
+
+  private readonly liquidationsService: LiquidationsService;
+  private readonly hlpAddresses: Set<string>;
+
+  private constructor() {
+    this.liquidationsService = LiquidationsService.getInstance();
+    this.hlpAddresses = new Set(HLP_LIQUIDATOR_ADDRESSES);
+  }
+
+  public static getInstance(): LiquidatorsService {
+    if (!LiquidatorsService.instance) {
+      LiquidatorsService.instance = new LiquidatorsService();
+    }
+    return LiquidatorsService.instance;
+  }
+
+  /**
+   * Get the liquidator leaderboard for all periods
+   */
+  public async getLeaderboard(sortBy: LiquidatorSortBy, limit: number): Promise<LiquidatorLeaderboardResponse> {
+    const cacheKey = `liquidations:liquidators:${sortBy}:${limit}`;
+
+    try {
+      const cached = await redisService.get(cacheKey);
+      if (cached) {
+        logDeduplicator.info('LiquidatorsService.getLeaderboard cache hit', { sortBy, limit });
+        return JSON.parse(cached);
+      }
+    } catch (cacheError) {
+      logDeduplicator.warn('Redis cache error for liquidators', { error: String(cacheError) });
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const allLiquidations = await this.liquidationsService.getLatestLiquidations();
+      const periods = {} as Record<ChartPeriod, LiquidatorPeriodData>;
+
+      for (const period of LiquidatorsService.PERIODS) {
+        const { hours } = LiquidationsService.getPeriodConfig(period);
+        const cutoffTime = startTime - hours * 60 * 60 * 1000;
+        const periodLiquidations = allLiquidations.filter(liq => liq.time_ms >= cutoffTime);
+        periods[period] = this.buildPeriodData(periodLiquidations, sortBy, limit);
+      }
+
+      const result: LiquidatorLeaderboardResponse = {
+        success: true,
+        sortBy,
+        periods,
+        metadata: {
+          hlpAddresses: [...this.hlpAddresses],
+          executionTimeMs: Date.now() - startTime,
+          cachedAt: new Date().toISOString()
+        }
+      };
+
+      try {
+        await redisService.set(cacheKey, JSON.stringify(result), LiquidatorsService.CACHE_TTL);
+      } catch (cacheError) {
+        logDeduplicator.warn('Failed to cache liquidators', { error: String(cacheError) });
+      }
+
+      logDeduplicator.info('LiquidatorsService.getLeaderboard completed', {
+        sortBy,
+        limit,
+        executionTimeMs: result.metadata.executionTimeMs
+      });
+
+      return result;
+    } catch (error) {
+      logDeduplicator.error('LiquidatorsService.getLeaderboard failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw new LiquidationsError(
+        error instanceof Error ? error.message : 'Failed to build liquidator leaderboard',
+        500,
+        'LIQUIDATORS_ERROR'
+      );
+    }
+  }
+
+  private buildPeriodData(liquidations: Liquidation[], sortBy: LiquidatorSortBy, limit: number): LiquidatorPeriodData {
+    const liquidators = new Map<string, LiquidatorAccumulator>();
+    let totalVolume = 0;
+    let hlpVolume = 0;
+    let hlpCount = 0;
+
+    for (const liq of liquidations) {
+      totalVolume += liq.notional_total;
+
+      const addresses = [...new Set(liq.liquidators.map(address => address.toLowerCase()))];
+      if (addresses.length === 0) continue;
+
+      // No per-liquidator size in the data: split the notional equally
+      const share = liq.notional_total / addresses.length;
+      let hasHlp = false;
+
+      for (const address of addresses) {
+        let acc = liquidators.get(address);
+        if (!acc) {
+          acc = {
+            address,
+            volumeAbsorbed: 0,
+            longVolume: 0,
+            shortVolume: 0,
+            liquidationsCount: 0,
+            coinVolumes: new Map()
+          };
+          liquidators.set(address, acc);
+        }
+
+        acc.volumeAbsorbed += share;
+        acc.liquidationsCount++;
+        acc.coinVolumes.set(liq.coin, (acc.coinVolumes.get(liq.coin) || 0) + share);
+        if (liq.liq_dir === 'Long') {
+          acc.longVolume += share;
+        } else {
+          acc.shortVolume += share;
+        }
+
+        if (this.hlpAddresses.has(address)) {
+          hlpVolume += share;
+          hasHlp = true;
+        }
+      }
+
+      if (hasHlp) hlpCount++;
+    }
+
+    const sorted = [...liquidators.values()].sort((a, b) => this.compare(a, b, sortBy));
+
+    const leaderboard: LiquidatorEntry[] = sorted.slice(0, limit).map((acc, index) => ({
+      rank: index + 1,
+      address: acc.address,
+      isHlp: this.hlpAddresses.has(acc.address),
+      volumeAbsorbed: this.round(acc.volumeAbsorbed),
+      longVolume: this.round(acc.longVolume),
+      shortVolume: this.round(acc.shortVolume),
+      liquidationsCount: acc.liquidationsCount,
+      coinsCovered: acc.coinVolumes.size,
+      topCoins: [...acc.coinVolumes.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([coin]) => coin),
+      volumeShare: this.percent(acc.volumeAbsorbed, totalVolume)
+    }));
+
+    return {
+      totalVolume: this.round(totalVolume),
+      liquidationsCount: liquidations.length,
+      uniqueLiquidators: liquidators.size,
+      hlp: {
+        volumeAbsorbed: this.round(hlpVolume),
+        liquidationsCount: hlpCount,
+        volumeShare: this.percent(hlpVolume, totalVolume),
+        countShare: this.percent(hlpCount, liquidations.length)
+      },
+      leaderboard
+    };
+  }
+
+  /**
+   * Sort descending on the requested key, then volume as tie-breaker
+   */
+  private compare(a: LiquidatorAccumulator, b: LiquidatorAccumulator, sortBy: LiquidatorSortBy): number {
+    switch (sortBy) {
+      case 'count':
+        return b.liquidationsCount - a.liquidationsCount || b.volumeAbsorbed - a.volumeAbsorbed;
+      case 'coins':
+        return b.coinVolumes.size - a.coinVolumes.size || b.volumeAbsorbed - a.volumeAbsorbed;
+      default:
+        return b.volumeAbsorbed - a.volumeAbsorbed;
+    }
+  }
+
+  private percent(value: number, total: number): number {
+    return total > 0 ? Math.round((value / total) * 10000) / 100 : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
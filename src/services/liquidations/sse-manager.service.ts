@@ -9,7 +9,10 @@ import {
   SSEBroadcastMessage,
   SSEConnectionStats
 } from '../../types/sse.types';
-import { Liquidation } from '../../types/liquidations.types';
+import { Liquidation, LiquidationCascade } from '../../types/liquidations.types';
+import { LIVE_STREAM_CONFIG } from '../../constants/liquidations.constants';
+import { StreamFiltersService } from './stream-filters.service';
+import { LiquidationsReplayService } from './liquidations-replay.service';
 
 /**
  * SSE Manager Service
@@ -18,20 +21,19 @@ import { Liquidation } from '../../types/liquidations.types';
  * Features:
  * - In-memory client tracking with Map
  * - Redis Pub/Sub for cross-instance communication
- * - Per-client filtering (coin, minAmountDollars)
+ * - Per-client filtering (see StreamFiltersService)
  * - Heartbeat to keep connections alive
- * - Support for reconnection with Last-Event-ID
+ * - Exact replay on reconnection with Last-Event-ID (Redis Stream, see LiquidationsReplayService)
  */
 export class SSEManagerService {
   private static instance: SSEManagerService;
 
   // Configuration
-  private static readonly HEARTBEAT_INTERVAL_MS = 30_000;     // 30 seconds
-  private static readonly MAX_CONNECTIONS_PER_IP = 3;          // Limit per IP
-  private static readonly MAX_TOTAL_CONNECTIONS = 1000;        // Server limit
-  private static readonly REDIS_CHANNEL = 'liquidations:sse:broadcast';
+  private static readonly HEARTBEAT_INTERVAL_MS = LIVE_STREAM_CONFIG.HEARTBEAT_INTERVAL_MS;   // 30 seconds
+  private static readonly MAX_CONNECTIONS_PER_IP = LIVE_STREAM_CONFIG.MAX_CONNECTIONS_PER_IP; // Limit per IP
+  private static readonly MAX_TOTAL_CONNECTIONS = LIVE_STREAM_CONFIG.MAX_TOTAL_CONNECTIONS;   // Server limit
+  private static readonly REDIS_CHANNEL = LIVE_STREAM_CONFIG.REDIS_CHANNEL;
   private static readonly LAST_TIME_MS_KEY = 'liquidations:sse:lastTimeMs';
-  private static readonly MISSED_DATA_LIMIT = 100;             // Max missed events to send
 
   // State
   private clients: Map<string, SSEClient> = new Map();
@@ -39,7 +41,13 @@ export class SSEManagerService {
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private isSubscribed = false;
 
-  private constructor() {}
+  private readonly streamFilters: StreamFiltersService;
+  private readonly replayService: LiquidationsReplayService;
+
+  private constructor() {
+    this.streamFilters = StreamFiltersService.getInstance();
+    this.replayService = LiquidationsReplayService.getInstance();
+  }
 
   public static getInstance(): SSEManagerService {
     if (!SSEManagerService.instance) {
@@ -84,7 +92,7 @@ export class SSEManagerService {
     res: Response,
     ip: string,
     filters: SSEClientFilters,
-    lastEventId?: number
+    lastEventId?: string
   ): Promise<string | null> {
     // Check connection limits
     if (this.clients.size >= SSEManagerService.MAX_TOTAL_CONNECTIONS) {
@@ -118,6 +126,10 @@ export class SSEManagerService {
     this.clients.set(clientId, client);
     this.ipConnectionCount.set(ip, currentIpCount + 1);
 
+    // Handle client disconnect, including during the replay below
+    res.on('close', () => this.removeClient(clientId));
+    res.on('error', () => this.removeClient(clientId));
+
     // Set up SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
@@ -132,15 +144,15 @@ export class SSEManagerService {
       timestamp: new Date().toISOString()
     });
 
-    // Send missed liquidations if reconnecting
+    // Replay missed liquidations if reconnecting
     if (lastEventId) {
-      await this.sendMissedLiquidations(client, lastEventId);
+      await this.replayMissedLiquidations(client, lastEventId);
     }
 
     logDeduplicator.info('SSE client connected', {
       clientId,
       ip,
-      filters,
+      filters: { ...filters, walletAddresses: filters.walletAddresses?.size },
       totalClients: this.clients.size
     });
 
@@ -185,9 +197,14 @@ export class SSEManagerService {
       maxTimeMs.toString()
     );
 
+    // Append to the replay stream (chronological order): entry IDs become the event IDs
+    const sorted = [...liquidations].sort((a, b) => a.time_ms - b.time_ms);
+    const streamIds = await this.replayService.append(sorted);
+
     // Publish to Redis for cross-instance communication
     const message: SSEBroadcastMessage = {
-      newLiquidations: liquidations,
+      newLiquidations: sorted,
+      ...(streamIds && { streamIds }),
       timestamp: new Date().toISOString()
     };
     await redisService.publish(
@@ -202,6 +219,29 @@ export class SSEManagerService {
     });
   }
 
+  /**
+   * Broadcast cascade detections to all connected clients
+   * Called by LiquidationsCascadeService on detection and when a cascade ends
+   */
+  public async broadcastCascades(cascades: LiquidationCascade[]): Promise<void> {
+    if (cascades.length === 0) return;
+
+    const message: SSEBroadcastMessage = {
+      newLiquidations: [],
+      cascades,
+      timestamp: new Date().toISOString()
+    };
+    await redisService.publish(
+      SSEManagerService.REDIS_CHANNEL,
+      JSON.stringify(message)
+    );
+
+    logDeduplicator.info('SSE cascade broadcast published', {
+      count: cascades.length,
+      connectedClients: this.clients.size
+    });
+  }
+
   /**
    * Get the last seen timestamp (time_ms)
    */
@@ -231,27 +271,45 @@ export class SSEManagerService {
       });
 
       for (const client of this.clients.values()) {
-        const filteredLiquidations = this.filterLiquidations(
-          message.newLiquidations,
-          client.filters
-        );
+        let sentCount = 0;
 
-        if (filteredLiquidations.length > 0) {
-          for (const liquidation of filteredLiquidations) {
-            this.sendEvent(client, {
-              type: 'liquidation',
-              data: liquidation,
-              id: liquidation.time_ms, // Use time_ms as event ID instead of tid
-              timestamp: message.timestamp
-            });
-            client.lastEventId = liquidation.time_ms;
+        message.newLiquidations.forEach((liquidation, index) => {
+          if (!this.streamFilters.matchesLiquidation(liquidation, client.filters)) return;
+
+          const event: SSELiquidationEvent = {
+            type: 'liquidation',
+            data: liquidation,
+            id: message.streamIds?.[index], // Replay stream entry ID
+            timestamp: message.timestamp
+          };
+
+          // Held until the replay of missed events is done, to keep events in order
+          if (client.replayBuffer) {
+            client.replayBuffer.push(event);
+            return;
           }
 
+          this.sendLiquidationEvent(client, event);
+          sentCount++;
+        });
+
+        if (sentCount > 0) {
           logDeduplicator.info('SSE sent liquidations to client', {
             clientId: client.id,
-            count: filteredLiquidations.length
+            count: sentCount
           });
         }
+
+        // Cascades have no event ID: they must not move the Last-Event-ID resume point
+        for (const cascade of message.cascades || []) {
+          if (this.streamFilters.matchesCascade(cascade, client.filters)) {
+            this.sendEvent(client, {
+              type: 'cascade',
+              data: cascade,
+              timestamp: message.timestamp
+            });
+          }
+        }
       }
     } catch (error) {
       logDeduplicator.error('SSE broadcast message parse error', {
@@ -260,30 +318,6 @@ export class SSEManagerService {
     }
   }
 
-  /**
-   * Filter liquidations based on client preferences
-   */
-  private filterLiquidations(
-    liquidations: Liquidation[],
-    filters: SSEClientFilters
-  ): Liquidation[] {
-    return liquidations.filter(liq => {
-      // Coin filter
-      if (filters.coin && liq.coin.toUpperCase() !== filters.coin.toUpperCase()) {
-        return false;
-      }
-      // Minimum amount filter
-      if (filters.minAmountDollars && liq.notional_total < filters.minAmountDollars) {
-        return false;
-      }
-      // User (wallet address) filter
-      if (filters.user && liq.liquidated_user.toLowerCase() !== filters.user.toLowerCase()) {
-        return false;
-      }
-      return true;
-    });
-  }
-
   /**
    * Send SSE event to a client
    */
@@ -315,54 +349,83 @@ export class SSEManagerService {
   }
 
   /**
-   * Send missed liquidations on reconnection
-   * Uses time_ms for filtering since tids are not monotonically increasing
+   * Send a liquidation event and move the client resume point
+   */
+  private sendLiquidationEvent(client: SSEClient, event: SSELiquidationEvent): void {
+    this.sendEvent(client, event);
+    if (event.id !== undefined) {
+      client.lastEventId = event.id;
+    }
+  }
+
+  /**
+   * Replay missed liquidations on reconnection from the replay stream
+   * Live events received meanwhile are buffered, then sent if newer than the last replayed one
+   * Ends with a `replay` event telling whether the gap could be filled entirely
    */
-  private async sendMissedLiquidations(
+  private async replayMissedLiquidations(
     client: SSEClient,
-    lastEventId: number
+    lastEventId: string
   ): Promise<void> {
-    try {
-      // Import dynamically to avoid circular dependency
-      const { LiquidationsService } = await import('./liquidations.service');
-      const liquidationsService = LiquidationsService.getInstance();
-
-      // Fetch recent liquidations and filter by time_ms > lastEventId
-      const response = await liquidationsService.getRecentLiquidations({
-        hours: 1, // Only look back 1 hour for missed data
-        limit: SSEManagerService.MISSED_DATA_LIMIT
-      });
-
-      const missedLiquidations = response.data
-        .filter(liq => liq.time_ms > lastEventId)
-        .sort((a, b) => a.time_ms - b.time_ms); // Send in chronological order by timestamp
+    client.replayBuffer = [];
+    let replayedCount = 0;
 
-      const filteredMissed = this.filterLiquidations(
-        missedLiquidations,
-        client.filters
-      );
+    try {
+      for await (const entries of this.replayService.readSince(lastEventId)) {
+        // Stop if the client disconnected during the replay
+        if (!this.clients.has(client.id)) return;
 
-      if (filteredMissed.length > 0) {
-        for (const liquidation of filteredMissed) {
-          this.sendEvent(client, {
-            type: 'liquidation',
-            data: liquidation,
-            id: liquidation.time_ms, // Use time_ms as event ID
-            timestamp: new Date().toISOString()
-          });
-          client.lastEventId = liquidation.time_ms;
+        for (const entry of entries) {
+          if (this.streamFilters.matchesLiquidation(entry.liquidation, client.filters)) {
+            this.sendLiquidationEvent(client, {
+              type: 'liquidation',
+              data: entry.liquidation,
+              id: entry.id,
+              timestamp: new Date().toISOString()
+            });
+            replayedCount++;
+          } else {
+            // Filtered out, but the client is now past this entry
+            client.lastEventId = entry.id;
+          }
         }
-
-        logDeduplicator.info('SSE sent missed liquidations', {
-          clientId: client.id,
-          count: filteredMissed.length
-        });
       }
+
+      this.sendEvent(client, {
+        type: 'replay',
+        data: await this.replayService.getReplayStatus(lastEventId, replayedCount),
+        timestamp: new Date().toISOString()
+      });
+
+      logDeduplicator.info('SSE replayed missed liquidations', {
+        clientId: client.id,
+        lastEventId,
+        count: replayedCount
+      });
     } catch (error) {
-      logDeduplicator.error('SSE failed to send missed liquidations', {
+      logDeduplicator.error('SSE failed to replay missed liquidations', {
         clientId: client.id,
         error: error instanceof Error ? error.message : String(error)
       });
+
+      this.sendEvent(client, {
+        type: 'error',
+        data: null,
+        timestamp: new Date().toISOString()
+      });
+    } finally {
+      const buffered = client.replayBuffer || [];
+      client.replayBuffer = undefined;
+
+      for (const event of buffered) {
+        if (
+          event.id === undefined ||
+          client.lastEventId === null ||
+          this.replayService.compareIds(event.id, client.lastEventId) > 0
+        ) {
+          this.sendLiquidationEvent(client, event);
+        }
+      }
     }
   }
 
@@ -0,0 +1,176 @@
+import { AuthService } from '../auth/auth.service';
+import { WalletListService } from '../walletlist/walletlist.service';
+import { WalletListItemService } from '../walletlist/walletlist-item.service';
+import { WalletListPermissionError } from '../../errors/walletlist.errors';
+import { SSEClientFilters } from '../../types/sse.types';
+import { Liquidation, LiquidationCascade, LiquidationsError } from '../../types/liquidations.types';
+import { prisma } from '../../core/prisma.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Raw stream filter options, as sent by the client
+ */
+export interface StreamFilterInput {
+  coin?: string;
+  coins?: string[];
+  liq_dir?: 'Long' | 'Short';
+  min_amount_dollars?: number;
+  max_amount_dollars?: number;
+  user?: string;
+  wallet_list_id?: number;
+}
+
+/**
+ * Service resolving and applying live stream filters (shared by SSE and WebSocket)
+ * Wallet lists are resolved to their addresses once, with the same permission rules as /walletlists
+ * Follows the Singleton pattern as per architecture
+ */
+export class StreamFiltersService {
+  private static instance: StreamFiltersService;
+
+  private static readonly PAGE_LIMIT = 100; // Max page size of the wallet list repository
+  private static readonly MAX_PAGES = 50;   // Max 5000 addresses per wallet list
+
+  private readonly authService: AuthService;
+  private readonly walletListService: WalletListService;
+  private readonly walletListItemService: WalletListItemService;
+
+  private constructor() {
+    this.authService = AuthService.getInstance();
+    this.walletListService = new WalletListService();
+    this.walletListItemService = new WalletListItemService();
+  }
+
+  public static getInstance(): StreamFiltersService {
+    if (!StreamFiltersService.instance) {
+      StreamFiltersService.instance = new StreamFiltersService();
+    }
+    return StreamFiltersService.instance;
+  }
+
+  /**
+   * Build client filters from the stream options
+   * accessToken (Privy) is only needed to follow a private wallet list
+   */
+  public async resolveFilters(input: StreamFilterInput, accessToken?: string): Promise<SSEClientFilters> {
+    const filters: SSEClientFilters = {
+      coin: input.coin,
+      coins: input.coins,
+      liqDir: input.liq_dir,
+      minAmountDollars: input.min_amount_dollars,
+      maxAmountDollars: input.max_amount_dollars,
+      user: input.user
+    };
+
+    if (input.wallet_list_id !== undefined) {
+      filters.walletListId = input.wallet_list_id;
+      filters.walletAddresses = await this.resolveWalletListAddresses(input.wallet_list_id, accessToken);
+    }
+
+    return filters;
+  }
+
+  /**
+   * Check a liquidation against client preferences
+   */
+  public matchesLiquidation(liq: Liquidation, filters: SSEClientFilters): boolean {
+    // Coin filters
+    if (!this.matchesCoin(liq.coin, filters)) {
+      return false;
+    }
+    // Side filter
+    if (filters.liqDir && liq.liq_dir !== filters.liqDir) {
+      return false;
+    }
+    // Amount range filters
+    if (filters.minAmountDollars && liq.notional_total < filters.minAmountDollars) {
+      return false;
+    }
+    if (filters.maxAmountDollars && liq.notional_total > filters.maxAmountDollars) {
+      return false;
+    }
+    // User (wallet address) filter
+    if (filters.user && liq.liquidated_user.toLowerCase() !== filters.user.toLowerCase()) {
+      return false;
+    }
+    // Wallet list filter
+    if (filters.walletAddresses && !filters.walletAddresses.has(liq.liquidated_user.toLowerCase())) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Cascades are market-wide: only the coin filters apply
+   */
+  public matchesCascade(cascade: LiquidationCascade, filters: SSEClientFilters): boolean {
+    return this.matchesCoin(cascade.coin, filters);
+  }
+
+  private matchesCoin(coin: string, filters: SSEClientFilters): boolean {
+    const normalizedCoin = coin.toUpperCase();
+    if (filters.coin && normalizedCoin !== filters.coin.toUpperCase()) {
+      return false;
+    }
+    return !filters.coins || filters.coins.includes(normalizedCoin);
+  }
+
+  /**
+   * Get the addresses of a wallet list the caller can read
+   * Owners can follow their private lists, anyone can follow a public list
+   */
+  private async resolveWalletListAddresses(walletListId: number, accessToken?: string): Promise<Set<string>> {
+    const userId = accessToken ? await this.getUserId(accessToken) : null;
+    const addresses = new Set<string>();
+    let page = 1;
+    let hasNext = true;
+
+    if (userId === null) {
+      const walletList = await this.walletListService.getById(walletListId);
+      if (!walletList.isPublic) {
+        throw new WalletListPermissionError('Access denied to private wallet list');
+      }
+    }
+
+    while (hasNext && page <= StreamFiltersService.MAX_PAGES) {
+      const query = { page, limit: StreamFiltersService.PAGE_LIMIT };
+      const result = userId !== null
+        ? await this.walletListItemService.getByWalletListWithPermission(walletListId, userId, query)
+        : await this.walletListItemService.getAll({ ...query, walletListId });
+
+      for (const item of result.data) {
+        addresses.add(item.userWallet.Wallet.address.toLowerCase());
+      }
+
+      hasNext = result.pagination.hasNext;
+      page++;
+    }
+
+    if (hasNext) {
+      logDeduplicator.warn('Wallet list truncated for live stream', {
+        walletListId,
+        addresses: addresses.size
+      });
+    }
+
+    return addresses;
+  }
+
+  private async getUserId(accessToken: string): Promise<number | null> {
+    let privyUserId: string | undefined;
+
+    try {
+      const payload = await this.authService.verifyToken(accessToken);
+      privyUserId = payload.sub;
+    } catch {
+      throw new LiquidationsError('Invalid or expired token', 401, 'TOKEN_VALIDATION_ERROR');
+    }
+
+    if (!privyUserId) {
+      throw new LiquidationsError('Invalid token payload', 401, 'INVALID_PAYLOAD');
+    }
+
+    const user = await prisma.user.findUnique({ where: { privyUserId } });
+    return user ? user.id : null;
+  }
+}
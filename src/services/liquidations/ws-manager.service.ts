@@ -0,0 +1,458 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+import {
+  WSClient,
+  WSServerMessage,
+  WSConnectionStats,
+  SSEBroadcastMessage
+} from '../../types/sse.types';
+import { LiquidationsError } from '../../types/liquidations.types';
+import { WalletListError } from '../../errors/walletlist.errors';
+import { LIVE_STREAM_CONFIG } from '../../constants/liquidations.constants';
+import { SECURITY_CONSTANTS } from '../../constants/security.constants';
+import { wsClientMessageSchema, WSClientMessage } from '../../schemas/sse.schema';
+import { StreamFiltersService } from './stream-filters.service';
+
+/**
+ * WebSocket Manager Service
+ * WebSocket transport for real-time liquidations, alongside SSEManagerService
+ *
+ * Features:
+ * - Same Redis Pub/Sub fan-out and filter semantics as SSE
+ * - Named subscriptions, changed mid-connection with subscribe/unsubscribe messages
+ * - Same connection limits and heartbeat interval as SSE (ping/pong + heartbeat event)
+ */
+export class WSManagerService {
+  private static instance: WSManagerService;
+
+  // Configuration
+  public static readonly PATH = '/liquidations/ws';
+  private static readonly HEARTBEAT_INTERVAL_MS = LIVE_STREAM_CONFIG.HEARTBEAT_INTERVAL_MS;
+  private static readonly MAX_CONNECTIONS_PER_IP = LIVE_STREAM_CONFIG.MAX_CONNECTIONS_PER_IP;
+  private static readonly MAX_TOTAL_CONNECTIONS = LIVE_STREAM_CONFIG.MAX_TOTAL_CONNECTIONS;
+  private static readonly REDIS_CHANNEL = LIVE_STREAM_CONFIG.REDIS_CHANNEL;
+  private static readonly MAX_SUBSCRIPTIONS = 10;              // Per connection
+  private static readonly MAX_MESSAGES_PER_MINUTE = 30;        // Client messages per connection
+  private static readonly MAX_PAYLOAD_BYTES = 16 * 1024;
+
+  // State
+  private wss: WebSocketServer | null = null;
+  private clients: Map<string, WSClient> = new Map();
+  private ipConnectionCount: Map<string, number> = new Map();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private isSubscribed = false;
+
+  private readonly streamFilters: StreamFiltersService;
+
+  private constructor() {
+    this.streamFilters = StreamFiltersService.getInstance();
+  }
+
+  public static getInstance(): WSManagerService {
+    if (!WSManagerService.instance) {
+      WSManagerService.instance = new WSManagerService();
+    }
+    return WSManagerService.instance;
+  }
+
+  /**
+   * Handle WebSocket upgrades on the HTTP server
+   */
+  public attach(server: Server): void {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({
+      noServer: true,
+      maxPayload: WSManagerService.MAX_PAYLOAD_BYTES
+    });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(req, socket, head);
+    });
+
+    logDeduplicator.info('WebSocket server attached', { path: WSManagerService.PATH });
+  }
+
+  /**
+   * Initialize the WebSocket manager
+   * - Subscribe to Redis pub/sub for cross-instance communication
+   * - Start heartbeat timer
+   */
+  public async initialize(): Promise<void> {
+    if (this.isSubscribed) {
+      logDeduplicator.warn('WebSocket Manager already initialized');
+      return;
+    }
+
+    await redisService.subscribe(
+      WSManagerService.REDIS_CHANNEL,
+      (message: string) => this.handleBroadcastMessage(message)
+    );
+    this.isSubscribed = true;
+
+    this.startHeartbeat();
+
+    logDeduplicator.info('WebSocket Manager initialized', {
+      channel: WSManagerService.REDIS_CHANNEL,
+      heartbeatIntervalMs: WSManagerService.HEARTBEAT_INTERVAL_MS
+    });
+  }
+
+  /**
+   * Check path, origin and connection limits before accepting the upgrade
+   */
+  private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== WSManagerService.PATH || !this.wss) {
+      socket.destroy();
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (
+      process.env.NODE_ENV !== 'development' &&
+      origin &&
+      !SECURITY_CONSTANTS.ALLOWED_ORIGINS.includes(origin as typeof SECURITY_CONSTANTS.ALLOWED_ORIGINS[number])
+    ) {
+      logDeduplicator.warn('WebSocket blocked origin', { origin });
+      this.rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    const ip = req.socket.remoteAddress || 'unknown';
+
+    if (this.clients.size >= WSManagerService.MAX_TOTAL_CONNECTIONS) {
+      logDeduplicator.warn('WebSocket max total connections reached', {
+        current: this.clients.size,
+        max: WSManagerService.MAX_TOTAL_CONNECTIONS
+      });
+      this.rejectUpgrade(socket, 429, 'Too Many Requests');
+      return;
+    }
+
+    const currentIpCount = this.ipConnectionCount.get(ip) || 0;
+    if (currentIpCount >= WSManagerService.MAX_CONNECTIONS_PER_IP) {
+      logDeduplicator.warn('WebSocket max connections per IP reached', {
+        ip,
+        current: currentIpCount,
+        max: WSManagerService.MAX_CONNECTIONS_PER_IP
+      });
+      this.rejectUpgrade(socket, 429, 'Too Many Requests');
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      this.addClient(ws, req, ip);
+    });
+  }
+
+  private rejectUpgrade(socket: Duplex, statusCode: number, reason: string): void {
+    socket.write(`HTTP/1.1 ${statusCode} ${reason}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  }
+
+  /**
+   * Register an accepted connection
+   * Clients receive nothing until they send a subscribe message
+   */
+  private addClient(socket: WebSocket, req: IncomingMessage, ip: string): void {
+    const authHeader = req.headers.authorization;
+    const client: WSClient = {
+      id: randomUUID(),
+      socket,
+      subscriptions: new Map(),
+      connectedAt: Date.now(),
+      ip,
+      isAlive: true,
+      accessToken: authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined,
+      messageCount: 0,
+      messageWindowStart: Date.now()
+    };
+
+    this.clients.set(client.id, client);
+    this.ipConnectionCount.set(ip, (this.ipConnectionCount.get(ip) || 0) + 1);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+    socket.on('message', (data: RawData) => {
+      this.handleClientMessage(client, data).catch(error => {
+        logDeduplicator.error('WebSocket message handling failed', {
+          clientId: client.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    });
+    socket.on('close', () => this.removeClient(client.id));
+    socket.on('error', () => this.removeClient(client.id));
+
+    this.send(client, {
+      type: 'connected',
+      data: null,
+      timestamp: new Date().toISOString()
+    });
+
+    logDeduplicator.info('WebSocket client connected', {
+      clientId: client.id,
+      ip,
+      totalClients: this.clients.size
+    });
+  }
+
+  /**
+   * Remove a client connection
+   */
+  public removeClient(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const currentIpCount = this.ipConnectionCount.get(client.ip) || 0;
+    if (currentIpCount <= 1) {
+      this.ipConnectionCount.delete(client.ip);
+    } else {
+      this.ipConnectionCount.set(client.ip, currentIpCount - 1);
+    }
+
+    this.clients.delete(clientId);
+
+    if (client.socket.readyState === WebSocket.OPEN) {
+      client.socket.terminate();
+    }
+
+    logDeduplicator.info('WebSocket client disconnected', {
+      clientId,
+      ip: client.ip,
+      totalClients: this.clients.size
+    });
+  }
+
+  /**
+   * Handle subscribe/unsubscribe messages
+   */
+  private async handleClientMessage(client: WSClient, data: RawData): Promise<void> {
+    const now = Date.now();
+    if (now - client.messageWindowStart >= 60_000) {
+      client.messageWindowStart = now;
+      client.messageCount = 0;
+    }
+    client.messageCount++;
+
+    if (client.messageCount > WSManagerService.MAX_MESSAGES_PER_MINUTE) {
+      this.sendError(client, 'Too many messages, slow down', 'RATE_LIMIT_EXCEEDED');
+      return;
+    }
+
+    let message: WSClientMessage;
+    try {
+      const parsed = wsClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      if (!parsed.success) {
+        this.sendError(client, parsed.error.issues.map(issue => issue.message).join(', '), 'INVALID_MESSAGE');
+        return;
+      }
+      message = parsed.data;
+    } catch {
+      this.sendError(client, 'Messages must be valid JSON', 'INVALID_MESSAGE');
+      return;
+    }
+
+    if (message.type === 'unsubscribe') {
+      const ids = message.id !== undefined ? [message.id] : [...client.subscriptions.keys()];
+      const removed = ids.filter(id => client.subscriptions.delete(id));
+      this.send(client, {
+        type: 'unsubscribed',
+        data: { ids: removed },
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    if (!client.subscriptions.has(message.id) && client.subscriptions.size >= WSManagerService.MAX_SUBSCRIPTIONS) {
+      this.sendError(client, `Maximum ${WSManagerService.MAX_SUBSCRIPTIONS} subscriptions per connection`, 'SUBSCRIPTION_LIMIT');
+      return;
+    }
+
+    try {
+      const filters = await this.streamFilters.resolveFilters(
+        message.filters,
+        message.access_token ?? client.accessToken
+      );
+
+      // The client may have disconnected while the wallet list was resolved
+      if (!this.clients.has(client.id)) return;
+
+      client.subscriptions.set(message.id, filters);
+
+      const { walletAddresses, ...publicFilters } = filters;
+      this.send(client, {
+        type: 'subscribed',
+        data: {
+          id: message.id,
+          filters: publicFilters,
+          walletAddressesCount: walletAddresses?.size
+        },
+        timestamp: new Date().toISOString()
+      });
+
+      logDeduplicator.info('WebSocket subscription updated', {
+        clientId: client.id,
+        subscriptionId: message.id,
+        filters: message.filters,
+        subscriptions: client.subscriptions.size
+      });
+    } catch (error) {
+      if (error instanceof LiquidationsError || error instanceof WalletListError) {
+        this.sendError(client, error.message, error.code);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle broadcast message from Redis pub/sub
+   * A liquidation matching several subscriptions of a client is sent once, with all matched IDs
+   */
+  private handleBroadcastMessage(messageStr: string): void {
+    if (this.clients.size === 0) return;
+
+    try {
+      const message: SSEBroadcastMessage = JSON.parse(messageStr);
+
+      for (const client of this.clients.values()) {
+        if (client.subscriptions.size === 0) continue;
+
+        message.newLiquidations.forEach((liquidation, index) => {
+          const matched = [...client.subscriptions.entries()]
+            .filter(([, filters]) => this.streamFilters.matchesLiquidation(liquidation, filters))
+            .map(([id]) => id);
+
+          if (matched.length > 0) {
+            this.send(client, {
+              type: 'liquidation',
+              data: liquidation,
+              id: message.streamIds?.[index],
+              subscriptions: matched,
+              timestamp: message.timestamp
+            });
+          }
+        });
+
+        for (const cascade of message.cascades || []) {
+          const matched = [...client.subscriptions.entries()]
+            .filter(([, filters]) => this.streamFilters.matchesCascade(cascade, filters))
+            .map(([id]) => id);
+
+          if (matched.length > 0) {
+            this.send(client, {
+              type: 'cascade',
+              data: cascade,
+              subscriptions: matched,
+              timestamp: message.timestamp
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logDeduplicator.error('WebSocket broadcast message parse error', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private sendError(client: WSClient, message: string, code: string): void {
+    this.send(client, {
+      type: 'error',
+      data: { message, code },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Send a message to a client
+   */
+  private send(client: WSClient, message: WSServerMessage): void {
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+
+    client.socket.send(JSON.stringify(message), (error) => {
+      if (error) {
+        // Client likely disconnected
+        logDeduplicator.warn('WebSocket send failed, removing client', {
+          clientId: client.id,
+          error: error.message
+        });
+        this.removeClient(client.id);
+      }
+    });
+  }
+
+  /**
+   * Start heartbeat timer
+   * Connections that did not answer the previous ping are terminated
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      const now = new Date().toISOString();
+
+      for (const client of this.clients.values()) {
+        if (!client.isAlive) {
+          logDeduplicator.info('WebSocket client missed heartbeat', { clientId: client.id });
+          this.removeClient(client.id);
+          continue;
+        }
+
+        client.isAlive = false;
+        client.socket.ping();
+        this.send(client, {
+          type: 'heartbeat',
+          data: null,
+          timestamp: now
+        });
+      }
+    }, WSManagerService.HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop heartbeat and close all connections
+   */
+  public shutdown(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const client of this.clients.values()) {
+      try {
+        client.socket.close(1001, 'Server shutting down');
+      } catch {
+        // Ignore errors during shutdown
+      }
+    }
+    this.clients.clear();
+    this.ipConnectionCount.clear();
+    this.wss?.close();
+
+    logDeduplicator.info('WebSocket Manager shutdown complete');
+  }
+
+  /**
+   * Get current connection stats
+   */
+  public getStats(): WSConnectionStats {
+    let totalSubscriptions = 0;
+    for (const client of this.clients.values()) {
+      totalSubscriptions += client.subscriptions.size;
+    }
+
+    return {
+      totalConnections: this.clients.size,
+      uniqueIps: this.ipConnectionCount.size,
+      totalSubscriptions
+    };
+  }
+}
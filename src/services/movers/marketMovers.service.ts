@@ -0,0 +1,388 @@
+import {
+  MoverAnomaly,
+  MoverAnomalyType,
+  MoverMarketType,
+  MoversQueryParams,
+  MoversResponse
+} from '../../types/movers.types';
+import { MarketData, PerpMarketData } from '../../types/market.types';
+import { MOVERS_CONFIG } from '../../constants/movers.constants';
+import { redisService } from '../../core/redis.service';
+import { marketCandleRepository } from '../../repositories/marketCandle.repository';
+import { MoversSSEManagerService } from './movers-sse-manager.service';
+import { getWindowStats, isOutlier, WindowStats } from './moverStats';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Market snapshot taken from the spot / perp caches
+ */
+interface MarketSample {
+  market: string;
+  price: number;
+  dayVolume: number;
+  change24h: number;
+  openInterestUsd: number | null;
+}
+
+/**
+ * Per-market detection state
+ * Changes are 1-minute deltas between successive samples, kept over the z-score window
+ */
+interface MarketState {
+  last: (MarketSample & { timeMs: number }) | null;
+  priceChanges: number[];
+  volumeChanges: number[];
+  oiChanges: number[];
+  buckets: { timeMs: number; high: number; low: number }[];
+}
+
+/**
+ * Service for market movers
+ * Samples the cached spot / perp markets once per minute and detects anomalies:
+ * - price, volume and open interest changes far from the trailing window (z-score)
+ * - new 24h highs / lows
+ * Anomalies are stored in a capped Redis feed and pushed on the movers SSE channel
+ */
+export class MarketMoversService {
+  private static instance: MarketMoversService;
+
+  // A gap longer than this between two samples resets the change series
+  private static readonly MAX_SAMPLE_GAP_MS = 3 * MOVERS_CONFIG.SAMPLE_INTERVAL_MS;
+  private static readonly COOLDOWN_KEY_PREFIX = 'market:movers:cooldown';
+
+  private readonly SPOT_UPDATE_CHANNEL = 'spot:data:updated';
+  private readonly PERP_UPDATE_CHANNEL = 'perp:data:updated';
+  private readonly SPOT_MARKET_CACHE_KEY = 'spot:markets';
+  private readonly PERP_MARKET_CACHE_KEY = 'perp:markets';
+
+  private states: Map<string, MarketState> = new Map();
+  private lastSampleAt: Record<MoverMarketType, number> = { spot: 0, perp: 0 };
+  private warmUpPromise: Promise<void> | null = null;
+
+  private isPolling = false;
+  private isSubscribed = false;
+
+  private readonly sseManager: MoversSSEManagerService;
+
+  private constructor() {
+    this.sseManager = MoversSSEManagerService.getInstance();
+  }
+
+  public static getInstance(): MarketMoversService {
+    if (!MarketMoversService.instance) {
+      MarketMoversService.instance = new MarketMoversService();
+    }
+    return MarketMoversService.instance;
+  }
+
+  /**
+   * Start sampling on every spot / perp cache update
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Market movers detection already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      this.subscribe(this.SPOT_UPDATE_CHANNEL, 'spot');
+      this.subscribe(this.PERP_UPDATE_CHANNEL, 'perp');
+      this.isSubscribed = true;
+    }
+
+    logDeduplicator.info('Market movers detection started', {
+      sampleIntervalMs: MOVERS_CONFIG.SAMPLE_INTERVAL_MS,
+      zScoreWindow: MOVERS_CONFIG.ZSCORE_WINDOW,
+      zScoreThreshold: MOVERS_CONFIG.ZSCORE_THRESHOLD
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    logDeduplicator.info('Market movers detection stopped');
+  }
+
+  /**
+   * Recent anomalies, newest first
+   */
+  public async getMovers(params: MoversQueryParams): Promise<MoversResponse> {
+    const sinceMs = Date.now() - params.hours * 60 * 60 * 1000;
+    const entries = await redisService.getClient().lrange(MOVERS_CONFIG.FEED_KEY, 0, MOVERS_CONFIG.FEED_MAX_SIZE - 1);
+
+    const matched = entries
+      .map(entry => JSON.parse(entry) as MoverAnomaly)
+      .filter(anomaly => anomaly.timeMs >= sinceMs && this.sseManager.matchesFilters(anomaly, params));
+
+    const byType: Record<MoverAnomalyType, number> = {
+      price_zscore: 0,
+      volume_zscore: 0,
+      oi_zscore: 0,
+      new_high_24h: 0,
+      new_low_24h: 0
+    };
+    matched.forEach(anomaly => byType[anomaly.type]++);
+
+    return {
+      data: matched.slice(0, params.limit),
+      metadata: {
+        total: matched.length,
+        byType,
+        since: new Date(sinceMs).toISOString(),
+        zScoreThreshold: MOVERS_CONFIG.ZSCORE_THRESHOLD,
+        trackedMarkets: this.states.size
+      }
+    };
+  }
+
+  private subscribe(channel: string, marketType: MoverMarketType): void {
+    redisService.subscribe(channel, async (message) => {
+      try {
+        const { type, timestamp } = JSON.parse(message);
+        if (type === 'DATA_UPDATED') {
+          await this.handleDataUpdated(marketType, timestamp ?? Date.now());
+        }
+      } catch (error) {
+        logDeduplicator.error('Error processing market movers update:', {
+          marketType,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+  }
+
+  /**
+   * Take one sample per SAMPLE_INTERVAL_MS and market type, detect anomalies then publish them
+   */
+  private async handleDataUpdated(marketType: MoverMarketType, timestamp: number): Promise<void> {
+    if (!this.isPolling || timestamp - this.lastSampleAt[marketType] < MOVERS_CONFIG.SAMPLE_INTERVAL_MS) {
+      return;
+    }
+    this.lastSampleAt[marketType] = timestamp;
+
+    await this.warmUp();
+
+    const samples = marketType === 'spot' ? await this.getSpotSamples() : await this.getPerpSamples();
+    const candidates = samples.flatMap(sample => this.processSample(marketType, sample, timestamp));
+    if (candidates.length === 0) return;
+
+    // Cooldown shared between instances: only the first instance to claim an anomaly publishes it
+    const anomalies: MoverAnomaly[] = [];
+    for (const anomaly of candidates) {
+      const claimed = await redisService.getClient().set(
+        `${MarketMoversService.COOLDOWN_KEY_PREFIX}:${anomaly.marketType}:${anomaly.market}:${anomaly.type}:${anomaly.direction}`,
+        anomaly.id,
+        'EX',
+        MOVERS_CONFIG.COOLDOWN_SECONDS,
+        'NX'
+      );
+      if (claimed) anomalies.push(anomaly);
+    }
+    if (anomalies.length === 0) return;
+
+    await redisService.getClient()
+      .pipeline()
+      .lpush(MOVERS_CONFIG.FEED_KEY, ...anomalies.map(anomaly => JSON.stringify(anomaly)))
+      .ltrim(MOVERS_CONFIG.FEED_KEY, 0, MOVERS_CONFIG.FEED_MAX_SIZE - 1)
+      .exec();
+    await this.sseManager.broadcastAnomalies(anomalies);
+
+    logDeduplicator.info('Market movers anomalies detected', {
+      marketType,
+      count: anomalies.length,
+      skippedByCooldown: candidates.length - anomalies.length
+    });
+  }
+
+  /**
+   * Compare a sample with the market state, then add it to the state
+   */
+  private processSample(marketType: MoverMarketType, sample: MarketSample, timeMs: number): MoverAnomaly[] {
+    const key = `${marketType}:${sample.market}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = { last: null, priceChanges: [], volumeChanges: [], oiChanges: [], buckets: [] };
+      this.states.set(key, state);
+    }
+
+    const anomalies: MoverAnomaly[] = [];
+    const isLiquid = sample.dayVolume >= MOVERS_CONFIG.MIN_DAY_VOLUME_USD;
+    const build = (
+      type: MoverAnomalyType,
+      direction: MoverAnomaly['direction'],
+      value: number,
+      stats: WindowStats | null,
+      previousExtreme: number | null = null
+    ): MoverAnomaly => ({
+      id: `${timeMs}-${marketType}-${sample.market}-${type}`,
+      type,
+      marketType,
+      market: sample.market,
+      direction,
+      price: sample.price,
+      value: stats ? this.round(value) : value,
+      zScore: stats ? this.round((value - stats.mean) / stats.stdDev) : null,
+      mean: stats ? this.round(stats.mean) : null,
+      stdDev: stats ? this.round(stats.stdDev) : null,
+      previousExtreme,
+      change24h: sample.change24h,
+      volume24h: sample.dayVolume,
+      openInterestUsd: sample.openInterestUsd,
+      timeMs,
+      time: new Date(timeMs).toISOString()
+    });
+
+    // New 24h high / low, against the price buckets before this sample
+    const windowStart = timeMs - MOVERS_CONFIG.HIGH_LOW_WINDOW_MS;
+    state.buckets = state.buckets.filter(bucket => bucket.timeMs >= windowStart);
+    const coverage = state.buckets.length > 0 ? timeMs - state.buckets[0].timeMs : 0;
+    if (isLiquid && coverage >= MOVERS_CONFIG.MIN_HIGH_LOW_COVERAGE_MS) {
+      const high = Math.max(...state.buckets.map(bucket => bucket.high));
+      const low = Math.min(...state.buckets.map(bucket => bucket.low));
+      if (sample.price > high) anomalies.push(build('new_high_24h', 'up', sample.price, null, high));
+      if (sample.price < low) anomalies.push(build('new_low_24h', 'down', sample.price, null, low));
+    }
+    this.addToBuckets(state, sample.price, timeMs);
+
+    // 1-minute changes against the trailing window
+    const last = state.last;
+    if (last && timeMs - last.timeMs <= MarketMoversService.MAX_SAMPLE_GAP_MS) {
+      const priceChange = ((sample.price - last.price) / last.price) * 100;
+      // dayNtlVlm is a rolling 24h volume: its delta is bounded to 0 when trades leaving the window exceed new ones
+      const volumeChange = Math.max(0, sample.dayVolume - last.dayVolume);
+      const oiChange = sample.openInterestUsd !== null && last.openInterestUsd !== null
+        ? sample.openInterestUsd - last.openInterestUsd
+        : null;
+
+      if (isLiquid) {
+        const priceStats = getWindowStats(state.priceChanges);
+        if (priceStats && isOutlier(priceChange, priceStats)) {
+          anomalies.push(build('price_zscore', priceChange >= 0 ? 'up' : 'down', priceChange, priceStats));
+        }
+
+        // Only volume surges are reported
+        const volumeStats = getWindowStats(state.volumeChanges);
+        if (volumeStats && volumeChange > volumeStats.mean && isOutlier(volumeChange, volumeStats)) {
+          anomalies.push(build('volume_zscore', 'up', volumeChange, volumeStats));
+        }
+
+        const oiStats = getWindowStats(state.oiChanges);
+        if (oiChange !== null && oiStats && isOutlier(oiChange, oiStats)) {
+          anomalies.push(build('oi_zscore', oiChange >= 0 ? 'up' : 'down', oiChange, oiStats));
+        }
+      }
+
+      this.pushChange(state.priceChanges, priceChange);
+      this.pushChange(state.volumeChanges, volumeChange);
+      if (oiChange !== null) this.pushChange(state.oiChanges, oiChange);
+    } else if (last) {
+      // Polling gap: the next delta would span several minutes
+      state.priceChanges = [];
+      state.volumeChanges = [];
+      state.oiChanges = [];
+    }
+
+    state.last = { ...sample, timeMs };
+    return anomalies;
+  }
+
+  /**
+   * Seed the 24h highs / lows from the stored 5m candles, once
+   * Without it, new highs / lows could only be detected after MIN_HIGH_LOW_COVERAGE_MS of uptime
+   */
+  private warmUp(): Promise<void> {
+    if (!this.warmUpPromise) {
+      this.warmUpPromise = (async () => {
+        try {
+          const candles = await marketCandleRepository.findHighLowSince(
+            '5m',
+            Date.now() - MOVERS_CONFIG.HIGH_LOW_WINDOW_MS
+          );
+          for (const candle of candles) {
+            const key = `${candle.marketType}:${candle.market}`;
+            let state = this.states.get(key);
+            if (!state) {
+              state = { last: null, priceChanges: [], volumeChanges: [], oiChanges: [], buckets: [] };
+              this.states.set(key, state);
+            }
+            state.buckets.push({ timeMs: candle.openTimeMs, high: candle.high, low: candle.low });
+          }
+          logDeduplicator.info('Market movers 24h highs / lows seeded from candles', {
+            candles: candles.length,
+            markets: this.states.size
+          });
+        } catch (error) {
+          logDeduplicator.warn('Market movers warm-up failed, 24h highs / lows start empty', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      })();
+    }
+    return this.warmUpPromise;
+  }
+
+  private addToBuckets(state: MarketState, price: number, timeMs: number): void {
+    const bucketTimeMs = Math.floor(timeMs / MOVERS_CONFIG.HIGH_LOW_BUCKET_MS) * MOVERS_CONFIG.HIGH_LOW_BUCKET_MS;
+    const current = state.buckets[state.buckets.length - 1];
+    if (current && current.timeMs === bucketTimeMs) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+    } else {
+      state.buckets.push({ timeMs: bucketTimeMs, high: price, low: price });
+    }
+  }
+
+  private pushChange(changes: number[], value: number): void {
+    changes.push(value);
+    if (changes.length > MOVERS_CONFIG.ZSCORE_WINDOW) {
+      changes.shift();
+    }
+  }
+
+  /**
+   * Spot samples: midPx when available (exposed as `liquidity` in the cache), markPx otherwise
+   * A token quoted against several quote tokens shares one name: only its oldest pair (lowest marketIndex)
+   * is sampled, as for the spot candles, so prices and volumes of different pairs are not mixed
+   */
+  private async getSpotSamples(): Promise<MarketSample[]> {
+    const raw = await redisService.get(this.SPOT_MARKET_CACHE_KEY);
+    if (!raw) return [];
+
+    const marketsByName = new Map<string, MarketData>();
+    for (const market of JSON.parse(raw) as MarketData[]) {
+      const existing = marketsByName.get(market.name);
+      if (!existing || market.marketIndex < existing.marketIndex) {
+        marketsByName.set(market.name, market);
+      }
+    }
+
+    return Array.from(marketsByName.values())
+      .map(market => ({
+        market: market.name,
+        price: market.liquidity > 0 ? market.liquidity : market.price,
+        dayVolume: market.volume,
+        change24h: market.change24h,
+        openInterestUsd: null
+      }))
+      .filter(sample => Number.isFinite(sample.price) && sample.price > 0);
+  }
+
+  private async getPerpSamples(): Promise<MarketSample[]> {
+    const raw = await redisService.get(this.PERP_MARKET_CACHE_KEY);
+    if (!raw) return [];
+
+    return (JSON.parse(raw) as PerpMarketData[])
+      .map(market => ({
+        market: market.name,
+        price: market.price,
+        dayVolume: market.volume,
+        change24h: market.change24h,
+        openInterestUsd: market.openInterest * market.price
+      }))
+      .filter(sample => Number.isFinite(sample.price) && sample.price > 0);
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+}
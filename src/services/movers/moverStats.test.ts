@@ -0,0 +1,34 @@
+import { getWindowStats, isOutlier } from './moverStats';
+import { MOVERS_CONFIG } from '../../constants/movers.constants';
+
+// Alternating ±1 around 2: mean 2, population standard deviation 1
+const alternating = (length: number) => Array.from({ length }, (_, i) => (i % 2 === 0 ? 1 : 3));
+
+describe('getWindowStats', () => {
+  it('computes the mean and population standard deviation of the window', () => {
+    expect(getWindowStats(alternating(MOVERS_CONFIG.MIN_ZSCORE_SAMPLES))).toEqual({ mean: 2, stdDev: 1 });
+  });
+
+  it('waits for enough samples', () => {
+    expect(getWindowStats(alternating(MOVERS_CONFIG.MIN_ZSCORE_SAMPLES - 1))).toBeNull();
+  });
+
+  it('ignores a flat window', () => {
+    expect(getWindowStats(Array(MOVERS_CONFIG.MIN_ZSCORE_SAMPLES).fill(0.5))).toBeNull();
+  });
+});
+
+describe('isOutlier', () => {
+  const stats = { mean: 2, stdDev: 1 };
+  const threshold = MOVERS_CONFIG.ZSCORE_THRESHOLD;
+
+  it('flags values at least ZSCORE_THRESHOLD deviations away from the mean in both directions', () => {
+    expect(isOutlier(2 + threshold, stats)).toBe(true);
+    expect(isOutlier(2 - threshold, stats)).toBe(true);
+  });
+
+  it('keeps values within the threshold', () => {
+    expect(isOutlier(2 + threshold * 0.99, stats)).toBe(false);
+    expect(isOutlier(2, stats)).toBe(false);
+  });
+});
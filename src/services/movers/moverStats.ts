@@ -0,0 +1,27 @@
+import { MOVERS_CONFIG } from '../../constants/movers.constants';
+
+/**
+ * Mean and population standard deviation of a trailing window of changes
+ */
+export interface WindowStats {
+  mean: number;
+  stdDev: number;
+}
+
+/**
+ * Stats of the trailing window, null while the window is too short or flat
+ */
+export const getWindowStats = (changes: number[]): WindowStats | null => {
+  if (changes.length < MOVERS_CONFIG.MIN_ZSCORE_SAMPLES) return null;
+
+  const mean = changes.reduce((sum, value) => sum + value, 0) / changes.length;
+  const variance = changes.reduce((sum, value) => sum + (value - mean) ** 2, 0) / changes.length;
+  const stdDev = Math.sqrt(variance);
+  return stdDev > 0 ? { mean, stdDev } : null;
+};
+
+/**
+ * A value is an outlier when its z-score reaches ZSCORE_THRESHOLD in absolute value
+ */
+export const isOutlier = (value: number, stats: WindowStats): boolean =>
+  Math.abs(value - stats.mean) / stats.stdDev >= MOVERS_CONFIG.ZSCORE_THRESHOLD;
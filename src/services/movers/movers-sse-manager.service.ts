@@ -0,0 +1,53 @@
+import { BaseSSEManagerService } from '../../core/base.sse.manager.service';
+import { MoverAnomaly, MoversStreamFilters } from '../../types/movers.types';
+import { MOVERS_STREAM_CONFIG } from '../../constants/movers.constants';
+
+/**
+ * Movers SSE Manager Service
+ * Manages Server-Sent Events connections for the market movers anomaly feed
+ * Missed anomalies are not replayed: clients backfill with GET /market/movers
+ */
+export class MoversSSEManagerService extends BaseSSEManagerService<MoverAnomaly, MoversStreamFilters, 'anomaly'> {
+  private static instance: MoversSSEManagerService;
+
+  private constructor() {
+    super(MOVERS_STREAM_CONFIG, 'Movers', 'anomaly');
+  }
+
+  public static getInstance(): MoversSSEManagerService {
+    if (!MoversSSEManagerService.instance) {
+      MoversSSEManagerService.instance = new MoversSSEManagerService();
+    }
+    return MoversSSEManagerService.instance;
+  }
+
+  /**
+   * Broadcast new anomalies to all connected clients (all instances)
+   * Called by MarketMoversService when anomalies are detected
+   */
+  public async broadcastAnomalies(anomalies: MoverAnomaly[]): Promise<void> {
+    await this.broadcast(anomalies);
+  }
+
+  /**
+   * Check if an anomaly matches a client's filters
+   * Also used by the /market/movers feed
+   */
+  public matchesFilters(anomaly: MoverAnomaly, filters: MoversStreamFilters): boolean {
+    if (filters.marketType && anomaly.marketType !== filters.marketType) return false;
+    if (filters.types && !filters.types.includes(anomaly.type)) return false;
+    if (filters.coins && !filters.coins.includes(anomaly.market.toUpperCase())) return false;
+    if (
+      filters.minZScore !== undefined &&
+      anomaly.zScore !== null &&
+      Math.abs(anomaly.zScore) < filters.minZScore
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  protected getEventId(anomaly: MoverAnomaly): string {
+    return anomaly.id;
+  }
+}
@@ -2,6 +2,8 @@ import { PerpMarketData, PerpMarketQueryParams } from '../../types/market.types'
 import { PaginatedResponse } from '../../types/common.types';
 import { redisService } from '../../core/redis.service';
 import { PerpMarketDataError } from '../../errors/perp.errors';
+import { PerpGlobalStatsService } from './perpStats.service';
+import { MAIN_PERP_DEX } from '../../constants/perp.constants';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
 export class PerpAssetContextService {
@@ -53,13 +55,9 @@ export class PerpAssetContextService {
         throw new PerpMarketDataError('No perp market data available');
       }
       
-      let markets = JSON.parse(raw) as PerpMarketData[];
-
-      // Convertir l'openInterest en dollars pour tous les marchés
-      markets = markets.map(market => ({
-        ...market,
-        openInterest: market.openInterest * market.price
-      }));
+      // DEX principal et DEX HIP-3, pour les totaux par DEX
+      const statsService = PerpGlobalStatsService.getInstance();
+      let markets = [...JSON.parse(raw) as PerpMarketData[], ...await statsService.getHip3Markets()];
 
       // Appliquer les filtres
       if (params.token) {
@@ -73,6 +71,17 @@ export class PerpAssetContextService {
         );
       }
 
+      // Totaux par DEX sur les marchés filtrés, avant le filtre de DEX (DEX principal par défaut)
+      const dexes = await statsService.getDexTotals(markets);
+      const selectedDex = (params.dex ?? MAIN_PERP_DEX).toLowerCase();
+      markets = markets.filter(market => (market.dex || MAIN_PERP_DEX).toLowerCase() === selectedDex);
+
+      // Convertir l'openInterest en dollars pour tous les marchés
+      markets = markets.map(market => ({
+        ...market,
+        openInterest: market.openInterest * market.price
+      }));
+
       // Appliquer le tri
       const sortBy = params.sortBy || 'volume';
       const sortOrder = params.sortOrder || 'desc';
@@ -119,6 +128,7 @@ export class PerpAssetContextService {
         count: paginatedMarkets.length,
         total: markets.length,
         totalVolume,
+        dex: params.dex,
         page,
         limit,
         sortBy,
@@ -136,7 +146,8 @@ export class PerpAssetContextService {
           hasPrevious: page > 1
         },
         metadata: {
-          totalVolume
+          totalVolume,
+          dexes
         }
       };
     } catch (error) {
@@ -0,0 +1,168 @@
+import {
+  PerpAssetContext,
+  PerpBasisData,
+  PerpBasisQueryParams,
+  PerpMarket
+} from '../../types/market.types';
+import { PaginatedResponse } from '../../types/common.types';
+import { redisService } from '../../core/redis.service';
+import { PerpBasisError } from '../../errors/perp.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+export class PerpBasisService {
+  private static instance: PerpBasisService;
+
+  // Seuil d'alerte par défaut sur |basisPct|, en %
+  public static readonly DEFAULT_ALERT_THRESHOLD_PCT = 0.5;
+
+  private readonly RAW_CACHE_KEY = 'perp:raw_data';
+
+  private constructor() {}
+
+  public static getInstance(): PerpBasisService {
+    if (!PerpBasisService.instance) {
+      PerpBasisService.instance = new PerpBasisService();
+    }
+    return PerpBasisService.instance;
+  }
+
+  /**
+   * Basis mark / oracle, premium et écart des impact prices de chaque marché perp
+   * Filtres, tri et pagination identiques à getPerpMarketsData
+   */
+  public async getPerpBasisData(params: PerpBasisQueryParams = {}): Promise<PaginatedResponse<PerpBasisData>> {
+    const raw = await redisService.get(this.RAW_CACHE_KEY);
+    if (!raw) {
+      throw new PerpBasisError('No perp market data available', 503, 'PERP_DATA_UNAVAILABLE');
+    }
+
+    const threshold = params.threshold ?? PerpBasisService.DEFAULT_ALERT_THRESHOLD_PCT;
+    const [meta, assetContexts] = JSON.parse(raw) as [{ universe: PerpMarket[] }, PerpAssetContext[]];
+
+    let markets = meta.universe
+      .map((market, index) => this.toBasisData(market, assetContexts[index], threshold))
+      .filter((market): market is PerpBasisData => market !== null);
+
+    // Appliquer les filtres
+    if (params.token) {
+      markets = markets.filter(market =>
+        market.name.toLowerCase().includes(params.token!.toLowerCase())
+      );
+    }
+    if (params.pair) {
+      markets = markets.filter(market =>
+        market.name.toLowerCase().includes(params.pair!.toLowerCase())
+      );
+    }
+
+    // Les alertes portent sur tous les marchés filtrés, indépendamment de la pagination
+    const alerts = markets
+      .filter(market => market.isAlert)
+      .sort((a, b) => Math.abs(b.basisPct) - Math.abs(a.basisPct))
+      .map(market => ({ name: market.name, basisPct: market.basisPct }));
+
+    if (params.alertsOnly) {
+      markets = markets.filter(market => market.isAlert);
+    }
+
+    // Appliquer le tri
+    const sortBy = params.sortBy || 'absBasisPct';
+    const sortOrder = params.sortOrder || 'desc';
+
+    markets.sort((a, b) => {
+      const multiplier = sortOrder === 'desc' ? -1 : 1;
+
+      if (sortBy === 'name') {
+        return multiplier * a.name.localeCompare(b.name);
+      }
+
+      const valueA = sortBy === 'absBasisPct' ? Math.abs(a.basisPct) : a[sortBy];
+      const valueB = sortBy === 'absBasisPct' ? Math.abs(b.basisPct) : b[sortBy];
+
+      if (valueA === undefined || valueA === null) return 1;
+      if (valueB === undefined || valueB === null) return -1;
+
+      return multiplier * (valueA - valueB);
+    });
+
+    // Appliquer la pagination
+    const limit = params.limit || 20;
+    const page = params.page || 1;
+    const start = (page - 1) * limit;
+    const paginatedMarkets = markets.slice(start, start + limit);
+
+    logDeduplicator.info('Perp basis data retrieved successfully', {
+      count: paginatedMarkets.length,
+      total: markets.length,
+      alerts: alerts.length,
+      threshold,
+      page,
+      limit,
+      sortBy,
+      sortOrder
+    });
+
+    return {
+      data: paginatedMarkets,
+      pagination: {
+        total: markets.length,
+        page,
+        limit,
+        totalPages: Math.ceil(markets.length / limit),
+        hasNext: page < Math.ceil(markets.length / limit),
+        hasPrevious: page > 1
+      },
+      metadata: {
+        threshold,
+        alertCount: alerts.length,
+        alerts
+      }
+    };
+  }
+
+  /**
+   * Calcule la basis d'un marché, null pour les marchés sans volume ou sans prix
+   */
+  private toBasisData(market: PerpMarket, context: PerpAssetContext | undefined, threshold: number): PerpBasisData | null {
+    if (!context) return null;
+
+    const markPx = Number(context.markPx);
+    const oraclePx = Number(context.oraclePx);
+    const volume = Number(context.dayNtlVlm);
+    if (!(markPx > 0) || !(oraclePx > 0) || !(volume > 0)) return null;
+
+    const midPx = context.midPx !== null && Number(context.midPx) > 0 ? Number(context.midPx) : null;
+    const basis = markPx - oraclePx;
+    const basisPct = this.round((basis / oraclePx) * 100);
+    const premium = Number(context.premium ?? 0);
+
+    const [impactBid, impactAsk] = (context.impactPxs || []).map(Number);
+    const impactBidPx = impactBid > 0 ? impactBid : null;
+    const impactAskPx = impactAsk > 0 ? impactAsk : null;
+    const impactSpreadBps = impactBidPx !== null && impactAskPx !== null
+      ? this.round(((impactAskPx - impactBidPx) / ((impactAskPx + impactBidPx) / 2)) * 10_000)
+      : null;
+
+    return {
+      name: market.name,
+      markPx,
+      oraclePx,
+      midPx,
+      basis,
+      basisPct,
+      premium,
+      premiumPct: this.round(premium * 100),
+      impactBidPx,
+      impactAskPx,
+      impactSpreadBps,
+      funding: Number(context.funding),
+      volume,
+      openInterest: Number(context.openInterest) * markPx,
+      isAlert: Math.abs(basisPct) >= threshold
+    };
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+}
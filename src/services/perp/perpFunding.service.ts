@@ -0,0 +1,286 @@
+import {
+  FundingAverage,
+  FundingHistoryResponse,
+  FundingRankBy,
+  FundingRankEntry,
+  FundingRankingResponse,
+  PerpAssetContext,
+  PerpMarket,
+  PerpMarketData
+} from '../../types/market.types';
+import { redisService } from '../../core/redis.service';
+import { perpFundingRepository, PerpFundingSnapshotInput } from '../../repositories/perpFunding.repository';
+import { PerpFundingError } from '../../errors/perp.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+export class PerpFundingService {
+  private static instance: PerpFundingService;
+
+  private static readonly HOUR_MS = 60 * 60 * 1000;
+  private static readonly DAY_MS = 24 * PerpFundingService.HOUR_MS;
+  private static readonly HOURS_PER_YEAR = 24 * 365;
+  private static readonly SNAPSHOT_INTERVAL_MS = 60 * 1000; // Un relevé par minute suffit pour un taux horaire
+  private static readonly RETENTION_DAYS = 90;
+  private static readonly PURGE_INTERVAL_MS = PerpFundingService.DAY_MS;
+  private static readonly RANKING_CACHE_TTL = 30; // secondes
+
+  private readonly UPDATE_CHANNEL = 'perp:data:updated';
+  private readonly RAW_CACHE_KEY = 'perp:raw_data';
+  private readonly MARKET_CACHE_KEY = 'perp:markets';
+  private readonly RANKING_CACHE_PREFIX = 'perp:funding:ranking';
+
+  private isPolling = false;
+  private isSubscribed = false;
+  private lastSnapshotAt = 0;
+  private purgeInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PerpFundingService {
+    if (!PerpFundingService.instance) {
+      PerpFundingService.instance = new PerpFundingService();
+    }
+    return PerpFundingService.instance;
+  }
+
+  /**
+   * Démarre l'enregistrement des relevés de funding à chaque mise à jour du cache perp
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Perp funding snapshots already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      redisService.subscribe(this.UPDATE_CHANNEL, async (message) => {
+        try {
+          const { type } = JSON.parse(message);
+          if (type === 'DATA_UPDATED') {
+            await this.handleDataUpdated();
+          }
+        } catch (error) {
+          logDeduplicator.error('Error processing perp funding update:', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+      this.isSubscribed = true;
+    }
+
+    this.purgeInterval = setInterval(() => {
+      this.purgeOldSnapshots();
+    }, PerpFundingService.PURGE_INTERVAL_MS);
+
+    logDeduplicator.info('Perp funding snapshots started', {
+      snapshotIntervalMs: PerpFundingService.SNAPSHOT_INTERVAL_MS,
+      retentionDays: PerpFundingService.RETENTION_DAYS
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = null;
+    }
+    logDeduplicator.info('Perp funding snapshots stopped');
+  }
+
+  /**
+   * Classement des marchés par funding (plus positifs / plus négatifs)
+   * rankBy: taux courant, ou moyenne 7j / 30j issue de l'historique
+   */
+  public async getFundingRanking(rankBy: FundingRankBy, limit: number): Promise<FundingRankingResponse> {
+    const cacheKey = `${this.RANKING_CACHE_PREFIX}:${rankBy}:${limit}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as FundingRankingResponse;
+    }
+
+    const [markets, contexts] = await Promise.all([
+      this.getMarkets(),
+      this.getAssetContextsByName()
+    ]);
+
+    const now = Date.now();
+    const [averages7d, averages30d] = await Promise.all([
+      perpFundingRepository.getAverages(now - 7 * PerpFundingService.DAY_MS),
+      perpFundingRepository.getAverages(now - 30 * PerpFundingService.DAY_MS)
+    ]);
+
+    const entries: FundingRankEntry[] = markets.map(market => ({
+      coin: market.name,
+      funding: market.funding,
+      fundingApr: this.toApr(market.funding),
+      premium: Number(contexts.get(market.name)?.premium ?? 0),
+      openInterestUsd: market.openInterest * market.price,
+      avg7d: this.toAverage(averages7d.get(market.name)),
+      avg30d: this.toAverage(averages30d.get(market.name))
+    }));
+
+    const rankValue = (entry: FundingRankEntry): number | null => {
+      if (rankBy === '7d') return entry.avg7d?.funding ?? null;
+      if (rankBy === '30d') return entry.avg30d?.funding ?? null;
+      return entry.funding;
+    };
+
+    const ranked = entries
+      .filter(entry => rankValue(entry) !== null)
+      .sort((a, b) => (rankValue(b) as number) - (rankValue(a) as number));
+
+    const response: FundingRankingResponse = {
+      success: true,
+      rankBy,
+      data: {
+        mostPositive: ranked.filter(entry => (rankValue(entry) as number) > 0).slice(0, limit),
+        mostNegative: ranked.filter(entry => (rankValue(entry) as number) < 0).reverse().slice(0, limit)
+      },
+      metadata: {
+        totalMarkets: ranked.length,
+        cachedAt: new Date(now).toISOString()
+      }
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(response), PerpFundingService.RANKING_CACHE_TTL);
+    return response;
+  }
+
+  /**
+   * Historique horaire du funding d'un coin, avec moyennes 24h / 7j / 30j
+   */
+  public async getCoinFunding(coin: string, hours: number): Promise<FundingHistoryResponse> {
+    const now = Date.now();
+    const contexts = await this.getAssetContextsByName();
+    const context = Array.from(contexts.entries())
+      .find(([name]) => name.toUpperCase() === coin.toUpperCase());
+
+    const [history, averages24h, averages7d, averages30d] = await Promise.all([
+      perpFundingRepository.findHistory(coin, this.getHourStart(now) - (hours - 1) * PerpFundingService.HOUR_MS),
+      perpFundingRepository.getAverages(now - PerpFundingService.DAY_MS, coin),
+      perpFundingRepository.getAverages(now - 7 * PerpFundingService.DAY_MS, coin),
+      perpFundingRepository.getAverages(now - 30 * PerpFundingService.DAY_MS, coin)
+    ]);
+
+    if (!context && history.length === 0) {
+      throw new PerpFundingError(`Perp market ${coin} not found`, 404, 'PERP_MARKET_NOT_FOUND');
+    }
+
+    const name = context ? context[0] : history[0].coin;
+    const assetContext = context ? context[1] : null;
+
+    return {
+      success: true,
+      data: {
+        coin: name,
+        current: assetContext ? {
+          funding: Number(assetContext.funding),
+          apr: this.toApr(Number(assetContext.funding)),
+          premium: Number(assetContext.premium),
+          oraclePx: Number(assetContext.oraclePx),
+          markPx: Number(assetContext.markPx)
+        } : null,
+        averages: {
+          '24h': this.toAverage(averages24h.get(name)),
+          '7d': this.toAverage(averages7d.get(name)),
+          '30d': this.toAverage(averages30d.get(name))
+        },
+        history: history.map(point => ({
+          time: new Date(point.hourMs).toISOString(),
+          timeMs: point.hourMs,
+          funding: point.funding,
+          apr: this.toApr(point.funding),
+          premium: point.premium,
+          oraclePx: point.oraclePx,
+          markPx: point.markPx
+        }))
+      }
+    };
+  }
+
+  /**
+   * Enregistre le relevé de l'heure en cours, au plus une fois par SNAPSHOT_INTERVAL_MS
+   */
+  private async handleDataUpdated(): Promise<void> {
+    const now = Date.now();
+    if (!this.isPolling || now - this.lastSnapshotAt < PerpFundingService.SNAPSHOT_INTERVAL_MS) {
+      return;
+    }
+    this.lastSnapshotAt = now;
+
+    const raw = await redisService.get(this.RAW_CACHE_KEY);
+    if (!raw) return;
+
+    const [meta, assetContexts] = JSON.parse(raw) as [{ universe: PerpMarket[] }, PerpAssetContext[]];
+    const hourMs = this.getHourStart(now);
+
+    const snapshots: PerpFundingSnapshotInput[] = meta.universe
+      .map((market, index) => ({ market, context: assetContexts[index] }))
+      .filter(({ context }) => context && Number(context.dayNtlVlm) > 0)
+      .map(({ market, context }) => ({
+        coin: market.name,
+        hourMs,
+        funding: Number(context.funding),
+        premium: Number(context.premium ?? 0),
+        oraclePx: Number(context.oraclePx),
+        markPx: Number(context.markPx)
+      }))
+      .filter(snapshot => Number.isFinite(snapshot.funding));
+
+    await perpFundingRepository.upsertMany(snapshots);
+    logDeduplicator.info('Perp funding snapshots saved', {
+      markets: snapshots.length,
+      hour: new Date(hourMs).toISOString()
+    });
+  }
+
+  private async purgeOldSnapshots(): Promise<void> {
+    try {
+      const cutoff = Date.now() - PerpFundingService.RETENTION_DAYS * PerpFundingService.DAY_MS;
+      const deleted = await perpFundingRepository.deleteOlderThan(cutoff);
+      logDeduplicator.info('Perp funding snapshots purged', { deleted, cutoff: new Date(cutoff).toISOString() });
+    } catch (error) {
+      logDeduplicator.error('Perp funding snapshots purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async getMarkets(): Promise<PerpMarketData[]> {
+    const raw = await redisService.get(this.MARKET_CACHE_KEY);
+    if (!raw) {
+      throw new PerpFundingError('No perp market data available', 503, 'PERP_DATA_UNAVAILABLE');
+    }
+    return JSON.parse(raw) as PerpMarketData[];
+  }
+
+  private async getAssetContextsByName(): Promise<Map<string, PerpAssetContext>> {
+    const raw = await redisService.get(this.RAW_CACHE_KEY);
+    if (!raw) {
+      return new Map();
+    }
+    const [meta, assetContexts] = JSON.parse(raw) as [{ universe: PerpMarket[] }, PerpAssetContext[]];
+    return new Map(meta.universe.map((market, index) => [market.name, assetContexts[index]]));
+  }
+
+  private toAverage(average: { funding: number; samples: number } | undefined): FundingAverage | null {
+    if (!average || average.samples === 0) return null;
+    return {
+      funding: average.funding,
+      apr: this.toApr(average.funding),
+      samples: average.samples
+    };
+  }
+
+  /**
+   * Taux horaire annualisé, en %
+   */
+  private toApr(hourlyFunding: number): number {
+    return Number((hourlyFunding * PerpFundingService.HOURS_PER_YEAR * 100).toFixed(4));
+  }
+
+  private getHourStart(ms: number): number {
+    return Math.floor(ms / PerpFundingService.HOUR_MS) * PerpFundingService.HOUR_MS;
+  }
+}
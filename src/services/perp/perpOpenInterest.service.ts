@@ -0,0 +1,300 @@
+import {
+  OpenInterestChange,
+  OpenInterestHistoryResponse,
+  OpenInterestInterval,
+  OpenInterestScreenerEntry,
+  OpenInterestScreenerParams,
+  OpenInterestScreenerResponse,
+  OpenInterestSignal,
+  OpenInterestWindow,
+  PerpMarketData
+} from '../../types/market.types';
+import { redisService } from '../../core/redis.service';
+import {
+  perpOpenInterestRepository,
+  PerpOpenInterestSnapshotInput
+} from '../../repositories/perpOpenInterest.repository';
+import { PerpOpenInterestError } from '../../errors/perp.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+export class PerpOpenInterestService {
+  private static instance: PerpOpenInterestService;
+
+  private static readonly MINUTE_MS = 60 * 1000;
+  private static readonly HOUR_MS = 60 * PerpOpenInterestService.MINUTE_MS;
+  private static readonly DAY_MS = 24 * PerpOpenInterestService.HOUR_MS;
+  private static readonly SNAPSHOT_INTERVAL_MS = 5 * PerpOpenInterestService.MINUTE_MS;
+  // Un relevé plus ancien que la fenêtre de plus de 15 min n'est pas utilisé comme référence
+  private static readonly REFERENCE_MAX_AGE_MS = 15 * PerpOpenInterestService.MINUTE_MS;
+  private static readonly RETENTION_DAYS = 30;
+  private static readonly PURGE_INTERVAL_MS = PerpOpenInterestService.DAY_MS;
+  private static readonly SCREENER_CACHE_TTL = 30; // secondes
+  // Variation d'OI minimale (en %) pour qualifier une fenêtre
+  private static readonly SIGNAL_MIN_OI_CHANGE_PCT = 1;
+
+  private static readonly WINDOWS: Record<OpenInterestWindow, number> = {
+    '1h': PerpOpenInterestService.HOUR_MS,
+    '4h': 4 * PerpOpenInterestService.HOUR_MS,
+    '24h': PerpOpenInterestService.DAY_MS
+  };
+
+  private static readonly INTERVALS: Record<OpenInterestInterval, number> = {
+    '5m': PerpOpenInterestService.SNAPSHOT_INTERVAL_MS,
+    '1h': PerpOpenInterestService.HOUR_MS,
+    '1d': PerpOpenInterestService.DAY_MS
+  };
+
+  private readonly UPDATE_CHANNEL = 'perp:data:updated';
+  private readonly MARKET_CACHE_KEY = 'perp:markets';
+  private readonly SCREENER_CACHE_PREFIX = 'perp:oi:screener';
+
+  private isPolling = false;
+  private isSubscribed = false;
+  private lastSnapshotBucket = 0;
+  private purgeInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PerpOpenInterestService {
+    if (!PerpOpenInterestService.instance) {
+      PerpOpenInterestService.instance = new PerpOpenInterestService();
+    }
+    return PerpOpenInterestService.instance;
+  }
+
+  /**
+   * Démarre l'enregistrement des relevés d'OI à chaque mise à jour du cache perp
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Perp open interest snapshots already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      redisService.subscribe(this.UPDATE_CHANNEL, async (message) => {
+        try {
+          const { type, timestamp } = JSON.parse(message);
+          if (type === 'DATA_UPDATED') {
+            await this.handleDataUpdated(timestamp ?? Date.now());
+          }
+        } catch (error) {
+          logDeduplicator.error('Error processing perp open interest update:', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+      this.isSubscribed = true;
+    }
+
+    this.purgeInterval = setInterval(() => {
+      this.purgeOldSnapshots();
+    }, PerpOpenInterestService.PURGE_INTERVAL_MS);
+
+    logDeduplicator.info('Perp open interest snapshots started', {
+      snapshotIntervalMs: PerpOpenInterestService.SNAPSHOT_INTERVAL_MS,
+      retentionDays: PerpOpenInterestService.RETENTION_DAYS
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = null;
+    }
+    logDeduplicator.info('Perp open interest snapshots stopped');
+  }
+
+  /**
+   * Screener : marchés classés par variation d'OI (notionnel et %) sur 1h / 4h / 24h,
+   * avec la variation de prix sur la même fenêtre
+   */
+  public async getScreener(params: OpenInterestScreenerParams): Promise<OpenInterestScreenerResponse> {
+    const cacheKey = `${this.SCREENER_CACHE_PREFIX}:${params.window}:${params.sortBy}:${params.sortOrder}:${params.minOpenInterestUsd}:${params.limit}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as OpenInterestScreenerResponse;
+    }
+
+    const markets = await this.getMarkets();
+    const now = Date.now();
+    const windows = Object.keys(PerpOpenInterestService.WINDOWS) as OpenInterestWindow[];
+    const references = await Promise.all(windows.map(window =>
+      perpOpenInterestRepository.findLatestAt(
+        now - PerpOpenInterestService.WINDOWS[window],
+        PerpOpenInterestService.REFERENCE_MAX_AGE_MS
+      )
+    ));
+
+    const entries: OpenInterestScreenerEntry[] = markets
+      .map(market => {
+        const openInterestUsd = market.openInterest * market.price;
+        const changes = {} as Record<OpenInterestWindow, OpenInterestChange | null>;
+        windows.forEach((window, index) => {
+          changes[window] = this.computeChange(openInterestUsd, market.price, references[index].get(market.name));
+        });
+
+        return {
+          coin: market.name,
+          price: market.price,
+          openInterest: market.openInterest,
+          openInterestUsd,
+          volume24h: market.volume,
+          funding: market.funding,
+          changes
+        };
+      })
+      .filter(entry => entry.openInterestUsd >= params.minOpenInterestUsd);
+
+    const sortValue = (entry: OpenInterestScreenerEntry): number | null => {
+      if (params.sortBy === 'openInterestUsd') return entry.openInterestUsd;
+      return entry.changes[params.window]?.[params.sortBy] ?? null;
+    };
+
+    const ranked = entries
+      .filter(entry => sortValue(entry) !== null)
+      .sort((a, b) => {
+        const diff = (sortValue(a) as number) - (sortValue(b) as number);
+        return params.sortOrder === 'asc' ? diff : -diff;
+      });
+
+    const response: OpenInterestScreenerResponse = {
+      success: true,
+      data: ranked.slice(0, params.limit),
+      metadata: {
+        window: params.window,
+        sortBy: params.sortBy,
+        sortOrder: params.sortOrder,
+        totalMarkets: ranked.length,
+        cachedAt: new Date(now).toISOString()
+      }
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(response), PerpOpenInterestService.SCREENER_CACHE_TTL);
+    return response;
+  }
+
+  /**
+   * Historique d'OI d'un coin, un point par intervalle
+   * Le nom est résolu dans le cache (insensible à la casse), un marché retiré doit être nommé exactement
+   */
+  public async getCoinHistory(coin: string, interval: OpenInterestInterval, hours: number): Promise<OpenInterestHistoryResponse> {
+    const sinceMs = Date.now() - hours * PerpOpenInterestService.HOUR_MS;
+    const markets = await this.getMarkets();
+    const market = markets.find(m => m.name.toUpperCase() === coin.toUpperCase());
+    const history = await perpOpenInterestRepository.findHistory(
+      market ? market.name : coin,
+      sinceMs,
+      PerpOpenInterestService.INTERVALS[interval]
+    );
+
+    if (!market && history.length === 0) {
+      throw new PerpOpenInterestError(`Perp market ${coin} not found`, 404, 'PERP_MARKET_NOT_FOUND');
+    }
+
+    return {
+      success: true,
+      data: {
+        coin: market ? market.name : history[0].coin,
+        interval,
+        current: market ? {
+          openInterest: market.openInterest,
+          openInterestUsd: market.openInterest * market.price,
+          price: market.price
+        } : null,
+        history: history.map(point => ({
+          time: new Date(point.timeMs).toISOString(),
+          timeMs: point.timeMs,
+          openInterest: point.openInterest,
+          openInterestUsd: point.openInterestUsd,
+          price: point.price
+        }))
+      }
+    };
+  }
+
+  /**
+   * Enregistre un relevé par intervalle de SNAPSHOT_INTERVAL_MS
+   */
+  private async handleDataUpdated(timestamp: number): Promise<void> {
+    const bucket = Math.floor(timestamp / PerpOpenInterestService.SNAPSHOT_INTERVAL_MS) * PerpOpenInterestService.SNAPSHOT_INTERVAL_MS;
+    if (!this.isPolling || bucket === this.lastSnapshotBucket) {
+      return;
+    }
+    this.lastSnapshotBucket = bucket;
+
+    const raw = await redisService.get(this.MARKET_CACHE_KEY);
+    if (!raw) return;
+
+    const snapshots: PerpOpenInterestSnapshotInput[] = (JSON.parse(raw) as PerpMarketData[])
+      .filter(market => Number.isFinite(market.openInterest) && Number.isFinite(market.price))
+      .map(market => ({
+        coin: market.name,
+        timeMs: bucket,
+        openInterest: market.openInterest,
+        openInterestUsd: market.openInterest * market.price,
+        price: market.price
+      }));
+
+    await perpOpenInterestRepository.upsertMany(snapshots);
+    logDeduplicator.info('Perp open interest snapshots saved', {
+      markets: snapshots.length,
+      time: new Date(bucket).toISOString()
+    });
+  }
+
+  private async purgeOldSnapshots(): Promise<void> {
+    try {
+      const cutoff = Date.now() - PerpOpenInterestService.RETENTION_DAYS * PerpOpenInterestService.DAY_MS;
+      const deleted = await perpOpenInterestRepository.deleteOlderThan(cutoff);
+      logDeduplicator.info('Perp open interest snapshots purged', { deleted, cutoff: new Date(cutoff).toISOString() });
+    } catch (error) {
+      logDeduplicator.error('Perp open interest snapshots purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private computeChange(
+    openInterestUsd: number,
+    price: number,
+    reference: PerpOpenInterestSnapshotInput | undefined
+  ): OpenInterestChange | null {
+    if (!reference || reference.openInterestUsd <= 0 || reference.price <= 0) return null;
+
+    const oiChangeUsd = openInterestUsd - reference.openInterestUsd;
+    const oiChangePct = Number(((oiChangeUsd / reference.openInterestUsd) * 100).toFixed(2));
+    const priceChangePct = Number((((price - reference.price) / reference.price) * 100).toFixed(2));
+
+    return {
+      oiChangeUsd,
+      oiChangePct,
+      priceChangePct,
+      signal: this.getSignal(oiChangePct, priceChangePct)
+    };
+  }
+
+  /**
+   * OI en hausse : nouvelles positions (long si le prix monte, short s'il baisse)
+   * OI en baisse : fermetures (shorts rachetés si le prix monte, longs soldés s'il baisse)
+   */
+  private getSignal(oiChangePct: number, priceChangePct: number): OpenInterestSignal {
+    if (Math.abs(oiChangePct) < PerpOpenInterestService.SIGNAL_MIN_OI_CHANGE_PCT || priceChangePct === 0) {
+      return 'neutral';
+    }
+    if (oiChangePct > 0) {
+      return priceChangePct > 0 ? 'long_buildup' : 'short_buildup';
+    }
+    return priceChangePct > 0 ? 'short_covering' : 'long_unwinding';
+  }
+
+  private async getMarkets(): Promise<PerpMarketData[]> {
+    const raw = await redisService.get(this.MARKET_CACHE_KEY);
+    if (!raw) {
+      throw new PerpOpenInterestError('No perp market data available', 503, 'PERP_DATA_UNAVAILABLE');
+    }
+    return JSON.parse(raw) as PerpMarketData[];
+  }
+}
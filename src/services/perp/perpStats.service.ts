@@ -1,4 +1,5 @@
-import { PerpGlobalStats, PerpMarketData } from '../../types/market.types';
+import { PerpDex, PerpDexTotals, PerpGlobalStats, PerpMarketData } from '../../types/market.types';
+import { MAIN_PERP_DEX } from '../../constants/perp.constants';
 import { redisService } from '../../core/redis.service';
 import { logDeduplicator } from '../../utils/logDeduplicator';
 
@@ -7,6 +8,8 @@ export class PerpGlobalStatsService {
 
   private readonly UPDATE_CHANNEL = 'perp:data:updated';
   private readonly MARKET_CACHE_KEY = 'perp:markets';
+  private readonly DEX_MARKET_CACHE_KEY = 'perp:markets:hip3';
+  private readonly DEXES_CACHE_KEY = 'perp:dexes';
   private readonly VAULT_CACHE_KEY = 'vault:hlp:tvl';
   private lastUpdate: Record<string, number> = {};
 
@@ -54,7 +57,11 @@ export class PerpGlobalStatsService {
     });
   }
 
-  public async getPerpGlobalStats(): Promise<PerpGlobalStats> {
+  /**
+   * Statistiques globales perp du DEX principal, ou du DEX demandé
+   * Les totaux par DEX (dexes) portent toujours sur l'ensemble des DEX
+   */
+  public async getPerpGlobalStats(dex?: string): Promise<PerpGlobalStats> {
     try {
       // Récupérer les données des marchés perpétuels depuis le cache
       const raw = await redisService.get(this.MARKET_CACHE_KEY);
@@ -62,7 +69,10 @@ export class PerpGlobalStatsService {
         throw new Error('No perp market data available');
       }
       
-      const marketsData = JSON.parse(raw) as PerpMarketData[];
+      const allMarkets = [...JSON.parse(raw) as PerpMarketData[], ...await this.getHip3Markets()];
+      const dexes = await this.getDexTotals(allMarkets);
+      const selectedDex = (dex ?? MAIN_PERP_DEX).toLowerCase();
+      const marketsData = allMarkets.filter(market => this.getDex(market) === selectedDex);
 
       // Calculer le volume total sur 24h
       const totalVolume24h = marketsData.reduce((total: number, market: PerpMarketData) => total + market.volume, 0);
@@ -78,10 +88,12 @@ export class PerpGlobalStatsService {
       const hlpTvl = hlpTvlRaw ? JSON.parse(hlpTvlRaw) : 0;
 
       logDeduplicator.info('Perp global stats retrieved successfully', { 
+        dex,
         totalOpenInterest,
         totalVolume24h,
         totalPairs,
         hlpTvl,
+        dexes: dexes.length,
         lastUpdate: this.lastUpdate
       });
 
@@ -89,7 +101,8 @@ export class PerpGlobalStatsService {
         totalOpenInterest,
         totalVolume24h,
         totalPairs,
-        hlpTvl
+        hlpTvl,
+        dexes
       };
     } catch (error) {
       logDeduplicator.error('Error retrieving perp global stats:', { 
@@ -98,4 +111,45 @@ export class PerpGlobalStatsService {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Marchés des DEX HIP-3 (hors perp:markets, réservé au DEX principal)
+   */
+  public async getHip3Markets(): Promise<PerpMarketData[]> {
+    const raw = await redisService.get(this.DEX_MARKET_CACHE_KEY);
+    return raw ? JSON.parse(raw) as PerpMarketData[] : [];
+  }
+
+  /**
+   * Totaux par DEX : DEX principal en premier, puis par volume décroissant
+   * Les DEX connus sans marché actif apparaissent avec des totaux à 0
+   */
+  public async getDexTotals(markets: PerpMarketData[]): Promise<PerpDexTotals[]> {
+    const totals = new Map<string, PerpDexTotals>();
+    const emptyTotals = (dex: string): PerpDexTotals => ({ dex, totalPairs: 0, totalVolume24h: 0, totalOpenInterest: 0 });
+
+    const dexesRaw = await redisService.get(this.DEXES_CACHE_KEY);
+    if (dexesRaw) {
+      (JSON.parse(dexesRaw) as PerpDex[]).forEach(dex => totals.set(dex.name.toLowerCase(), emptyTotals(dex.name.toLowerCase())));
+    }
+
+    for (const market of markets) {
+      const dex = this.getDex(market);
+      const entry = totals.get(dex) ?? emptyTotals(dex);
+      entry.totalPairs++;
+      entry.totalVolume24h += market.volume;
+      entry.totalOpenInterest += market.openInterest * market.price;
+      totals.set(dex, entry);
+    }
+
+    return Array.from(totals.values()).sort((a, b) => {
+      if (a.dex === MAIN_PERP_DEX) return -1;
+      if (b.dex === MAIN_PERP_DEX) return 1;
+      return b.totalVolume24h - a.totalVolume24h;
+    });
+  }
+
+  private getDex(market: PerpMarketData): string {
+    return (market.dex || MAIN_PERP_DEX).toLowerCase();
+  }
+}
@@ -0,0 +1,203 @@
+import { MarketScreen } from '@prisma/client';
+import { MarketData, PerpMarketData } from '../../types/market.types';
+import { ScreenerQuery, ScreenerResult, ScreenerRow } from '../../types/screener.types';
+import { SCREENER_CONSTANTS } from '../../constants/screener.constants';
+import { ScreenCreateInput, ScreenUpdateInput } from '../../schemas/screener.schema';
+import { marketScreenRepository } from '../../repositories/marketScreen.repository';
+import {
+  ScreenAlreadyExistsError,
+  ScreenerError,
+  ScreenLimitExceededError,
+  ScreenNotFoundError
+} from '../../errors/screener.errors';
+import {
+  compareRows,
+  evaluateExpression,
+  normalizeExpression,
+  parseFilterExpression,
+  parseSortExpression
+} from './screenerExpression';
+import { redisService } from '../../core/redis.service';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Service for the market screener
+ * Filter expressions run against the cached spot / perp market arrays, saved screens live in Postgres
+ * Follows the Singleton pattern as per architecture
+ */
+export class ScreenerService {
+  private static instance: ScreenerService;
+
+  private static readonly DEFAULT_SORT = 'volume:desc';
+  private static readonly HOURS_PER_YEAR = 24 * 365;
+
+  private readonly SPOT_MARKET_CACHE_KEY = 'spot:markets';
+  private readonly PERP_MARKET_CACHE_KEY = 'perp:markets';
+
+  private constructor() {}
+
+  public static getInstance(): ScreenerService {
+    if (!ScreenerService.instance) {
+      ScreenerService.instance = new ScreenerService();
+    }
+    return ScreenerService.instance;
+  }
+
+  /**
+   * Run a screener: filter, multi-key sort and paginate the cached markets
+   */
+  public async run(query: ScreenerQuery): Promise<ScreenerResult> {
+    const expression = query.filter ? parseFilterExpression(query.filter) : null;
+    const sortKeys = parseSortExpression(query.sort || ScreenerService.DEFAULT_SORT);
+
+    const rows = await this.getRows(query.market);
+    const matched = (expression ? rows.filter(row => evaluateExpression(expression, row)) : rows)
+      .sort((a, b) => compareRows(a, b, sortKeys));
+
+    const start = (query.page - 1) * query.limit;
+    const totalPages = Math.ceil(matched.length / query.limit);
+
+    logDeduplicator.info('Screener executed', {
+      market: query.market,
+      filter: query.filter,
+      sort: query.sort,
+      scanned: rows.length,
+      matched: matched.length
+    });
+
+    return {
+      data: matched.slice(start, start + query.limit),
+      pagination: {
+        total: matched.length,
+        page: query.page,
+        limit: query.limit,
+        totalPages,
+        hasNext: query.page < totalPages,
+        hasPrevious: query.page > 1
+      },
+      metadata: {
+        market: query.market,
+        filter: query.filter ? normalizeExpression(query.filter) : null,
+        sort: sortKeys,
+        matched: matched.length,
+        scanned: rows.length
+      }
+    };
+  }
+
+  // ========== SAVED SCREENS ==========
+
+  public async listScreens(userId: number): Promise<MarketScreen[]> {
+    return marketScreenRepository.findByUser(userId);
+  }
+
+  public async createScreen(userId: number, input: ScreenCreateInput): Promise<MarketScreen> {
+    this.validateExpressions(input.filter, input.sort);
+
+    const count = await marketScreenRepository.countByUser(userId);
+    if (count >= SCREENER_CONSTANTS.MAX_SAVED_SCREENS_PER_USER) {
+      throw new ScreenLimitExceededError();
+    }
+    if (await marketScreenRepository.findByName(userId, input.name)) {
+      throw new ScreenAlreadyExistsError();
+    }
+
+    const screen = await marketScreenRepository.create(userId, { ...input, filter: normalizeExpression(input.filter) });
+    logDeduplicator.info('Market screen created', { userId, screenId: screen.id });
+    return screen;
+  }
+
+  public async updateScreen(userId: number, screenId: number, input: ScreenUpdateInput): Promise<MarketScreen> {
+    const screen = await this.findScreenOrThrow(screenId, userId);
+    this.validateExpressions(input.filter, input.sort);
+
+    if (input.name && input.name !== screen.name && await marketScreenRepository.findByName(userId, input.name)) {
+      throw new ScreenAlreadyExistsError();
+    }
+
+    return marketScreenRepository.update(screenId, {
+      ...input,
+      ...(input.filter !== undefined && { filter: normalizeExpression(input.filter) })
+    });
+  }
+
+  public async deleteScreen(userId: number, screenId: number): Promise<void> {
+    await this.findScreenOrThrow(screenId, userId);
+    await marketScreenRepository.delete(screenId);
+    logDeduplicator.info('Market screen deleted', { userId, screenId });
+  }
+
+  /**
+   * Run a saved screen against the current markets
+   */
+  public async runScreen(userId: number, screenId: number, pagination: { limit: number; page: number }): Promise<ScreenerResult & { screen: MarketScreen }> {
+    const screen = await this.findScreenOrThrow(screenId, userId);
+    const result = await this.run({
+      market: screen.market as ScreenerQuery['market'],
+      filter: screen.filter,
+      sort: screen.sort ?? undefined,
+      ...pagination
+    });
+    return { ...result, screen };
+  }
+
+  private async findScreenOrThrow(screenId: number, userId: number): Promise<MarketScreen> {
+    const screen = await marketScreenRepository.findForUser(screenId, userId);
+    if (!screen) {
+      throw new ScreenNotFoundError();
+    }
+    return screen;
+  }
+
+  /**
+   * Reject invalid expressions before they are saved
+   */
+  private validateExpressions(filter?: string, sort?: string | null): void {
+    if (filter !== undefined) parseFilterExpression(filter);
+    if (sort) parseSortExpression(sort);
+  }
+
+  /**
+   * Build screener rows from the cached market arrays
+   */
+  private async getRows(market: ScreenerQuery['market']): Promise<ScreenerRow[]> {
+    const [spotRaw, perpRaw] = await Promise.all([
+      market !== 'perp' ? redisService.get(this.SPOT_MARKET_CACHE_KEY) : Promise.resolve(null),
+      market !== 'spot' ? redisService.get(this.PERP_MARKET_CACHE_KEY) : Promise.resolve(null)
+    ]);
+
+    if ((market === 'spot' && !spotRaw) || (market === 'perp' && !perpRaw) || (!spotRaw && !perpRaw)) {
+      throw new ScreenerError('No market data available', 503, 'MARKET_DATA_UNAVAILABLE');
+    }
+
+    const spotRows: ScreenerRow[] = spotRaw
+      ? (JSON.parse(spotRaw) as MarketData[]).map(m => ({
+        type: 'spot',
+        name: m.name,
+        price: m.price,
+        volume: m.volume,
+        change24h: m.change24h,
+        marketCap: m.marketCap,
+        midPrice: m.liquidity,
+        supply: m.supply,
+        tokenId: m.tokenId
+      }))
+      : [];
+
+    const perpRows: ScreenerRow[] = perpRaw
+      ? (JSON.parse(perpRaw) as PerpMarketData[]).map(m => ({
+        type: 'perp',
+        name: m.name,
+        price: m.price,
+        volume: m.volume,
+        change24h: m.change24h,
+        openInterest: m.openInterest * m.price,
+        funding: m.funding,
+        fundingApr: Number((m.funding * ScreenerService.HOURS_PER_YEAR * 100).toFixed(4)),
+        maxLeverage: m.maxLeverage
+      }))
+      : [];
+
+    return [...spotRows, ...perpRows];
+  }
+}
@@ -0,0 +1,142 @@
+import { evaluateExpression, parseFilterExpression } from './screenerExpression';
+import { ScreenerExpressionError } from '../../errors/screener.errors';
+import { ScreenerRow } from '../../types/screener.types';
+
+const perpRow = (overrides: Partial<ScreenerRow> = {}): ScreenerRow => ({
+  type: 'perp',
+  name: 'BTC',
+  price: 100000,
+  volume: 2e6,
+  change24h: -8,
+  funding: 0.0001,
+  ...overrides
+});
+
+const spotRow = (overrides: Partial<ScreenerRow> = {}): ScreenerRow => ({
+  type: 'spot',
+  name: 'HYPE/USDC',
+  price: 40,
+  volume: 2e6,
+  change24h: -8,
+  ...overrides
+});
+
+const expectError = (input: string, message: string) => {
+  expect(() => parseFilterExpression(input)).toThrow(ScreenerExpressionError);
+  expect(() => parseFilterExpression(input)).toThrow(message);
+};
+
+describe('parseFilterExpression', () => {
+  it('parses a conjunction of comparisons', () => {
+    expect(parseFilterExpression('volume>1e6 AND change24h<-5 AND funding>0')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'comparison', field: 'volume', operator: '>', value: 1e6 },
+        { type: 'comparison', field: 'change24h', operator: '<', value: -5 },
+        { type: 'comparison', field: 'funding', operator: '>', value: 0 }
+      ]
+    });
+  });
+
+  it('restores operators escaped by the sanitization middleware', () => {
+    expect(parseFilterExpression('change24h&lt;-5 &amp;&amp; volume&gt;=10')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'comparison', field: 'change24h', operator: '<', value: -5 },
+        { type: 'comparison', field: 'volume', operator: '>=', value: 10 }
+      ]
+    });
+  });
+
+  it('matches fields case-insensitively and maps == to =', () => {
+    expect(parseFilterExpression('MAXLEVERAGE == 50')).toEqual({
+      type: 'comparison',
+      field: 'maxLeverage',
+      operator: '=',
+      value: 50
+    });
+  });
+
+  it('gives AND precedence over OR', () => {
+    expect(parseFilterExpression('price>1 OR volume>2 AND funding>0')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'comparison', field: 'price', operator: '>', value: 1 },
+        {
+          type: 'and',
+          children: [
+            { type: 'comparison', field: 'volume', operator: '>', value: 2 },
+            { type: 'comparison', field: 'funding', operator: '>', value: 0 }
+          ]
+        }
+      ]
+    });
+  });
+
+  it('groups with parentheses', () => {
+    expect(parseFilterExpression('(price>1 || volume>2) && funding>0')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'comparison', field: 'price', operator: '>', value: 1 },
+            { type: 'comparison', field: 'volume', operator: '>', value: 2 }
+          ]
+        },
+        { type: 'comparison', field: 'funding', operator: '>', value: 0 }
+      ]
+    });
+  });
+
+  it('reports the position of invalid input', () => {
+    expectError('volume>1#', 'Unexpected character at position 9');
+    expectError('volume>>1', 'Expected a number at position 8');
+    expectError('volume 1', 'Expected a comparison operator at position 8');
+    expectError('volume>1 price<2', 'Unexpected token at position 10');
+    expectError('volume>1 AND >2', 'Expected a field at position 14');
+  });
+
+  it('reports incomplete expressions', () => {
+    expectError('volume>', 'Expected a number at end of expression');
+    expectError('volume>1 AND', 'Expected a field at end of expression');
+    expectError('(volume>1 OR price<2', "Expected ')' at end of expression");
+    expectError('   ', 'Filter expression is empty');
+  });
+
+  it('rejects unknown fields', () => {
+    expectError('foo>1', 'Unknown field "foo"');
+  });
+
+  it('limits the number of conditions', () => {
+    expectError(Array(21).fill('price>1').join(' AND '), 'cannot contain more than 20 conditions');
+  });
+});
+
+describe('evaluateExpression', () => {
+  const expression = parseFilterExpression('volume>1e6 AND change24h<-5 AND funding>0');
+
+  it('matches rows satisfying every condition', () => {
+    expect(evaluateExpression(expression, perpRow())).toBe(true);
+    expect(evaluateExpression(expression, perpRow({ change24h: -2 }))).toBe(false);
+    expect(evaluateExpression(expression, perpRow({ funding: -0.0001 }))).toBe(false);
+  });
+
+  it('treats a comparison on a missing field as false', () => {
+    expect(evaluateExpression(expression, spotRow())).toBe(false);
+    expect(evaluateExpression(parseFilterExpression('funding>0 OR volume>1e6'), spotRow())).toBe(true);
+  });
+
+  it('evaluates grouped expressions', () => {
+    const grouped = parseFilterExpression('(change24h>5 OR change24h<-5) AND volume>=2e6');
+    expect(evaluateExpression(grouped, perpRow())).toBe(true);
+    expect(evaluateExpression(grouped, perpRow({ change24h: 6 }))).toBe(true);
+    expect(evaluateExpression(grouped, perpRow({ change24h: 1 }))).toBe(false);
+    expect(evaluateExpression(grouped, perpRow({ volume: 1e6 }))).toBe(false);
+  });
+
+  it('supports equality operators', () => {
+    expect(evaluateExpression(parseFilterExpression('price=40'), spotRow())).toBe(true);
+    expect(evaluateExpression(parseFilterExpression('price!=40'), spotRow())).toBe(false);
+  });
+});
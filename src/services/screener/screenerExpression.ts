@@ -0,0 +1,223 @@
+import { SCREENER_CONSTANTS, ScreenerField } from '../../constants/screener.constants';
+import {
+  ScreenerExpression,
+  ScreenerOperator,
+  ScreenerRow,
+  ScreenerSortKey
+} from '../../types/screener.types';
+import { ScreenerExpressionError, ScreenerSortError } from '../../errors/screener.errors';
+
+type Token =
+  | { kind: 'field'; value: string; position: number }
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'operator'; value: ScreenerOperator; position: number }
+  | { kind: 'and' | 'or' | 'lparen' | 'rparen'; position: number };
+
+// Champs acceptés, insensibles à la casse
+const FIELDS = new Map<string, ScreenerField>(
+  [...SCREENER_CONSTANTS.SPOT_FIELDS, ...SCREENER_CONSTANTS.PERP_FIELDS].map(field => [field.toLowerCase(), field])
+);
+
+const TOKEN_PATTERN = /\s*(?:(>=|<=|!=|==|=|>|<)|(\()|(\))|(&&|\|\|)|(-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?![a-z_]))|([a-z_][a-z0-9_]*))/iy;
+
+/**
+ * Rétablit les opérateurs échappés par le middleware de sanitization (< > & encodés en entités HTML)
+ */
+export const normalizeExpression = (input: string): string =>
+  input.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&').trim();
+
+/**
+ * Découpe l'expression en tokens
+ */
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < input.length) {
+    if (input.slice(TOKEN_PATTERN.lastIndex).trim() === '') break;
+
+    // Position du token lui-même, sans les espaces qui le précèdent
+    const position = TOKEN_PATTERN.lastIndex + input.slice(TOKEN_PATTERN.lastIndex).search(/\S/);
+    const match = TOKEN_PATTERN.exec(input);
+    if (!match) {
+      throw new ScreenerExpressionError(`Unexpected character at position ${position + 1}`);
+    }
+
+    const [, operator, lparen, rparen, logical, number, word] = match;
+    if (operator) {
+      tokens.push({ kind: 'operator', value: (operator === '==' ? '=' : operator) as ScreenerOperator, position });
+    } else if (lparen) {
+      tokens.push({ kind: 'lparen', position });
+    } else if (rparen) {
+      tokens.push({ kind: 'rparen', position });
+    } else if (logical) {
+      tokens.push({ kind: logical === '&&' ? 'and' : 'or', position });
+    } else if (number) {
+      tokens.push({ kind: 'number', value: Number(number), position });
+    } else if (word.toUpperCase() === 'AND' || word.toUpperCase() === 'OR') {
+      tokens.push({ kind: word.toUpperCase() === 'AND' ? 'and' : 'or', position });
+    } else {
+      tokens.push({ kind: 'field', value: word, position });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Analyse une expression de filtre
+ * Grammaire : expr := and (OR and)* ; and := term (AND term)* ; term := '(' expr ')' | field op number
+ * AND est prioritaire sur OR, les parenthèses permettent de regrouper
+ */
+export const parseFilterExpression = (rawInput: string): ScreenerExpression => {
+  const input = normalizeExpression(rawInput);
+  if (input.length > SCREENER_CONSTANTS.MAX_FILTER_LENGTH) {
+    throw new ScreenerExpressionError(`Filter expression cannot exceed ${SCREENER_CONSTANTS.MAX_FILTER_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    throw new ScreenerExpressionError('Filter expression is empty');
+  }
+
+  let index = 0;
+  let conditions = 0;
+
+  const describe = (token: Token | undefined) => token ? `position ${token.position + 1}` : 'end of expression';
+
+  const parseOr = (): ScreenerExpression => {
+    const children = [parseAnd()];
+    while (tokens[index]?.kind === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): ScreenerExpression => {
+    const children = [parseTerm()];
+    while (tokens[index]?.kind === 'and') {
+      index++;
+      children.push(parseTerm());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseTerm = (): ScreenerExpression => {
+    const token = tokens[index];
+    if (token?.kind === 'lparen') {
+      index++;
+      const expression = parseOr();
+      if (tokens[index]?.kind !== 'rparen') {
+        throw new ScreenerExpressionError(`Expected ')' at ${describe(tokens[index])}`);
+      }
+      index++;
+      return expression;
+    }
+
+    if (token?.kind !== 'field') {
+      throw new ScreenerExpressionError(`Expected a field at ${describe(token)}`);
+    }
+    const field = FIELDS.get(token.value.toLowerCase());
+    if (!field) {
+      throw new ScreenerExpressionError(
+        `Unknown field "${token.value}". Allowed fields: ${Array.from(new Set(FIELDS.values())).join(', ')}`
+      );
+    }
+
+    const operator = tokens[index + 1];
+    if (operator?.kind !== 'operator') {
+      throw new ScreenerExpressionError(`Expected a comparison operator at ${describe(operator)}`);
+    }
+    const value = tokens[index + 2];
+    if (value?.kind !== 'number') {
+      throw new ScreenerExpressionError(`Expected a number at ${describe(value)}`);
+    }
+
+    index += 3;
+    if (++conditions > SCREENER_CONSTANTS.MAX_CONDITIONS) {
+      throw new ScreenerExpressionError(`Filter expression cannot contain more than ${SCREENER_CONSTANTS.MAX_CONDITIONS} conditions`);
+    }
+    return { type: 'comparison', field, operator: operator.value, value: value.value };
+  };
+
+  const expression = parseOr();
+  if (index < tokens.length) {
+    throw new ScreenerExpressionError(`Unexpected token at ${describe(tokens[index])}`);
+  }
+  return expression;
+};
+
+/**
+ * Évalue une expression sur une ligne
+ * Une comparaison sur un champ absent de la ligne (ex: funding sur un marché spot) est fausse
+ */
+export const evaluateExpression = (expression: ScreenerExpression, row: ScreenerRow): boolean => {
+  if (expression.type !== 'comparison') {
+    return expression.type === 'and'
+      ? expression.children.every(child => evaluateExpression(child, row))
+      : expression.children.some(child => evaluateExpression(child, row));
+  }
+
+  const actual = row[expression.field];
+  if (actual === undefined || actual === null || Number.isNaN(actual)) {
+    return false;
+  }
+
+  switch (expression.operator) {
+    case '>': return actual > expression.value;
+    case '>=': return actual >= expression.value;
+    case '<': return actual < expression.value;
+    case '<=': return actual <= expression.value;
+    case '=': return actual === expression.value;
+    case '!=': return actual !== expression.value;
+  }
+};
+
+/**
+ * Analyse un tri multi-clés, ex: "volume:desc,change24h:asc" (desc par défaut)
+ */
+export const parseSortExpression = (input: string): ScreenerSortKey[] => {
+  const keys = input.split(',').map(key => key.trim()).filter(Boolean);
+  if (keys.length === 0) {
+    throw new ScreenerSortError('Sort expression is empty');
+  }
+  if (keys.length > SCREENER_CONSTANTS.MAX_SORT_KEYS) {
+    throw new ScreenerSortError(`Sort expression cannot contain more than ${SCREENER_CONSTANTS.MAX_SORT_KEYS} keys`);
+  }
+
+  return keys.map(key => {
+    const [rawField, rawOrder = 'desc', ...rest] = key.split(':').map(part => part.trim());
+    const field = rawField.toLowerCase() === 'name' ? 'name' : FIELDS.get(rawField.toLowerCase());
+    const order = rawOrder.toLowerCase();
+
+    if (!field) {
+      throw new ScreenerSortError(`Unknown sort field "${rawField}"`);
+    }
+    if (rest.length > 0 || (order !== 'asc' && order !== 'desc')) {
+      throw new ScreenerSortError(`Invalid sort key "${key}", expected field:asc or field:desc`);
+    }
+    return { field, order };
+  });
+};
+
+/**
+ * Compare deux lignes selon les clés de tri, les valeurs absentes sont placées en dernier
+ */
+export const compareRows = (a: ScreenerRow, b: ScreenerRow, sortKeys: ScreenerSortKey[]): number => {
+  for (const { field, order } of sortKeys) {
+    const multiplier = order === 'desc' ? -1 : 1;
+    const valueA = a[field];
+    const valueB = b[field];
+
+    if (valueA === valueB) continue;
+    if (valueA === undefined || valueA === null) return 1;
+    if (valueB === undefined || valueB === null) return -1;
+
+    const diff = typeof valueA === 'string'
+      ? valueA.localeCompare(String(valueB))
+      : valueA - (valueB as number);
+    if (diff !== 0) return multiplier * diff;
+  }
+  return 0;
+};
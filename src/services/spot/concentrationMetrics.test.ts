@@ -0,0 +1,23 @@
+import { computeGini } from './concentrationMetrics';
+
+const gini = (sortedDesc: number[]) => computeGini(sortedDesc, sortedDesc.reduce((sum, balance) => sum + balance, 0));
+
+describe('computeGini', () => {
+  it('is 0 for an equal distribution', () => {
+    expect(gini([5, 5, 5, 5])).toBeCloseTo(0);
+  });
+
+  it('is (n - 1) / n when a single holder owns everything', () => {
+    expect(gini([100, 0, 0, 0])).toBeCloseTo(0.75);
+  });
+
+  it('matches the mean absolute difference definition', () => {
+    // Σ|x_i - x_j| / (2 n² mean) = 20 / (2 * 16 * 2.5)
+    expect(gini([4, 3, 2, 1])).toBeCloseTo(0.25);
+  });
+
+  it('is 0 without holders or balances', () => {
+    expect(gini([])).toBe(0);
+    expect(gini([0, 0])).toBe(0);
+  });
+});
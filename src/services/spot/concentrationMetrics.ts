@@ -0,0 +1,12 @@
+/**
+ * Coefficient de Gini sur des balances triées par ordre décroissant
+ * 0 pour une répartition égale, (n - 1) / n lorsqu'un seul holder détient tout
+ */
+export const computeGini = (sortedDesc: number[], total: number): number => {
+  const n = sortedDesc.length;
+  if (n === 0 || total <= 0) return 0;
+
+  // G = 2 * Σ(i * x_i) / (n * Σx) - (n + 1) / n, balances triées par ordre croissant (i de 1 à n)
+  const weighted = sortedDesc.reduce((sum, balance, index) => sum + (n - index) * balance, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+};
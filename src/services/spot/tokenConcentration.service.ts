@@ -0,0 +1,296 @@
+import {
+  FormattedTokenInfo,
+  MarketData,
+  TokenConcentration,
+  TokenConcentrationRankingParams,
+  TokenConcentrationRankingResponse
+} from '../../types/market.types';
+import { HyperliquidTokenInfoClient } from '../../clients/hyperliquid/spot/spot.tokeninfo.client';
+import { TokenInfoService } from './tokenInfo.service';
+import { computeGini } from './concentrationMetrics';
+import { redisService } from '../../core/redis.service';
+import { TokenNotFoundError } from '../../errors/spot.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Métriques de concentration des holders des tokens spot
+ * Calculées sur la répartition genesis renvoyée par tokenDetails, à chaque mise à jour du polling token info
+ * et périodiquement pour tous les tokens des marchés spot (classement)
+ */
+export class TokenConcentrationService {
+  private static instance: TokenConcentrationService;
+
+  // Un même token est recalculé au plus une fois par minute (le polling token info tourne toutes les 10s)
+  private static readonly REFRESH_INTERVAL_MS = 60 * 1000;
+  private static readonly RANKING_CACHE_TTL = 30; // secondes
+  // Recalcul des tokens spot : métriques de plus d'une heure, une requête tokenDetails toutes les 2s (poids 20, limite 1200/min)
+  private static readonly SEED_INTERVAL_MS = 5 * 60 * 1000;
+  private static readonly SEED_REFRESH_MS = 60 * 60 * 1000;
+  private static readonly SEED_REQUEST_DELAY_MS = 2000;
+  // Au-delà, le token n'est plus listé ou n'est plus recalculé : ses métriques sont écartées du classement
+  private static readonly METRICS_MAX_AGE_MS = 3 * TokenConcentrationService.SEED_REFRESH_MS;
+
+  private readonly UPDATE_CHANNEL = 'token:info:updated';
+  private readonly METRICS_HASH_KEY = 'token:concentration';
+  private readonly RANKING_CACHE_PREFIX = 'token:concentration:ranking';
+  private readonly SEED_LOCK_KEY = 'token:concentration:seed:lock';
+  private readonly SPOT_MARKET_CACHE_KEY = 'spot:markets';
+
+  private readonly tokenInfoClient: HyperliquidTokenInfoClient;
+  private readonly tokenInfoService: TokenInfoService;
+
+  private lastComputed: Map<string, number> = new Map();
+  private isPolling = false;
+  private isSubscribed = false;
+  private isSeeding = false;
+  private seedInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.tokenInfoClient = HyperliquidTokenInfoClient.getInstance();
+    this.tokenInfoService = TokenInfoService.getInstance();
+  }
+
+  public static getInstance(): TokenConcentrationService {
+    if (!TokenConcentrationService.instance) {
+      TokenConcentrationService.instance = new TokenConcentrationService();
+    }
+    return TokenConcentrationService.instance;
+  }
+
+  /**
+   * Recalcule les métriques à chaque mise à jour du cache token info
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Token concentration analytics already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      redisService.subscribe(this.UPDATE_CHANNEL, async (message) => {
+        try {
+          const { type, tokenId, timestamp } = JSON.parse(message);
+          if (type === 'DATA_UPDATED' && tokenId) {
+            await this.handleTokenUpdated(tokenId, timestamp ?? Date.now());
+          }
+        } catch (error) {
+          logDeduplicator.error('Error processing token concentration update:', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+      this.isSubscribed = true;
+    }
+
+    this.seedInterval = setInterval(() => {
+      this.seedSpotTokens().catch(error => {
+        logDeduplicator.error('Error seeding token concentration metrics:', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, TokenConcentrationService.SEED_INTERVAL_MS);
+
+    logDeduplicator.info('Token concentration analytics started', {
+      refreshIntervalMs: TokenConcentrationService.REFRESH_INTERVAL_MS,
+      seedRefreshMs: TokenConcentrationService.SEED_REFRESH_MS
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    if (this.seedInterval) {
+      clearInterval(this.seedInterval);
+      this.seedInterval = null;
+    }
+    logDeduplicator.info('Token concentration analytics stopped');
+  }
+
+  /**
+   * Métriques d'un token
+   * Un token absent du cache est récupéré puis ajouté au polling token info
+   */
+  public async getTokenConcentration(tokenId: string): Promise<TokenConcentration> {
+    const cached = await redisService.getClient().hget(this.METRICS_HASH_KEY, tokenId);
+    if (cached) {
+      return JSON.parse(cached) as TokenConcentration;
+    }
+
+    const details = await this.tokenInfoClient.getTokenDetailsRaw(tokenId);
+    if (!details) {
+      throw new TokenNotFoundError(`Token with ID ${tokenId} not found`);
+    }
+    return this.computeAndStore(tokenId);
+  }
+
+  /**
+   * Tokens les plus et les moins concentrés selon une métrique
+   * Porte sur les tokens des marchés spot, les métriques trop anciennes sont supprimées
+   */
+  public async getRanking(params: TokenConcentrationRankingParams): Promise<TokenConcentrationRankingResponse> {
+    const cacheKey = `${this.RANKING_CACHE_PREFIX}:${params.sortBy}:${params.limit}:${params.minHolders}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as TokenConcentrationRankingResponse;
+    }
+
+    const client = redisService.getClient();
+    const entries = await client.hgetall(this.METRICS_HASH_KEY);
+    const allMetrics = Object.values(entries).map(entry => JSON.parse(entry) as TokenConcentration);
+    const stale = allMetrics.filter(metrics => !this.isRecent(metrics, TokenConcentrationService.METRICS_MAX_AGE_MS));
+    if (stale.length > 0) {
+      await client.hdel(this.METRICS_HASH_KEY, ...stale.map(metrics => metrics.tokenId));
+    }
+
+    const ranked = allMetrics
+      .filter(metrics => this.isRecent(metrics, TokenConcentrationService.METRICS_MAX_AGE_MS))
+      .filter(metrics => metrics.holdersCount >= params.minHolders)
+      .sort((a, b) => b[params.sortBy] - a[params.sortBy]);
+
+    const response: TokenConcentrationRankingResponse = {
+      success: true,
+      sortBy: params.sortBy,
+      data: {
+        mostConcentrated: ranked.slice(0, params.limit),
+        leastConcentrated: [...ranked].reverse().slice(0, params.limit)
+      },
+      metadata: {
+        totalTokens: ranked.length,
+        cachedAt: new Date().toISOString()
+      }
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(response), TokenConcentrationService.RANKING_CACHE_TTL);
+    return response;
+  }
+
+  private async handleTokenUpdated(tokenId: string, timestamp: number): Promise<void> {
+    if (!this.isPolling) return;
+
+    const lastComputed = this.lastComputed.get(tokenId) ?? 0;
+    if (timestamp - lastComputed < TokenConcentrationService.REFRESH_INTERVAL_MS) return;
+    this.lastComputed.set(tokenId, timestamp);
+
+    await this.computeAndStore(tokenId);
+  }
+
+  /**
+   * Calcule les métriques des tokens des marchés spot absentes ou plus anciennes que SEED_REFRESH_MS
+   * Une seule instance à la fois, les tokens ne sont pas ajoutés au polling token info
+   */
+  private async seedSpotTokens(): Promise<void> {
+    if (!this.isPolling || this.isSeeding) return;
+
+    const client = redisService.getClient();
+    const lock = await client.set(this.SEED_LOCK_KEY, '1', 'PX', TokenConcentrationService.SEED_REFRESH_MS, 'NX');
+    if (lock !== 'OK') return;
+
+    this.isSeeding = true;
+    try {
+      const markets = await redisService.get(this.SPOT_MARKET_CACHE_KEY);
+      const tokenIds = markets
+        ? Array.from(new Set((JSON.parse(markets) as MarketData[]).map(market => market.tokenId)))
+        : [];
+
+      const entries = await client.hgetall(this.METRICS_HASH_KEY);
+      const due = tokenIds.filter(tokenId =>
+        !entries[tokenId] ||
+        !this.isRecent(JSON.parse(entries[tokenId]) as TokenConcentration, TokenConcentrationService.SEED_REFRESH_MS)
+      );
+
+      let computed = 0;
+      for (const tokenId of due) {
+        if (!this.isPolling) break;
+
+        try {
+          // Le recalcul déclenché par la mise à jour du cache est inutile
+          this.lastComputed.set(tokenId, Date.now());
+          await this.tokenInfoClient.refreshTokenDetails(tokenId);
+          await this.computeAndStore(tokenId);
+          computed++;
+        } catch (error) {
+          logDeduplicator.warn('Token concentration seeding failed for token', {
+            tokenId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+        await new Promise(resolve => setTimeout(resolve, TokenConcentrationService.SEED_REQUEST_DELAY_MS));
+      }
+
+      logDeduplicator.info('Token concentration metrics seeded', {
+        spotTokens: tokenIds.length,
+        due: due.length,
+        computed
+      });
+    } finally {
+      this.isSeeding = false;
+      await client.del(this.SEED_LOCK_KEY);
+    }
+  }
+
+  /**
+   * Métriques calculées il y a moins de maxAgeMs (une date invalide est considérée comme ancienne)
+   */
+  private isRecent(metrics: TokenConcentration, maxAgeMs: number): boolean {
+    return Date.now() - Date.parse(metrics.updatedAt) < maxAgeMs;
+  }
+
+  private async computeAndStore(tokenId: string): Promise<TokenConcentration> {
+    const info = await this.tokenInfoService.getTokenInfo(tokenId);
+    const metrics = this.computeMetrics(tokenId, info);
+
+    await redisService.getClient().hset(this.METRICS_HASH_KEY, tokenId, JSON.stringify(metrics));
+    logDeduplicator.info('Token concentration metrics updated', {
+      tokenId,
+      holdersCount: metrics.holdersCount,
+      top10Share: metrics.top10Share,
+      gini: metrics.gini
+    });
+    return metrics;
+  }
+
+  /**
+   * Parts en % de la supply totale (à défaut, de la somme des balances des holders)
+   * Gini et HHI portent sur la répartition entre holders
+   */
+  private computeMetrics(tokenId: string, info: FormattedTokenInfo): TokenConcentration {
+    const balances = info.holders
+      .map(holder => ({ address: holder.address.toLowerCase(), balance: Number(holder.balance) }))
+      .filter(holder => Number.isFinite(holder.balance) && holder.balance > 0)
+      .sort((a, b) => b.balance - a.balance);
+
+    const holdersTotal = balances.reduce((sum, holder) => sum + holder.balance, 0);
+    const totalSupply = Number(info.totalSupply);
+    const circulatingSupply = Number(info.circulatingSupply);
+    const denominator = totalSupply > 0 ? totalSupply : holdersTotal;
+
+    const share = (amount: number) => denominator > 0 ? this.round((amount / denominator) * 100) : 0;
+    const sumTop = (count: number) => balances.slice(0, count).reduce((sum, holder) => sum + holder.balance, 0);
+
+    const deployer = info.deployer?.toLowerCase();
+    const deployerBalance = balances.find(holder => holder.address === deployer)?.balance ?? 0;
+
+    return {
+      tokenId,
+      name: info.name,
+      holdersCount: balances.length,
+      totalSupply,
+      circulatingSupply,
+      top10Share: share(sumTop(10)),
+      top50Share: share(sumTop(50)),
+      gini: this.round(computeGini(balances.map(holder => holder.balance), holdersTotal)),
+      hhi: this.round(holdersTotal > 0
+        ? balances.reduce((sum, holder) => sum + ((holder.balance / holdersTotal) * 100) ** 2, 0)
+        : 0),
+      deployerShare: share(deployerBalance),
+      nonCirculatingShare: totalSupply > 0 && Number.isFinite(circulatingSupply)
+        ? this.round(Math.max(0, (totalSupply - circulatingSupply) / totalSupply) * 100)
+        : 0,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+}
@@ -8,7 +8,7 @@ export class TokenInfoService {
   private static instance: TokenInfoService; // Ajout pour Singleton
 
   private readonly UPDATE_CHANNEL = 'token:info:updated';
-  private readonly CACHE_KEY = 'token:info:raw_data';
+  private readonly CACHE_KEY = 'token:info'; // Clé écrite par HyperliquidTokenInfoClient : token:info:<tokenId>
   private lastUpdate: Record<string, number> = {};
 
   // Mettre le constructeur en privé
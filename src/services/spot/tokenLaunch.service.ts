@@ -0,0 +1,356 @@
+import {
+  AuctionInfoWithCurrency,
+  RecentDeployment,
+  RecentDeploymentsParams,
+  RecentDeploymentsResponse,
+  TokenLaunchMarket,
+  TokenLaunchPerformance,
+  TokenLaunchReport
+} from '../../types/auction.types';
+import { AssetContext, MarketData, SpotContext, Token, TokenInfoResponse } from '../../types/market.types';
+import { HyperliquidTokenInfoClient } from '../../clients/hyperliquid/spot/spot.tokeninfo.client';
+import { AuctionPageService } from './auction/auction.service';
+import { SpotDeployStateApiService } from './auction/auctionTiming.service';
+import { marketCandleRepository } from '../../repositories/marketCandle.repository';
+import { redisService } from '../../core/redis.service';
+import { TokenInfoError, TokenNotFoundError } from '../../errors/spot.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Rapport de lancement des tokens spot : déploiement, auction, allocations genesis
+ * et performance depuis le lancement (prix de la première bougie journalière, market cap actuelle)
+ */
+export class TokenLaunchService {
+  private static instance: TokenLaunchService;
+
+  private static readonly CACHE_TTL = 30; // secondes
+  private static readonly TOP_ALLOCATIONS_LIMIT = 20;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  // Au-delà, la première bougie enregistrée ne reflète plus le prix de lancement
+  private static readonly LAUNCH_PRICE_WINDOW_DAYS = 7;
+  private static readonly HYPE_MARKET = 'HYPE';
+
+  private readonly SPOT_MARKET_CACHE_KEY = 'spot:markets';
+  private readonly SPOT_RAW_CACHE_KEY = 'spot:raw_data';
+  private readonly REPORT_CACHE_PREFIX = 'spot:launch:report';
+  private readonly RECENT_CACHE_PREFIX = 'spot:launch:recent';
+
+  private readonly tokenInfoClient: HyperliquidTokenInfoClient;
+  private readonly auctionService: AuctionPageService;
+
+  private constructor() {
+    this.tokenInfoClient = HyperliquidTokenInfoClient.getInstance();
+    this.auctionService = AuctionPageService.getInstance(SpotDeployStateApiService.getInstance());
+  }
+
+  public static getInstance(): TokenLaunchService {
+    if (!TokenLaunchService.instance) {
+      TokenLaunchService.instance = new TokenLaunchService();
+    }
+    return TokenLaunchService.instance;
+  }
+
+  /**
+   * Rapport de lancement d'un token
+   * Le client token info met le token en cache et l'ajoute au polling
+   */
+  public async getLaunchReport(tokenId: string): Promise<TokenLaunchReport> {
+    const cacheKey = `${this.REPORT_CACHE_PREFIX}:${tokenId}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as TokenLaunchReport;
+    }
+
+    const details = await this.fetchTokenDetails(tokenId);
+    const [markets, tokens, auction] = await Promise.all([
+      this.readCache<MarketData[]>(this.SPOT_MARKET_CACHE_KEY),
+      this.readSpotTokens(),
+      this.findAuction(tokenId, details.name)
+    ]);
+
+    const deployTimeMs = this.parseDeployTime(details.deployTime);
+    const spotMarket = markets?.find(market => market.tokenId === tokenId);
+    const market = spotMarket ? this.toLaunchMarket(spotMarket) : null;
+
+    const [firstCandles, hypeCloses] = await Promise.all([
+      spotMarket
+        ? marketCandleRepository.findFirstCandles('spot', [spotMarket.name], '1d')
+        : Promise.resolve(new Map()),
+      auction?.currency === 'HYPE'
+        ? this.getHypeDailyCloses(auction.time)
+        : Promise.resolve(new Map<number, number>())
+    ]);
+
+    const totalSupply = Number(details.totalSupply);
+    const allocations = details.genesis.userBalances
+      .map(([address, balance]) => ({ address, balance, amount: Number(balance) }))
+      .filter(allocation => Number.isFinite(allocation.amount) && allocation.amount > 0)
+      .sort((a, b) => b.amount - a.amount);
+    const allocatedSupply = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+    const report: TokenLaunchReport = {
+      tokenId,
+      name: details.name,
+      fullName: tokens.find(token => token.tokenId === tokenId)?.fullName ?? null,
+      deployer: details.deployer,
+      deployTime: deployTimeMs !== null ? new Date(deployTimeMs).toISOString() : null,
+      deployGas: details.deployGas,
+      seededUsdc: details.seededUsdc,
+      maxSupply: details.maxSupply,
+      totalSupply: details.totalSupply,
+      circulatingSupply: details.circulatingSupply,
+      auction,
+      genesis: {
+        holdersCount: allocations.length,
+        allocatedSupply,
+        allocatedShare: this.percent(allocatedSupply, totalSupply) ?? 0,
+        topAllocations: allocations
+          .slice(0, TokenLaunchService.TOP_ALLOCATIONS_LIMIT)
+          .map(allocation => ({
+            address: allocation.address,
+            balance: allocation.balance,
+            share: this.percent(allocation.amount, totalSupply) ?? 0
+          })),
+        existingTokenBalances: details.genesis.existingTokenBalances
+      },
+      market,
+      performance: this.computePerformance(
+        deployTimeMs,
+        market,
+        spotMarket ? firstCandles.get(spotMarket.name)?.openTime : undefined,
+        spotMarket ? firstCandles.get(spotMarket.name)?.open : undefined,
+        auction,
+        hypeCloses
+      ),
+      generatedAt: new Date().toISOString()
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(report), TokenLaunchService.CACHE_TTL);
+
+    logDeduplicator.info('Token launch report built successfully', {
+      tokenId,
+      name: report.name,
+      hasAuction: !!auction,
+      hasMarket: !!market,
+      genesisHolders: report.genesis.holdersCount
+    });
+
+    return report;
+  }
+
+  /**
+   * Déploiements des derniers jours (auctions), du plus récent au plus ancien, avec leur performance
+   */
+  public async getRecentDeployments(params: RecentDeploymentsParams): Promise<RecentDeploymentsResponse> {
+    const cacheKey = `${this.RECENT_CACHE_PREFIX}:${params.days}:${params.limit}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as RecentDeploymentsResponse;
+    }
+
+    const since = Date.now() - params.days * TokenLaunchService.DAY_MS;
+    const [{ usdcAuctions, hypeAuctions }, markets] = await Promise.all([
+      this.auctionService.getAllAuctions(),
+      this.readCache<MarketData[]>(this.SPOT_MARKET_CACHE_KEY)
+    ]);
+
+    const auctions = [...usdcAuctions, ...hypeAuctions]
+      .filter(auction => auction.time >= since)
+      .sort((a, b) => b.time - a.time);
+    const selected = auctions.slice(0, params.limit);
+
+    const marketsByToken = new Map((markets ?? []).map(market => [market.tokenId, market]));
+    const spotMarkets = selected
+      .map(auction => auction.tokenId ? marketsByToken.get(auction.tokenId) : undefined)
+      .filter((market): market is MarketData => !!market);
+    const selectedHypeAuctions = selected.filter(auction => auction.currency === 'HYPE');
+    const oldestHypeAuction = selectedHypeAuctions[selectedHypeAuctions.length - 1];
+
+    const [firstCandles, hypeCloses] = await Promise.all([
+      marketCandleRepository.findFirstCandles('spot', spotMarkets.map(market => market.name), '1d'),
+      oldestHypeAuction
+        ? this.getHypeDailyCloses(oldestHypeAuction.time)
+        : Promise.resolve(new Map<number, number>())
+    ]);
+
+    const data: RecentDeployment[] = selected.map(auction => {
+      const spotMarket = auction.tokenId ? marketsByToken.get(auction.tokenId) : undefined;
+      const market = spotMarket ? this.toLaunchMarket(spotMarket) : null;
+      const firstCandle = spotMarket ? firstCandles.get(spotMarket.name) : undefined;
+
+      return {
+        tokenId: auction.tokenId ?? null,
+        name: auction.name,
+        deployer: auction.deployer,
+        time: auction.time,
+        deployTime: new Date(auction.time).toISOString(),
+        currency: auction.currency,
+        deployGas: auction.deployGasAbs,
+        market,
+        performance: this.computePerformance(
+          auction.time,
+          market,
+          firstCandle?.openTime,
+          firstCandle?.open,
+          auction,
+          hypeCloses
+        )
+      };
+    });
+
+    const response: RecentDeploymentsResponse = {
+      data,
+      metadata: {
+        total: auctions.length,
+        since: new Date(since).toISOString(),
+        generatedAt: new Date().toISOString()
+      }
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(response), TokenLaunchService.CACHE_TTL);
+
+    logDeduplicator.info('Recent deployments retrieved successfully', {
+      days: params.days,
+      total: auctions.length,
+      returned: data.length
+    });
+
+    return response;
+  }
+
+  private async fetchTokenDetails(tokenId: string): Promise<TokenInfoResponse> {
+    let details: TokenInfoResponse | null;
+    try {
+      details = await this.tokenInfoClient.getTokenDetailsRaw(tokenId);
+    } catch (error) {
+      logDeduplicator.error('Error fetching token details for launch report:', {
+        tokenId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new TokenInfoError('Failed to retrieve token details');
+    }
+
+    if (!details) {
+      throw new TokenNotFoundError(`Token with ID ${tokenId} not found`);
+    }
+    return details;
+  }
+
+  /**
+   * Auction de déploiement du token, null si le token n'est pas passé par une auction (ou données indisponibles)
+   */
+  private async findAuction(tokenId: string, name: string): Promise<AuctionInfoWithCurrency | null> {
+    try {
+      const { usdcAuctions, hypeAuctions } = await this.auctionService.getAllAuctions();
+      return [...usdcAuctions, ...hypeAuctions].find(auction =>
+        auction.tokenId === tokenId || auction.name.toUpperCase() === name.toUpperCase()
+      ) ?? null;
+    } catch (error) {
+      logDeduplicator.warn('Auction data unavailable for launch report', {
+        tokenId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Performance depuis le lancement
+   * Le prix de lancement n'est retenu que si la première bougie journalière suit de près le déploiement
+   */
+  private computePerformance(
+    deployTimeMs: number | null,
+    market: TokenLaunchMarket | null,
+    firstCandleTime: number | undefined,
+    firstCandleOpen: number | undefined,
+    auction: AuctionInfoWithCurrency | null,
+    hypeCloses: Map<number, number>
+  ): TokenLaunchPerformance {
+    const deployDay = deployTimeMs !== null ? this.dayStart(deployTimeMs) : null;
+    const isLaunchCandle = deployDay !== null
+      && firstCandleTime !== undefined
+      && firstCandleTime >= deployDay
+      && firstCandleTime <= deployDay + TokenLaunchService.LAUNCH_PRICE_WINDOW_DAYS * TokenLaunchService.DAY_MS;
+    const launchPrice = isLaunchCandle && firstCandleOpen && firstCandleOpen > 0 ? firstCandleOpen : null;
+
+    let deployCostUsd: number | null = null;
+    if (auction) {
+      const gas = Number(auction.deployGasAbs);
+      const hypePrice = hypeCloses.get(this.dayStart(auction.time));
+      deployCostUsd = auction.currency === 'USDC'
+        ? gas
+        : hypePrice !== undefined ? gas * hypePrice : null;
+    }
+
+    return {
+      launchPrice,
+      priceChangeSinceLaunch: launchPrice && market
+        ? this.round(((market.price - launchPrice) / launchPrice) * 100)
+        : null,
+      deployCostUsd: deployCostUsd !== null ? this.round(deployCostUsd) : null,
+      marketCapToDeployCost: deployCostUsd && market
+        ? this.round(market.marketCap / deployCostUsd)
+        : null,
+      daysSinceLaunch: deployTimeMs !== null
+        ? Math.max(0, Math.floor((Date.now() - deployTimeMs) / TokenLaunchService.DAY_MS))
+        : null
+    };
+  }
+
+  /**
+   * Date de déploiement en ms, null si absente (tokens genesis) ou invalide
+   */
+  private parseDeployTime(deployTime: string | null | undefined): number | null {
+    if (!deployTime) return null;
+    const ms = new Date(deployTime).getTime();
+    return Number.isFinite(ms) && ms > 0 ? ms : null;
+  }
+
+  /**
+   * Clôtures journalières HYPE depuis sinceMs, indexées par début de journée
+   */
+  private async getHypeDailyCloses(sinceMs: number): Promise<Map<number, number>> {
+    const days = Math.ceil((Date.now() - this.dayStart(sinceMs)) / TokenLaunchService.DAY_MS) + 1;
+    const candles = await marketCandleRepository.findRange(
+      'spot',
+      TokenLaunchService.HYPE_MARKET,
+      '1d',
+      this.dayStart(sinceMs),
+      undefined,
+      days
+    );
+    return new Map(candles.map(candle => [candle.openTime, candle.close]));
+  }
+
+  private toLaunchMarket(market: MarketData): TokenLaunchMarket {
+    return {
+      name: market.name,
+      price: market.price,
+      marketCap: market.marketCap,
+      volume: market.volume,
+      change24h: market.change24h
+    };
+  }
+
+  private async readSpotTokens(): Promise<Token[]> {
+    const raw = await this.readCache<[SpotContext, AssetContext[]]>(this.SPOT_RAW_CACHE_KEY);
+    return raw?.[0]?.tokens ?? [];
+  }
+
+  private async readCache<T>(key: string): Promise<T | null> {
+    const raw = await redisService.get(key);
+    return raw ? JSON.parse(raw) as T : null;
+  }
+
+  private percent(amount: number, total: number): number | null {
+    return total > 0 ? this.round((amount / total) * 100) : null;
+  }
+
+  private dayStart(timeMs: number): number {
+    return Math.floor(timeMs / TokenLaunchService.DAY_MS) * TokenLaunchService.DAY_MS;
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+}
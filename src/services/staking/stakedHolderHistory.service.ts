@@ -0,0 +1,308 @@
+import { HypurrscanStakedHoldersClient } from '../../clients/hypurrscan/stakedHolders.client';
+import {
+  StakedHolderChangeDirection,
+  StakedHolderChangesParams,
+  StakedHolderChangesResponse,
+  StakedHolderChangeWindow,
+  StakedHolderHistoryPoint,
+  StakedHolderHistoryResponse,
+  StakedHoldersData
+} from '../../types/staking.types';
+import { redisService } from '../../core/redis.service';
+import {
+  stakedHolderHistoryRepository,
+  StakedHolderBalanceInput
+} from '../../repositories/stakedHolderHistory.repository';
+import { STAKED_HOLDER_HISTORY_CONFIG } from '../../constants/staking.constants';
+import { StakedHolderNotFoundError } from '../../errors/staking.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Historique des holders de stakedHYPE : snapshots périodiques des soldes modifiés,
+ * classements accumulators / distributors et historique par adresse
+ */
+export class StakedHolderHistoryService {
+  private static instance: StakedHolderHistoryService;
+
+  private static readonly HOUR_MS = 60 * 60 * 1000;
+  private static readonly DAY_MS = 24 * StakedHolderHistoryService.HOUR_MS;
+  private static readonly PURGE_INTERVAL_MS = StakedHolderHistoryService.DAY_MS;
+
+  private static readonly WINDOWS: Record<StakedHolderChangeWindow, number> = {
+    '24h': StakedHolderHistoryService.DAY_MS,
+    '7d': 7 * StakedHolderHistoryService.DAY_MS
+  };
+
+  private readonly UPDATE_CHANNEL = 'hypurrscan:staked_holders:updated';
+  private readonly CHANGES_CACHE_PREFIX = 'staking:holders:changes';
+
+  private readonly client: HypurrscanStakedHoldersClient;
+
+  private isPolling = false;
+  private isSubscribed = false;
+  private lastSnapshotBucket = 0;
+  private purgeInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.client = HypurrscanStakedHoldersClient.getInstance();
+  }
+
+  public static getInstance(): StakedHolderHistoryService {
+    if (!StakedHolderHistoryService.instance) {
+      StakedHolderHistoryService.instance = new StakedHolderHistoryService();
+    }
+    return StakedHolderHistoryService.instance;
+  }
+
+  /**
+   * Démarre l'enregistrement des snapshots à chaque mise à jour des holders Hypurrscan
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Staked holder history tracking already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      redisService.subscribe(this.UPDATE_CHANNEL, async (message) => {
+        try {
+          const { timestamp } = JSON.parse(message);
+          await this.handleDataUpdated(timestamp ?? Date.now());
+        } catch (error) {
+          logDeduplicator.error('Error processing staked holder history update:', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+      this.isSubscribed = true;
+    }
+
+    this.purgeInterval = setInterval(() => {
+      this.purgeOldHistory();
+    }, StakedHolderHistoryService.PURGE_INTERVAL_MS);
+
+    logDeduplicator.info('Staked holder history tracking started', {
+      snapshotIntervalMs: STAKED_HOLDER_HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = null;
+    }
+    logDeduplicator.info('Staked holder history tracking stopped');
+  }
+
+  /**
+   * Holders dont le solde a le plus augmenté (accumulators) ou diminué (distributors) sur la fenêtre
+   * Les soldes comparés sont ceux du dernier snapshot
+   */
+  public async getTopChanges(
+    direction: StakedHolderChangeDirection,
+    params: StakedHolderChangesParams
+  ): Promise<StakedHolderChangesResponse> {
+    const cacheKey = `${this.CHANGES_CACHE_PREFIX}:${direction}:${params.window}:${params.limit}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as StakedHolderChangesResponse;
+    }
+
+    const sinceMs = Date.now() - StakedHolderHistoryService.WINDOWS[params.window];
+    const range = await stakedHolderHistoryRepository.findSnapshotRange();
+    const baselineMs = range ? Math.max(sinceMs, range.firstMs) : sinceMs;
+
+    const rows = range
+      ? await stakedHolderHistoryRepository.findTopChanges(baselineMs, direction, params.limit)
+      : [];
+
+    const response: StakedHolderChangesResponse = {
+      success: true,
+      data: rows.map(row => ({
+        address: row.address,
+        currentAmount: row.currentAmount,
+        previousAmount: row.previousAmount,
+        change: this.round(row.currentAmount - row.previousAmount),
+        changePct: row.previousAmount > 0
+          ? this.round(((row.currentAmount - row.previousAmount) / row.previousAmount) * 100)
+          : null
+      })),
+      metadata: {
+        window: params.window,
+        direction,
+        since: new Date(sinceMs).toISOString(),
+        coverageStart: range ? new Date(baselineMs).toISOString() : null,
+        lastSnapshot: range ? new Date(range.lastMs).toISOString() : null
+      }
+    };
+
+    await redisService.set(cacheKey, JSON.stringify(response), STAKED_HOLDER_HISTORY_CONFIG.CHANGES_CACHE_TTL_SECONDS);
+    return response;
+  }
+
+  /**
+   * Historique du solde d'un holder (un point par changement enregistré) et ses variations 24h / 7j
+   * Le solde courant et le rang proviennent des données Hypurrscan les plus récentes
+   */
+  public async getHolderHistory(address: string, days: number): Promise<StakedHolderHistoryResponse> {
+    const holder = address.toLowerCase();
+    const now = Date.now();
+    const sinceMs = now - days * StakedHolderHistoryService.DAY_MS;
+    const historySinceMs = Math.min(sinceMs, now - StakedHolderHistoryService.WINDOWS['7d']);
+
+    const [data, balances, range] = await Promise.all([
+      this.client.getStakedHolders(),
+      stakedHolderHistoryRepository.findBalanceHistory(holder, historySinceMs),
+      stakedHolderHistoryRepository.findSnapshotRange()
+    ]);
+
+    const currentAmount = data.holders[holder] ?? 0;
+    if (currentAmount === 0 && balances.length === 0) {
+      throw new StakedHolderNotFoundError(`Holder ${address} not found`);
+    }
+
+    const rank = currentAmount > 0
+      ? Object.values(data.holders).filter(amount => amount > currentAmount).length + 1
+      : null;
+
+    const changeSince = (windowMs: number): number | null => {
+      const baselineMs = now - windowMs;
+      // Historique trop court pour couvrir la fenêtre
+      if (!range || range.firstMs > baselineMs) return null;
+      return this.round(currentAmount - this.amountAt(balances, baselineMs));
+    };
+
+    const history: StakedHolderHistoryPoint[] = [];
+    let previousAmount = this.amountAt(balances, sinceMs);
+    for (const balance of balances) {
+      if (balance.timeMs < sinceMs) continue;
+      history.push({
+        time: new Date(balance.timeMs).toISOString(),
+        timeMs: balance.timeMs,
+        amount: balance.amount,
+        change: this.round(balance.amount - previousAmount)
+      });
+      previousAmount = balance.amount;
+    }
+
+    return {
+      success: true,
+      data: {
+        address: holder,
+        currentAmount,
+        rank,
+        change24h: changeSince(StakedHolderHistoryService.WINDOWS['24h']),
+        change7d: changeSince(StakedHolderHistoryService.WINDOWS['7d']),
+        history
+      }
+    };
+  }
+
+  private async handleDataUpdated(timestamp: number): Promise<void> {
+    if (!this.isPolling) return;
+
+    const bucket = this.toBucket(timestamp, STAKED_HOLDER_HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS);
+    if (bucket === this.lastSnapshotBucket) return;
+    this.lastSnapshotBucket = bucket;
+
+    // Une seule instance enregistre chaque snapshot
+    const client = redisService.getClient();
+    const lock = await client.set(
+      `${STAKED_HOLDER_HISTORY_CONFIG.LOCK_PREFIX}:${bucket}`,
+      '1',
+      'EX',
+      Math.ceil((2 * STAKED_HOLDER_HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS) / 1000),
+      'NX'
+    );
+    if (lock !== 'OK') return;
+
+    const data = await this.client.getStakedHolders();
+    await this.saveSnapshot(data, bucket);
+  }
+
+  /**
+   * Compare les soldes à l'état précédent (partagé entre instances) et n'enregistre que les soldes modifiés
+   * Un holder absent du relevé est enregistré à 0
+   */
+  private async saveSnapshot(data: StakedHoldersData, bucket: number): Promise<void> {
+    const entries = Object.entries(data.holders);
+    if (entries.length === 0) return;
+
+    const client = redisService.getClient();
+    const stored = await client.hgetall(STAKED_HOLDER_HISTORY_CONFIG.STATE_KEY);
+
+    const balances: StakedHolderBalanceInput[] = [];
+    const nextStates: Record<string, string> = {};
+    let totalStaked = 0;
+
+    for (const [address, amount] of entries) {
+      const holder = address.toLowerCase();
+      totalStaked += amount;
+
+      const previous = stored[holder] !== undefined ? parseFloat(stored[holder]) : 0;
+      if (stored[holder] === undefined || Math.abs(amount - previous) >= STAKED_HOLDER_HISTORY_CONFIG.MIN_CHANGE) {
+        balances.push({ address: holder, timeMs: bucket, amount });
+        nextStates[holder] = String(amount);
+      }
+    }
+
+    const exited = Object.keys(stored).filter(holder => data.holders[holder] === undefined);
+    for (const holder of exited) {
+      balances.push({ address: holder, timeMs: bucket, amount: 0 });
+    }
+
+    await stakedHolderHistoryRepository.saveSnapshot(
+      { timeMs: bucket, holdersCount: entries.length, totalStaked },
+      balances
+    );
+
+    if (Object.keys(nextStates).length > 0) {
+      await client.hset(STAKED_HOLDER_HISTORY_CONFIG.STATE_KEY, nextStates);
+    }
+    if (exited.length > 0) {
+      await client.hdel(STAKED_HOLDER_HISTORY_CONFIG.STATE_KEY, ...exited);
+    }
+
+    logDeduplicator.info('Staked holder snapshot saved', {
+      holders: entries.length,
+      changed: balances.length,
+      exited: exited.length,
+      time: new Date(bucket).toISOString()
+    });
+  }
+
+  /**
+   * Solde à une date donnée : dernier solde enregistré à cette date ou avant (0 sinon)
+   */
+  private amountAt(balances: StakedHolderBalanceInput[], timeMs: number): number {
+    let amount = 0;
+    for (const balance of balances) {
+      if (balance.timeMs > timeMs) break;
+      amount = balance.amount;
+    }
+    return amount;
+  }
+
+  private async purgeOldHistory(): Promise<void> {
+    try {
+      const balances = await stakedHolderHistoryRepository.deleteOlderThan(
+        Date.now() - STAKED_HOLDER_HISTORY_CONFIG.RETENTION_DAYS * StakedHolderHistoryService.DAY_MS
+      );
+      logDeduplicator.info('Staked holder history purged', { balances });
+    } catch (error) {
+      logDeduplicator.error('Staked holder history purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private toBucket(timestamp: number, intervalMs: number): number {
+    return Math.floor(timestamp / intervalMs) * intervalMs;
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(6));
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  StakingSimulationAllocation,
+  StakingSimulationComparison,
+  StakingSimulationInput,
+  StakingSimulationResult,
+  StakingSimulationWarning,
+  ValidatorSummary
+} from '../../types/staking.types';
+import { ValidatorSummariesService } from './validator.service';
+import { ValidatorNotFoundError } from '../../errors/staking.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Paramètres de rendement d'un validateur, en fractions
+ */
+interface ValidatorYield {
+  summary: ValidatorSummary;
+  grossApr: number;
+  commission: number;
+  uptime: number;
+  effectiveApr: number;
+}
+
+/**
+ * Simulateur de rendement pour les délégateurs
+ * Rendement effectif = predictedApr × (1 - commission) × uptimeFraction, nul si le validateur est jailed ou inactif
+ */
+export class StakingSimulatorService {
+  private static instance: StakingSimulatorService;
+
+  private static readonly DAYS_PER_YEAR = 365;
+
+  private readonly validatorService: ValidatorSummariesService;
+
+  private constructor() {
+    this.validatorService = ValidatorSummariesService.getInstance();
+  }
+
+  public static getInstance(): StakingSimulatorService {
+    if (!StakingSimulatorService.instance) {
+      StakingSimulatorService.instance = new StakingSimulatorService();
+    }
+    return StakingSimulatorService.instance;
+  }
+
+  /**
+   * Projette les récompenses d'une délégation répartie entre plusieurs validateurs
+   * Les poids sont normalisés, une même adresse répétée cumule ses poids
+   */
+  public async simulate(input: StakingSimulationInput): Promise<StakingSimulationResult> {
+    const summaries = await this.validatorService.getValidatorSummaries();
+    const yields = new Map(summaries.map(summary => [summary.validator.toLowerCase(), this.toYield(summary)]));
+
+    const weights = new Map<string, number>();
+    for (const { address, weight } of input.validators) {
+      const validator = address.toLowerCase();
+      if (!yields.has(validator)) {
+        throw new ValidatorNotFoundError(`Validator ${address} not found`);
+      }
+      weights.set(validator, (weights.get(validator) ?? 0) + weight);
+    }
+    const totalWeight = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+
+    const allocations: StakingSimulationAllocation[] = [...weights.entries()].map(([validator, weight]) => {
+      const validatorYield = yields.get(validator) as ValidatorYield;
+      const share = weight / totalWeight;
+      const amount = input.amount * share;
+
+      return {
+        validator,
+        name: validatorYield.summary.name,
+        weight: this.round(share * 100),
+        amount: this.round(amount),
+        grossApr: this.round(validatorYield.grossApr * 100),
+        commission: this.round(validatorYield.commission * 100),
+        uptime: this.round(validatorYield.uptime * 100),
+        effectiveApr: this.round(validatorYield.effectiveApr * 100),
+        expectedRewards: this.round(this.projectRewards(amount, validatorYield.effectiveApr, input)),
+        isActive: validatorYield.summary.isActive,
+        isJailed: validatorYield.summary.isJailed
+      };
+    });
+
+    const expectedRewards = allocations.reduce((sum, allocation) => sum + allocation.expectedRewards, 0);
+    const weightedApr = (key: 'effectiveApr' | 'grossApr') =>
+      allocations.reduce((sum, allocation) => sum + (allocation.weight / 100) * allocation[key], 0);
+
+    const result: StakingSimulationResult = {
+      amount: input.amount,
+      horizonDays: input.horizonDays,
+      compound: input.compound,
+      totals: {
+        expectedRewards: this.round(expectedRewards),
+        finalAmount: this.round(input.amount + expectedRewards),
+        effectiveApr: this.round(weightedApr('effectiveApr')),
+        grossApr: this.round(weightedApr('grossApr'))
+      },
+      allocations,
+      comparison: this.buildComparison([...yields.values()], new Set(weights.keys()), input),
+      warnings: this.buildWarnings([...weights.keys()].map(validator => yields.get(validator) as ValidatorYield)),
+      generatedAt: new Date().toISOString()
+    };
+
+    logDeduplicator.info('Staking simulation computed', {
+      amount: input.amount,
+      horizonDays: input.horizonDays,
+      validators: allocations.length,
+      expectedRewards: result.totals.expectedRewards,
+      warnings: result.warnings.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Tableau comparatif : le montant total délégué à chaque validateur, classé par rendement effectif
+   * Les validateurs choisis y figurent toujours
+   */
+  private buildComparison(
+    yields: ValidatorYield[],
+    selected: Set<string>,
+    input: StakingSimulationInput
+  ): StakingSimulationComparison[] {
+    const ranked = [...yields].sort((a, b) => b.effectiveApr - a.effectiveApr);
+    const rows = ranked.filter((validatorYield, index) =>
+      index < input.compareLimit || selected.has(validatorYield.summary.validator.toLowerCase())
+    );
+
+    return rows.map(validatorYield => {
+      const validator = validatorYield.summary.validator.toLowerCase();
+      return {
+        validator,
+        name: validatorYield.summary.name,
+        grossApr: this.round(validatorYield.grossApr * 100),
+        commission: this.round(validatorYield.commission * 100),
+        uptime: this.round(validatorYield.uptime * 100),
+        effectiveApr: this.round(validatorYield.effectiveApr * 100),
+        expectedRewards: this.round(this.projectRewards(input.amount, validatorYield.effectiveApr, input)),
+        stake: Number(validatorYield.summary.stake) / 100000000,
+        isActive: validatorYield.summary.isActive,
+        isJailed: validatorYield.summary.isJailed,
+        selected: selected.has(validator)
+      };
+    });
+  }
+
+  private buildWarnings(yields: ValidatorYield[]): StakingSimulationWarning[] {
+    const warnings: StakingSimulationWarning[] = [];
+
+    for (const { summary } of yields) {
+      const validator = summary.validator.toLowerCase();
+      if (summary.isJailed) {
+        warnings.push({
+          validator,
+          name: summary.name,
+          type: 'jailed',
+          message: `${summary.name} is jailed and earns no rewards until unjailed`,
+          unjailableAfter: summary.unjailableAfter ?? null
+        });
+      } else if (!summary.isActive) {
+        warnings.push({
+          validator,
+          name: summary.name,
+          type: 'inactive',
+          message: `${summary.name} is not in the active set and earns no rewards`,
+          unjailableAfter: null
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Récompenses sur l'horizon, avec capitalisation quotidienne si demandée
+   */
+  private projectRewards(amount: number, apr: number, input: StakingSimulationInput): number {
+    const dailyRate = apr / StakingSimulatorService.DAYS_PER_YEAR;
+    return input.compound
+      ? amount * (Math.pow(1 + dailyRate, input.horizonDays) - 1)
+      : amount * dailyRate * input.horizonDays;
+  }
+
+  /**
+   * Statistiques de la fenêtre "day" (à défaut, la première fenêtre disponible)
+   */
+  private toYield(summary: ValidatorSummary): ValidatorYield {
+    const dayStats = summary.stats?.find(([window]) => window === 'day')?.[1] ?? summary.stats?.[0]?.[1];
+    const grossApr = dayStats ? parseFloat(dayStats.predictedApr) || 0 : 0;
+    const uptime = dayStats ? parseFloat(dayStats.uptimeFraction) || 0 : 0;
+    const commission = parseFloat(summary.commission) || 0;
+    const earns = summary.isActive && !summary.isJailed;
+
+    return {
+      summary,
+      grossApr,
+      commission,
+      uptime,
+      effectiveApr: earns ? grossApr * (1 - commission) * uptime : 0
+    };
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(6));
+  }
+}
@@ -1,6 +1,15 @@
-import { UnstakingQueueRawData, UnstakingQueueInfo, PaginationParams } from '../../types/staking.types';
+import {
+  UnstakingQueueRawData,
+  UnstakingQueueInfo,
+  PaginationParams,
+  UnstakingCalendar,
+  UnstakingCalendarBucket,
+  UnstakingCalendarParams,
+  UnstakingRestakeRatio
+} from '../../types/staking.types';
 import { PaginatedResponse } from '../../types/common.types';
 import { HypurrscanUnstakingClient } from '../../clients/hypurrscan/unstaking.client';
+import { HypurrscanValidationClient } from '../../clients/hypurrscan/validation.client';
 import { redisService } from '../../core/redis.service';
 import { ValidatorError } from '../../errors/staking.errors';
 import { logDeduplicator } from '../../utils/logDeduplicator';
@@ -8,7 +17,11 @@ import { logDeduplicator } from '../../utils/logDeduplicator';
 export class UnstakingService {
   private static instance: UnstakingService;
   private readonly unstakingClient: HypurrscanUnstakingClient;
+  private readonly validationClient: HypurrscanValidationClient;
   private readonly UPDATE_CHANNEL = 'hypurrscan:unstaking:updated';
+  // Déblocages passés, conservés après leur sortie de la queue (score : date de déblocage)
+  private readonly RELEASED_KEY = 'staking:unstaking:released';
+  private readonly CALENDAR_CACHE_PREFIX = 'staking:unstaking:calendar';
   private lastUpdate: number = 0;
 
   // HYPE utilise 8 décimales (10^8)
@@ -20,8 +33,16 @@ export class UnstakingService {
   private static readonly DEFAULT_LIMIT = 50;
   private static readonly MAX_LIMIT = 200;
 
+  // Calendrier et ratio de re-stake
+  private static readonly HOUR_MS = 60 * 60 * 1000;
+  private static readonly DAY_MS = 24 * UnstakingService.HOUR_MS;
+  private static readonly CALENDAR_CACHE_TTL = 30; // secondes
+  private static readonly RESTAKE_LOOKBACK_DAYS = 30;
+  private static readonly RESTAKE_WINDOW_DAYS = 7;
+
   private constructor() {
     this.unstakingClient = HypurrscanUnstakingClient.getInstance();
+    this.validationClient = HypurrscanValidationClient.getInstance();
     this.setupSubscriptions();
   }
 
@@ -32,6 +53,7 @@ export class UnstakingService {
         if (type === 'DATA_UPDATED') {
           this.lastUpdate = timestamp;
           logDeduplicator.info('Unstaking queue data updated', { timestamp });
+          await this.archiveReleasedEntries();
         }
       } catch (error) {
         logDeduplicator.error('Error processing unstaking cache update:', { 
@@ -275,6 +297,192 @@ export class UnstakingService {
     }
   }
 
+  /**
+   * Calendrier prévisionnel des déblocages (par heure et par jour), plus gros déblocages à venir
+   * et ratio historique de re-stake des HYPE débloqués
+   */
+  public async getUnstakingCalendar(params: UnstakingCalendarParams): Promise<UnstakingCalendar> {
+    const cacheKey = `${this.CALENDAR_CACHE_PREFIX}:${params.days}:${params.top}`;
+    const cached = await redisService.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached) as UnstakingCalendar;
+    }
+
+    try {
+      const rawUnstaking = await this.unstakingClient.getUnstakingQueue();
+
+      const now = Date.now();
+      const to = now + params.days * UnstakingService.DAY_MS;
+      const upcoming = rawUnstaking.filter(item => item.time >= now && item.time <= to);
+
+      const hourStart = Math.floor(now / UnstakingService.HOUR_MS) * UnstakingService.HOUR_MS;
+      const dayStart = Math.floor(now / UnstakingService.DAY_MS) * UnstakingService.DAY_MS;
+
+      const calendar: UnstakingCalendar = {
+        hourly: this.buildCalendarBuckets(upcoming, hourStart, to, UnstakingService.HOUR_MS),
+        daily: this.buildCalendarBuckets(upcoming, dayStart, to, UnstakingService.DAY_MS),
+        largestReleases: [...upcoming]
+          .sort((a, b) => b.wei - a.wei)
+          .slice(0, params.top)
+          .map(item => ({
+            time: this.timestampToISOString(item.time),
+            user: item.user,
+            amount: this.weiToHype(item.wei)
+          })),
+        totals: {
+          totalTokens: Math.round(upcoming.reduce((sum, item) => sum + this.weiToHype(item.wei), 0) * 100) / 100,
+          transactionCount: upcoming.length,
+          uniqueUsers: new Set(upcoming.map(item => item.user)).size
+        },
+        restakeRatio: await this.computeRestakeRatio(rawUnstaking, now),
+        from: this.timestampToISOString(now),
+        to: this.timestampToISOString(to),
+        lastUpdate: this.lastUpdate
+      };
+
+      await redisService.set(cacheKey, JSON.stringify(calendar), UnstakingService.CALENDAR_CACHE_TTL);
+
+      logDeduplicator.info('Unstaking calendar calculated successfully', {
+        days: params.days,
+        upcomingCount: upcoming.length,
+        upcomingTokens: calendar.totals.totalTokens,
+        restakeRatio: calendar.restakeRatio.ratio
+      });
+
+      return calendar;
+    } catch (error) {
+      logDeduplicator.error('Error calculating unstaking calendar:', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new ValidatorError('Failed to calculate unstaking calendar');
+    }
+  }
+
+  /**
+   * Regroupe les déblocages par intervalle, intervalles vides inclus
+   */
+  private buildCalendarBuckets(
+    items: UnstakingQueueRawData[],
+    start: number,
+    end: number,
+    intervalMs: number
+  ): UnstakingCalendarBucket[] {
+    const count = Math.max(1, Math.ceil((end - start) / intervalMs));
+    const buckets = Array.from({ length: count }, () => ({ tokens: 0, transactions: 0, users: new Set<string>() }));
+
+    for (const item of items) {
+      const index = Math.min(count - 1, Math.floor((item.time - start) / intervalMs));
+      if (index < 0) continue;
+      buckets[index].tokens += this.weiToHype(item.wei);
+      buckets[index].transactions += 1;
+      buckets[index].users.add(item.user);
+    }
+
+    return buckets.map((bucket, index) => ({
+      time: this.timestampToISOString(start + index * intervalMs),
+      totalTokens: Math.round(bucket.tokens * 100) / 100,
+      transactionCount: bucket.transactions,
+      uniqueUsers: bucket.users.size
+    }));
+  }
+
+  /**
+   * Part des HYPE débloqués re-délégués par le même utilisateur dans les RESTAKE_WINDOW_DAYS suivant le déblocage
+   * Les délégations proviennent des validations Hypurrscan, le ratio est limité à leur profondeur d'historique
+   */
+  private async computeRestakeRatio(rawUnstaking: UnstakingQueueRawData[], now: number): Promise<UnstakingRestakeRatio> {
+    const since = now - UnstakingService.RESTAKE_LOOKBACK_DAYS * UnstakingService.DAY_MS;
+    const windowMs = UnstakingService.RESTAKE_WINDOW_DAYS * UnstakingService.DAY_MS;
+
+    const [archived, validations] = await Promise.all([
+      redisService.getClient().zrangebyscore(this.RELEASED_KEY, since, now),
+      this.validationClient.getValidations()
+    ]);
+
+    // Déblocages passés : archivés et encore présents dans la queue, dédoublonnés
+    const releases = new Map<string, UnstakingQueueRawData>();
+    for (const member of archived) {
+      const item = JSON.parse(member) as UnstakingQueueRawData;
+      releases.set(this.releaseKey(item), item);
+    }
+    for (const item of rawUnstaking) {
+      if (item.time >= since && item.time < now) {
+        releases.set(this.releaseKey(item), item);
+      }
+    }
+
+    const delegationsByUser = new Map<string, { time: number; wei: number }[]>();
+    let oldestDelegation: number | null = null;
+    for (const validation of validations) {
+      if (validation.action.type !== 'tokenDelegate' || validation.error !== null || validation.action.isUndelegate) {
+        continue;
+      }
+      const user = validation.user.toLowerCase();
+      const delegations = delegationsByUser.get(user) ?? [];
+      delegations.push({ time: validation.time, wei: validation.action.wei });
+      delegationsByUser.set(user, delegations);
+      oldestDelegation = oldestDelegation === null ? validation.time : Math.min(oldestDelegation, validation.time);
+    }
+
+    let unlockedWei = 0;
+    let restakedWei = 0;
+    let restakedCount = 0;
+    for (const release of releases.values()) {
+      const delegatedWei = (delegationsByUser.get(release.user.toLowerCase()) ?? [])
+        .filter(delegation => delegation.time >= release.time && delegation.time <= release.time + windowMs)
+        .reduce((sum, delegation) => sum + delegation.wei, 0);
+
+      unlockedWei += release.wei;
+      if (delegatedWei > 0) {
+        restakedWei += Math.min(release.wei, delegatedWei);
+        restakedCount += 1;
+      }
+    }
+
+    return {
+      lookbackDays: UnstakingService.RESTAKE_LOOKBACK_DAYS,
+      windowDays: UnstakingService.RESTAKE_WINDOW_DAYS,
+      unlockedTokens: Math.round(this.weiToHype(unlockedWei) * 100) / 100,
+      restakedTokens: Math.round(this.weiToHype(restakedWei) * 100) / 100,
+      ratio: unlockedWei > 0 ? Math.round((restakedWei / unlockedWei) * 10000) / 10000 : null,
+      unlockCount: releases.size,
+      restakedCount,
+      delegationsSince: oldestDelegation !== null ? this.timestampToISOString(oldestDelegation) : null
+    };
+  }
+
+  /**
+   * Archive les déblocages échus, qui finissent par sortir de la queue Hypurrscan
+   */
+  private async archiveReleasedEntries(): Promise<void> {
+    try {
+      const now = Date.now();
+      const rawUnstaking = await this.unstakingClient.getUnstakingQueue();
+      const released = rawUnstaking.filter(item => item.time <= now);
+
+      const client = redisService.getClient();
+      if (released.length > 0) {
+        await client.zadd(
+          this.RELEASED_KEY,
+          ...released.flatMap(item => [item.time, JSON.stringify({ time: item.time, user: item.user, wei: item.wei })])
+        );
+      }
+      await client.zremrangebyscore(
+        this.RELEASED_KEY,
+        '-inf',
+        now - UnstakingService.RESTAKE_LOOKBACK_DAYS * UnstakingService.DAY_MS
+      );
+    } catch (error) {
+      logDeduplicator.error('Error archiving released unstaking entries:', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private releaseKey(item: UnstakingQueueRawData): string {
+    return `${item.user.toLowerCase()}:${item.time}:${item.wei}`;
+  }
+
   /**
    * Démarre le polling du client
    */
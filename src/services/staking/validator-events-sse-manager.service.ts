@@ -0,0 +1,49 @@
+import { BaseSSEManagerService } from '../../core/base.sse.manager.service';
+import { ValidatorEvent, ValidatorEventsStreamFilters } from '../../types/staking.types';
+import { VALIDATOR_EVENTS_STREAM_CONFIG } from '../../constants/staking.constants';
+
+/**
+ * Validator Events SSE Manager Service
+ * Manages Server-Sent Events connections for the validator change events feed
+ * Missed events are not replayed: clients backfill with GET /staking/validators/events
+ */
+export class ValidatorEventsSSEManagerService extends BaseSSEManagerService<
+  ValidatorEvent,
+  ValidatorEventsStreamFilters,
+  'validator_event'
+> {
+  private static instance: ValidatorEventsSSEManagerService;
+
+  private constructor() {
+    super(VALIDATOR_EVENTS_STREAM_CONFIG, 'Validator events', 'validator_event');
+  }
+
+  public static getInstance(): ValidatorEventsSSEManagerService {
+    if (!ValidatorEventsSSEManagerService.instance) {
+      ValidatorEventsSSEManagerService.instance = new ValidatorEventsSSEManagerService();
+    }
+    return ValidatorEventsSSEManagerService.instance;
+  }
+
+  /**
+   * Broadcast new events to all connected clients (all instances)
+   * Called by ValidatorHistoryService when events are detected
+   */
+  public async broadcastEvents(events: ValidatorEvent[]): Promise<void> {
+    await this.broadcast(events);
+  }
+
+  /**
+   * Check if an event matches a client's filters
+   * Also used by the /staking/validators/events feed
+   */
+  public matchesFilters(event: ValidatorEvent, filters: ValidatorEventsStreamFilters): boolean {
+    if (filters.validators && !filters.validators.includes(event.validator.toLowerCase())) return false;
+    if (filters.types && !filters.types.includes(event.type)) return false;
+    return true;
+  }
+
+  protected getEventId(event: ValidatorEvent): string {
+    return String(event.id);
+  }
+}
@@ -0,0 +1,412 @@
+import {
+  ValidatorEvent,
+  ValidatorEventsQueryParams,
+  ValidatorEventsResponse,
+  ValidatorEventType,
+  ValidatorHistoryInterval,
+  ValidatorHistoryResponse,
+  ValidatorSnapshotPoint,
+  ValidatorSummary
+} from '../../types/staking.types';
+import { redisService } from '../../core/redis.service';
+import {
+  validatorHistoryRepository,
+  ValidatorEventInput,
+  ValidatorSnapshotInput
+} from '../../repositories/validatorHistory.repository';
+import { ValidatorEventsSSEManagerService } from './validator-events-sse-manager.service';
+import { VALIDATOR_HISTORY_CONFIG } from '../../constants/staking.constants';
+import { ValidatorError, ValidatorNotFoundError } from '../../errors/staking.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Dernier état connu d'un validateur, avec les références de stake / uptime
+ * à partir desquelles les variations sont mesurées
+ */
+interface ValidatorState {
+  stake: number;
+  stakeReference: number;
+  commission: number;
+  uptime: number;
+  uptimeReference: number;
+  isActive: boolean;
+  isJailed: boolean;
+}
+
+/**
+ * Historique des validateurs : snapshots périodiques et événements de changement
+ * (stake, commission, jail / unjail, activation, baisse d'uptime)
+ */
+export class ValidatorHistoryService {
+  private static instance: ValidatorHistoryService;
+
+  private static readonly HOUR_MS = 60 * 60 * 1000;
+  private static readonly DAY_MS = 24 * ValidatorHistoryService.HOUR_MS;
+  private static readonly PURGE_INTERVAL_MS = ValidatorHistoryService.DAY_MS;
+
+  private static readonly INTERVALS: Record<ValidatorHistoryInterval, number> = {
+    '15m': VALIDATOR_HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS,
+    '1h': ValidatorHistoryService.HOUR_MS,
+    '1d': ValidatorHistoryService.DAY_MS
+  };
+
+  private readonly UPDATE_CHANNEL = 'staking:validators:updated';
+  private readonly CACHE_KEY = 'staking:validators:raw_data';
+
+  private readonly sseManager: ValidatorEventsSSEManagerService;
+
+  private isPolling = false;
+  private isSubscribed = false;
+  private lastSnapshotBucket = 0;
+  private lastDetectionBucket = 0;
+  private purgeInterval: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.sseManager = ValidatorEventsSSEManagerService.getInstance();
+  }
+
+  public static getInstance(): ValidatorHistoryService {
+    if (!ValidatorHistoryService.instance) {
+      ValidatorHistoryService.instance = new ValidatorHistoryService();
+    }
+    return ValidatorHistoryService.instance;
+  }
+
+  /**
+   * Démarre l'enregistrement des snapshots et la détection des événements à chaque mise à jour du cache validateurs
+   */
+  public startPolling(): void {
+    if (this.isPolling) {
+      logDeduplicator.warn('Validator history tracking already started');
+      return;
+    }
+
+    this.isPolling = true;
+    if (!this.isSubscribed) {
+      redisService.subscribe(this.UPDATE_CHANNEL, async (message) => {
+        try {
+          const { type, timestamp } = JSON.parse(message);
+          if (type === 'DATA_UPDATED') {
+            await this.handleDataUpdated(timestamp ?? Date.now());
+          }
+        } catch (error) {
+          logDeduplicator.error('Error processing validator history update:', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+      this.isSubscribed = true;
+    }
+
+    this.purgeInterval = setInterval(() => {
+      this.purgeOldHistory();
+    }, ValidatorHistoryService.PURGE_INTERVAL_MS);
+
+    logDeduplicator.info('Validator history tracking started', {
+      snapshotIntervalMs: VALIDATOR_HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS,
+      detectionIntervalMs: VALIDATOR_HISTORY_CONFIG.DETECTION_INTERVAL_MS
+    });
+  }
+
+  public stopPolling(): void {
+    this.isPolling = false;
+    if (this.purgeInterval) {
+      clearInterval(this.purgeInterval);
+      this.purgeInterval = null;
+    }
+    logDeduplicator.info('Validator history tracking stopped');
+  }
+
+  /**
+   * Historique d'un validateur (un point par intervalle) et ses événements sur la même période
+   */
+  public async getValidatorHistory(
+    address: string,
+    interval: ValidatorHistoryInterval,
+    hours: number
+  ): Promise<ValidatorHistoryResponse> {
+    const validator = address.toLowerCase();
+    const sinceMs = Date.now() - hours * ValidatorHistoryService.HOUR_MS;
+
+    const [summaries, history, { events }] = await Promise.all([
+      this.getSummaries(),
+      validatorHistoryRepository.findHistory(validator, sinceMs, ValidatorHistoryService.INTERVALS[interval]),
+      validatorHistoryRepository.findEvents({
+        validators: [validator],
+        sinceMs,
+        limit: 500
+      })
+    ]);
+
+    const summary = summaries.find(s => s.validator.toLowerCase() === validator);
+    if (!summary && history.length === 0) {
+      throw new ValidatorNotFoundError(`Validator ${address} not found`);
+    }
+
+    return {
+      success: true,
+      data: {
+        validator,
+        name: summary?.name ?? history[history.length - 1].name,
+        interval,
+        current: summary ? this.toPoint(this.toSnapshot(summary, Date.now())) : null,
+        history: history.map(snapshot => this.toPoint(snapshot)),
+        events
+      }
+    };
+  }
+
+  /**
+   * Événements récents de tous les validateurs (du plus récent au plus ancien)
+   */
+  public async getEvents(params: ValidatorEventsQueryParams): Promise<ValidatorEventsResponse> {
+    const sinceMs = Date.now() - params.hours * ValidatorHistoryService.HOUR_MS;
+    const { events, total } = await validatorHistoryRepository.findEvents({
+      validators: params.validators,
+      types: params.types,
+      sinceMs,
+      limit: params.limit
+    });
+
+    return {
+      success: true,
+      data: events,
+      metadata: {
+        total,
+        since: new Date(sinceMs).toISOString()
+      }
+    };
+  }
+
+  private async handleDataUpdated(timestamp: number): Promise<void> {
+    if (!this.isPolling) return;
+
+    const snapshotBucket = this.toBucket(timestamp, VALIDATOR_HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS);
+    const detectionBucket = this.toBucket(timestamp, VALIDATOR_HISTORY_CONFIG.DETECTION_INTERVAL_MS);
+    if (snapshotBucket === this.lastSnapshotBucket && detectionBucket === this.lastDetectionBucket) {
+      return;
+    }
+
+    const raw = await redisService.get(this.CACHE_KEY);
+    if (!raw) return;
+    const summaries = JSON.parse(raw) as ValidatorSummary[];
+
+    if (snapshotBucket !== this.lastSnapshotBucket) {
+      this.lastSnapshotBucket = snapshotBucket;
+      await this.saveSnapshots(summaries, snapshotBucket);
+    }
+
+    if (detectionBucket !== this.lastDetectionBucket) {
+      this.lastDetectionBucket = detectionBucket;
+      await this.detectEvents(summaries, detectionBucket, timestamp);
+    }
+  }
+
+  private async saveSnapshots(summaries: ValidatorSummary[], bucket: number): Promise<void> {
+    const snapshots = summaries.map(summary => this.toSnapshot(summary, bucket));
+    await validatorHistoryRepository.upsertSnapshots(snapshots);
+    logDeduplicator.info('Validator snapshots saved', {
+      validators: snapshots.length,
+      time: new Date(bucket).toISOString()
+    });
+  }
+
+  /**
+   * Compare les résumés à l'état précédent (partagé entre instances)
+   * Une seule instance traite chaque intervalle de détection grâce au verrou Redis
+   */
+  private async detectEvents(summaries: ValidatorSummary[], bucket: number, timestamp: number): Promise<void> {
+    const client = redisService.getClient();
+    const lock = await client.set(
+      `${VALIDATOR_HISTORY_CONFIG.LOCK_PREFIX}:${bucket}`,
+      '1',
+      'EX',
+      Math.ceil((2 * VALIDATOR_HISTORY_CONFIG.DETECTION_INTERVAL_MS) / 1000),
+      'NX'
+    );
+    if (lock !== 'OK') return;
+
+    const stored = await client.hgetall(VALIDATOR_HISTORY_CONFIG.STATE_KEY);
+    const detected: ValidatorEventInput[] = [];
+    const nextStates: Record<string, string> = {};
+
+    for (const summary of summaries) {
+      const snapshot = this.toSnapshot(summary, timestamp);
+      const previous = stored[snapshot.validator]
+        ? JSON.parse(stored[snapshot.validator]) as ValidatorState
+        : null;
+
+      // Premier relevé d'un validateur : état de référence, pas d'événement
+      const { events, state } = previous
+        ? this.compare(snapshot, previous)
+        : { events: [], state: this.initialState(snapshot) };
+
+      detected.push(...events);
+      nextStates[snapshot.validator] = JSON.stringify(state);
+    }
+
+    // Événements enregistrés avant d'avancer l'état : si l'insertion échoue,
+    // les transitions sont de nouveau détectées au prochain intervalle
+    const events = await validatorHistoryRepository.createEvents(detected);
+    if (Object.keys(nextStates).length > 0) {
+      await client.hset(VALIDATOR_HISTORY_CONFIG.STATE_KEY, nextStates);
+    }
+    if (events.length === 0) return;
+
+    await this.sseManager.broadcastEvents(events);
+
+    logDeduplicator.info('Validator events detected', {
+      count: events.length,
+      types: [...new Set(events.map(event => event.type))]
+    });
+  }
+
+  private compare(
+    snapshot: ValidatorSnapshotInput,
+    previous: ValidatorState
+  ): { events: ValidatorEventInput[]; state: ValidatorState } {
+    const events: ValidatorEventInput[] = [];
+    const event = (
+      type: ValidatorEventType,
+      previousValue: number | null,
+      currentValue: number | null
+    ): ValidatorEventInput => ({
+      validator: snapshot.validator,
+      name: snapshot.name,
+      type,
+      previousValue,
+      currentValue,
+      unjailableAfter: type === 'jailed' ? snapshot.unjailableAfter : null,
+      timeMs: snapshot.timeMs
+    });
+
+    if (snapshot.isJailed !== previous.isJailed) {
+      events.push(event(snapshot.isJailed ? 'jailed' : 'unjailed', null, null));
+    }
+    if (snapshot.isActive !== previous.isActive) {
+      events.push(event(snapshot.isActive ? 'activated' : 'deactivated', null, null));
+    }
+    if (snapshot.commission !== previous.commission) {
+      events.push(event(
+        snapshot.commission > previous.commission ? 'commission_increase' : 'commission_decrease',
+        previous.commission,
+        snapshot.commission
+      ));
+    }
+
+    // Stake : variation cumulée depuis la dernière référence, pour capter aussi les mouvements progressifs
+    let stakeReference = previous.stakeReference;
+    const stakeChangePct = stakeReference > 0
+      ? ((snapshot.stake - stakeReference) / stakeReference) * 100
+      : 0;
+    if (Math.abs(stakeChangePct) >= VALIDATOR_HISTORY_CONFIG.STAKE_CHANGE_MIN_PCT) {
+      events.push(event(stakeChangePct > 0 ? 'stake_increase' : 'stake_decrease', stakeReference, snapshot.stake));
+      stakeReference = snapshot.stake;
+    } else if (stakeReference <= 0) {
+      stakeReference = snapshot.stake;
+    }
+
+    // Uptime : baisse depuis le dernier plus haut, la référence suit les remontées
+    let uptimeReference = Math.max(previous.uptimeReference, snapshot.uptime);
+    if (uptimeReference - snapshot.uptime >= VALIDATOR_HISTORY_CONFIG.UPTIME_DROP_MIN_POINTS) {
+      events.push(event('uptime_drop', uptimeReference, snapshot.uptime));
+      uptimeReference = snapshot.uptime;
+    }
+
+    return {
+      events,
+      state: {
+        stake: snapshot.stake,
+        stakeReference,
+        commission: snapshot.commission,
+        uptime: snapshot.uptime,
+        uptimeReference,
+        isActive: snapshot.isActive,
+        isJailed: snapshot.isJailed
+      }
+    };
+  }
+
+  private initialState(snapshot: ValidatorSnapshotInput): ValidatorState {
+    return {
+      stake: snapshot.stake,
+      stakeReference: snapshot.stake,
+      commission: snapshot.commission,
+      uptime: snapshot.uptime,
+      uptimeReference: snapshot.uptime,
+      isActive: snapshot.isActive,
+      isJailed: snapshot.isJailed
+    };
+  }
+
+  /**
+   * Stake converti depuis wei (10^8), commission / uptime / APR en %, statistiques de la fenêtre "day"
+   */
+  private toSnapshot(summary: ValidatorSummary, timeMs: number): ValidatorSnapshotInput {
+    const dayStats = summary.stats?.find(([window]) => window === 'day')?.[1] ?? summary.stats?.[0]?.[1];
+
+    return {
+      validator: summary.validator.toLowerCase(),
+      timeMs,
+      name: summary.name,
+      stake: Number(summary.stake) / 100000000,
+      commission: this.round(parseFloat(summary.commission) * 100),
+      uptime: dayStats ? this.round(parseFloat(dayStats.uptimeFraction) * 100) : 0,
+      apr: dayStats ? this.round(parseFloat(dayStats.predictedApr) * 100) : 0,
+      isActive: summary.isActive,
+      isJailed: summary.isJailed,
+      unjailableAfter: summary.unjailableAfter ?? null,
+      nRecentBlocks: summary.nRecentBlocks
+    };
+  }
+
+  private toPoint(snapshot: ValidatorSnapshotInput): ValidatorSnapshotPoint {
+    return {
+      time: new Date(snapshot.timeMs).toISOString(),
+      timeMs: snapshot.timeMs,
+      stake: snapshot.stake,
+      commission: snapshot.commission,
+      uptime: snapshot.uptime,
+      apr: snapshot.apr,
+      isActive: snapshot.isActive,
+      isJailed: snapshot.isJailed,
+      unjailableAfter: snapshot.unjailableAfter,
+      nRecentBlocks: snapshot.nRecentBlocks
+    };
+  }
+
+  private async getSummaries(): Promise<ValidatorSummary[]> {
+    const raw = await redisService.get(this.CACHE_KEY);
+    if (!raw) {
+      throw new ValidatorError('No validator data available in cache', 503);
+    }
+    return JSON.parse(raw) as ValidatorSummary[];
+  }
+
+  private async purgeOldHistory(): Promise<void> {
+    try {
+      const now = Date.now();
+      const [snapshots, events] = await Promise.all([
+        validatorHistoryRepository.deleteSnapshotsOlderThan(
+          now - VALIDATOR_HISTORY_CONFIG.SNAPSHOT_RETENTION_DAYS * ValidatorHistoryService.DAY_MS
+        ),
+        validatorHistoryRepository.deleteEventsOlderThan(
+          now - VALIDATOR_HISTORY_CONFIG.EVENT_RETENTION_DAYS * ValidatorHistoryService.DAY_MS
+        )
+      ]);
+      logDeduplicator.info('Validator history purged', { snapshots, events });
+    } catch (error) {
+      logDeduplicator.error('Validator history purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private toBucket(timestamp: number, intervalMs: number): number {
+    return Math.floor(timestamp / intervalMs) * intervalMs;
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+}
@@ -0,0 +1,440 @@
+import { randomBytes } from 'crypto';
+import { TelegramUser, TelegramSubscription } from '@prisma/client';
+import { redisService } from '../../core/redis.service';
+import { TelegramBotApiClient } from '../../clients/telegram/telegram.bot.client';
+import { TELEGRAM_CONSTANTS } from '../../constants/telegram.constants';
+import {
+  TelegramUserRegisterInput,
+  TelegramSubscriptionCreateInput,
+  TelegramSubscriptionUpdateInput
+} from '../../schemas/telegram.schema';
+import {
+  TelegramUserResponse,
+  TelegramSubscriptionResponse,
+  TelegramLinkCodeResponse,
+  TelegramTransport,
+  TelegramDispatchResult
+} from '../../types/telegram.types';
+import { Liquidation } from '../../types/liquidations.types';
+import {
+  TelegramUserNotFoundError,
+  TelegramSubscriptionNotFoundError,
+  TelegramSubscriptionLimitExceededError,
+  TelegramInvalidLinkCodeError,
+  TelegramAlreadyLinkedError
+} from '../../errors/telegram.errors';
+import { telegramRepository, TelegramSubscriptionWithUser } from '../../repositories/telegram.repository';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+
+/**
+ * Service for the Telegram liquidation alert bot
+ * Manages Telegram users and their subscriptions, and delivers liquidation alerts
+ * Follows the Singleton pattern as per architecture
+ */
+export class TelegramService {
+  private static instance: TelegramService;
+
+  private static readonly LINK_CODE_KEY_PREFIX = 'telegram:link';
+  private static readonly LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  private static readonly SEND_INTERVAL_MS = 50; // Stay under the Bot API limit (~30 msg/s)
+  private static readonly CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+  private transport: TelegramTransport | null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  private constructor() {
+    this.transport = TelegramBotApiClient.isConfigured() ? TelegramBotApiClient.getInstance() : null;
+  }
+
+  public static getInstance(): TelegramService {
+    if (!TelegramService.instance) {
+      TelegramService.instance = new TelegramService();
+    }
+    return TelegramService.instance;
+  }
+
+  /**
+   * Replace the message transport (local fake server, test double...)
+   */
+  public setTransport(transport: TelegramTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Whether alerts can be delivered
+   */
+  public isEnabled(): boolean {
+    return this.transport !== null;
+  }
+
+  /**
+   * Start the periodic purge of old sent alerts
+   */
+  public startPolling(): void {
+    if (this.cleanupTimer) {
+      logDeduplicator.warn('Telegram sent alerts cleanup already started');
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      this.purgeSentAlerts();
+    }, TelegramService.CLEANUP_INTERVAL_MS);
+
+    logDeduplicator.info('Telegram sent alerts cleanup started', {
+      intervalMs: TelegramService.CLEANUP_INTERVAL_MS,
+      alertsEnabled: this.isEnabled()
+    });
+  }
+
+  /**
+   * Stop the periodic purge
+   */
+  public stopPolling(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+      logDeduplicator.info('Telegram sent alerts cleanup stopped');
+    }
+  }
+
+  // ========== USERS ==========
+
+  /**
+   * Register a Telegram user (or refresh its profile)
+   */
+  public async registerUser(input: TelegramUserRegisterInput): Promise<TelegramUserResponse> {
+    const user = await telegramRepository.upsertUser(input);
+    logDeduplicator.info('Telegram user registered', { telegramUserId: user.id });
+    return this.toUserResponse(user);
+  }
+
+  /**
+   * Get a Telegram user by its Telegram ID
+   */
+  public async getUser(telegramId: bigint): Promise<TelegramUserResponse> {
+    return this.toUserResponse(await this.findUserOrThrow(telegramId));
+  }
+
+  /**
+   * Create a one-time code the user enters on LiquidTerminal to link both accounts
+   */
+  public async createLinkCode(telegramId: bigint): Promise<TelegramLinkCodeResponse> {
+    const user = await this.findUserOrThrow(telegramId);
+    const bytes = randomBytes(8);
+    const code = Array.from(bytes, byte =>
+      TelegramService.LINK_CODE_ALPHABET[byte % TelegramService.LINK_CODE_ALPHABET.length]
+    ).join('');
+
+    await redisService.set(
+      `${TelegramService.LINK_CODE_KEY_PREFIX}:${code}`,
+      user.id,
+      TELEGRAM_CONSTANTS.LINK_CODE_TTL_SECONDS
+    );
+
+    return { code, expiresInSeconds: TELEGRAM_CONSTANTS.LINK_CODE_TTL_SECONDS };
+  }
+
+  /**
+   * Link the Telegram user behind a link code to a LiquidTerminal user
+   */
+  public async linkUser(code: string, userId: number): Promise<TelegramUserResponse> {
+    const key = `${TelegramService.LINK_CODE_KEY_PREFIX}:${code}`;
+    const telegramUserId = await redisService.get(key);
+    if (!telegramUserId) {
+      throw new TelegramInvalidLinkCodeError();
+    }
+
+    const alreadyLinked = await telegramRepository.findUserByLinkedUserId(userId);
+    if (alreadyLinked && alreadyLinked.id !== telegramUserId) {
+      throw new TelegramAlreadyLinkedError();
+    }
+
+    const user = await telegramRepository.setLinkedUser(telegramUserId, userId);
+    await redisService.delete(key);
+
+    logDeduplicator.info('Telegram user linked', { telegramUserId, userId });
+    return this.toUserResponse(user);
+  }
+
+  /**
+   * Unlink the Telegram account of a LiquidTerminal user
+   */
+  public async unlinkUser(userId: number): Promise<void> {
+    const user = await telegramRepository.findUserByLinkedUserId(userId);
+    if (!user) {
+      throw new TelegramUserNotFoundError('No Telegram account linked to this user');
+    }
+    await telegramRepository.setLinkedUser(user.id, null);
+    logDeduplicator.info('Telegram user unlinked', { telegramUserId: user.id, userId });
+  }
+
+  // ========== SUBSCRIPTIONS ==========
+
+  public async getSubscriptions(telegramId: bigint): Promise<TelegramSubscriptionResponse[]> {
+    const user = await this.findUserOrThrow(telegramId);
+    const subscriptions = await telegramRepository.findSubscriptionsByUser(user.id);
+    return subscriptions.map(subscription => this.toSubscriptionResponse(subscription));
+  }
+
+  public async createSubscription(
+    telegramId: bigint,
+    input: TelegramSubscriptionCreateInput
+  ): Promise<TelegramSubscriptionResponse> {
+    const user = await this.findUserOrThrow(telegramId);
+
+    const count = await telegramRepository.countSubscriptionsByUser(user.id);
+    if (count >= TELEGRAM_CONSTANTS.MAX_SUBSCRIPTIONS_PER_USER) {
+      throw new TelegramSubscriptionLimitExceededError();
+    }
+
+    const subscription = await telegramRepository.createSubscription(user.id, input);
+    logDeduplicator.info('Telegram subscription created', {
+      telegramUserId: user.id,
+      subscriptionId: subscription.id
+    });
+    return this.toSubscriptionResponse(subscription);
+  }
+
+  public async updateSubscription(
+    telegramId: bigint,
+    subscriptionId: string,
+    input: TelegramSubscriptionUpdateInput
+  ): Promise<TelegramSubscriptionResponse> {
+    const user = await this.findUserOrThrow(telegramId);
+    await this.findSubscriptionOrThrow(subscriptionId, user.id);
+
+    const subscription = await telegramRepository.updateSubscription(subscriptionId, input);
+    return this.toSubscriptionResponse(subscription);
+  }
+
+  public async deleteSubscription(telegramId: bigint, subscriptionId: string): Promise<void> {
+    const user = await this.findUserOrThrow(telegramId);
+    await this.findSubscriptionOrThrow(subscriptionId, user.id);
+    await telegramRepository.deleteSubscription(subscriptionId);
+    logDeduplicator.info('Telegram subscription deleted', { telegramUserId: user.id, subscriptionId });
+  }
+
+  // ========== ALERT DELIVERY ==========
+
+  /**
+   * Deliver alerts for new liquidations to every matching subscription
+   * A user receives each liquidation at most once, even with several matching subscriptions
+   * or several server instances (deduplicated through TelegramSentAlert)
+   */
+  public async dispatchLiquidationAlerts(liquidations: Liquidation[]): Promise<TelegramDispatchResult> {
+    const result: TelegramDispatchResult = { matched: 0, skipped: 0, sent: 0, failed: 0 };
+    if (!this.transport || liquidations.length === 0) {
+      return result;
+    }
+
+    const subscriptions = await telegramRepository.findActiveSubscriptions('liquidations');
+    if (subscriptions.length === 0) {
+      return result;
+    }
+
+    const linkedUserIds = [...new Set(
+      subscriptions
+        .filter(sub => sub.useLinkedWallets && sub.telegramUser.linkedUserId !== null)
+        .map(sub => sub.telegramUser.linkedUserId as number)
+    )];
+    const linkedWallets = await telegramRepository.findWalletAddressesByUsers(linkedUserIds);
+
+    // Group matches by Telegram user: first matching subscription wins
+    const matches = new Map<string, { user: TelegramUser; liquidation: Liquidation; subscriptionName: string }>();
+    for (const subscription of subscriptions) {
+      const wallets = this.getSubscriptionWallets(subscription, linkedWallets);
+      for (const liquidation of liquidations) {
+        const key = `${subscription.telegramUserId}:${this.getLiquidationId(liquidation)}`;
+        if (!matches.has(key) && this.matchesSubscription(liquidation, subscription, wallets)) {
+          matches.set(key, {
+            user: subscription.telegramUser,
+            liquidation,
+            subscriptionName: subscription.name
+          });
+        }
+      }
+    }
+
+    result.matched = matches.size;
+    if (matches.size === 0) {
+      return result;
+    }
+
+    const alreadySent = await telegramRepository.findSentAlertKeys(
+      [...new Set(subscriptions.map(sub => sub.telegramUserId))],
+      liquidations.map(liq => this.getLiquidationId(liq))
+    );
+
+    const blockedUsers = new Set<string>();
+    for (const [key, match] of matches) {
+      if (alreadySent.has(key) || blockedUsers.has(match.user.id)) {
+        result.skipped++;
+        continue;
+      }
+
+      const claimed = await telegramRepository.claimSentAlert(match.user.id, this.getLiquidationId(match.liquidation));
+      if (!claimed) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await this.transport.sendMessage({
+          chatId: match.user.telegramId.toString(),
+          text: this.formatLiquidationAlert(match.liquidation, match.subscriptionName),
+          parseMode: 'HTML'
+        });
+        result.sent++;
+      } catch (error) {
+        result.failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        logDeduplicator.warn('Telegram alert delivery failed', {
+          telegramUserId: match.user.id,
+          error: message
+        });
+
+        // 403: the user blocked the bot or deleted the chat
+        if (message.includes('403')) {
+          blockedUsers.add(match.user.id);
+          const deactivated = await telegramRepository.deactivateSubscriptionsByUser(match.user.id);
+          logDeduplicator.info('Telegram subscriptions deactivated for blocked chat', {
+            telegramUserId: match.user.id,
+            deactivated
+          });
+        }
+      }
+
+      await new Promise(resolve => setTimeout(resolve, TelegramService.SEND_INTERVAL_MS));
+    }
+
+    logDeduplicator.info('Telegram liquidation alerts dispatched', { ...result });
+    return result;
+  }
+
+  /**
+   * Purge sent alerts older than the retention window
+   */
+  private async purgeSentAlerts(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - TELEGRAM_CONSTANTS.SENT_ALERT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const deleted = await telegramRepository.deleteSentAlertsBefore(cutoff);
+      logDeduplicator.info('Telegram sent alerts purged', { deleted, cutoff: cutoff.toISOString() });
+    } catch (error) {
+      logDeduplicator.error('Telegram sent alerts purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Wallet filter of a subscription: explicit wallets plus linked wallets if enabled
+   * Returns null when the subscription does not filter on wallets
+   */
+  private getSubscriptionWallets(
+    subscription: TelegramSubscriptionWithUser,
+    linkedWallets: Map<number, string[]>
+  ): Set<string> | null {
+    if (subscription.filterWallets.length === 0 && !subscription.useLinkedWallets) {
+      return null;
+    }
+
+    const wallets = new Set(subscription.filterWallets.map(address => address.toLowerCase()));
+    const linkedUserId = subscription.telegramUser.linkedUserId;
+    if (subscription.useLinkedWallets && linkedUserId !== null) {
+      for (const address of linkedWallets.get(linkedUserId) || []) {
+        wallets.add(address);
+      }
+    }
+    return wallets;
+  }
+
+  private matchesSubscription(
+    liquidation: Liquidation,
+    subscription: TelegramSubscription,
+    wallets: Set<string> | null
+  ): boolean {
+    if (subscription.filterCoins.length > 0 &&
+      !subscription.filterCoins.some(coin => coin.toUpperCase() === liquidation.coin.toUpperCase())) {
+      return false;
+    }
+    if (liquidation.notional_total < subscription.filterMinUsd) {
+      return false;
+    }
+    if (wallets && !wallets.has(liquidation.liquidated_user.toLowerCase())) {
+      return false;
+    }
+    return true;
+  }
+
+  private getLiquidationId(liquidation: Liquidation): string {
+    return String(liquidation.tid);
+  }
+
+  private formatLiquidationAlert(liquidation: Liquidation, subscriptionName: string): string {
+    const emoji = liquidation.liq_dir === 'Long' ? '🟢' : '🔴';
+    const user = liquidation.liquidated_user;
+
+    return [
+      `🚨 <b>Liquidation</b> · <i>${this.escapeHtml(subscriptionName)}</i>`,
+      '',
+      `${emoji} <b>${this.escapeHtml(liquidation.coin)}</b> ${liquidation.liq_dir}: $${this.formatAmount(liquidation.notional_total)}`,
+      `💵 Mark: $${liquidation.mark_px.toLocaleString('en-US', { maximumFractionDigits: 6 })}`,
+      `👤 <code>${user.slice(0, 6)}...${user.slice(-4)}</code>`,
+      `🕐 ${liquidation.time.slice(0, 16).replace('T', ' ')} UTC`
+    ].join('\n');
+  }
+
+  private formatAmount(amount: number): string {
+    if (amount >= 1_000_000) return `${(amount / 1_000_000).toFixed(2)}M`;
+    if (amount >= 1_000) return `${(amount / 1_000).toFixed(1)}K`;
+    return amount.toFixed(0);
+  }
+
+  private escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private async findUserOrThrow(telegramId: bigint): Promise<TelegramUser> {
+    const user = await telegramRepository.findUserByTelegramId(telegramId);
+    if (!user) {
+      throw new TelegramUserNotFoundError();
+    }
+    return user;
+  }
+
+  private async findSubscriptionOrThrow(subscriptionId: string, telegramUserId: string): Promise<TelegramSubscription> {
+    const subscription = await telegramRepository.findSubscriptionForUser(subscriptionId, telegramUserId);
+    if (!subscription) {
+      throw new TelegramSubscriptionNotFoundError();
+    }
+    return subscription;
+  }
+
+  private toUserResponse(user: TelegramUser): TelegramUserResponse {
+    return {
+      id: user.id,
+      telegramId: user.telegramId.toString(),
+      username: user.username,
+      firstName: user.firstName,
+      linkedUserId: user.linkedUserId,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt
+    };
+  }
+
+  private toSubscriptionResponse(subscription: TelegramSubscription): TelegramSubscriptionResponse {
+    return {
+      id: subscription.id,
+      telegramUserId: subscription.telegramUserId,
+      name: subscription.name,
+      isActive: subscription.isActive,
+      subscriptionType: subscription.subscriptionType,
+      filterCoins: subscription.filterCoins,
+      filterMinUsd: subscription.filterMinUsd,
+      filterWallets: subscription.filterWallets,
+      useLinkedWallets: subscription.useLinkedWallets,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { HyperliquidVaultClient } from '../../clients/hyperliquid/vault/hlpvault.client';
+import {
+  TimeFrame,
+  VaultAnalytics,
+  VaultAnalyticsResponse,
+  VaultDetails,
+  VaultFollowerAnalytics,
+  VaultLeaderAnalytics,
+  VaultPerformance,
+  VaultPerformancePoint,
+  VaultPortfolioData
+} from '../../types/vault.types';
+import { VaultsError, VaultNotFoundError } from '../../errors/vault.errors';
+import { logDeduplicator } from '../../utils/logDeduplicator';
+import { redisService } from '../../core/redis.service';
+
+export class VaultDetailsService {
+  private static instance: VaultDetailsService;
+  private static readonly CACHE_PREFIX = 'vaults:details';
+  private static readonly CACHE_TTL = 60; // 1 minute
+  private static readonly TIME_FRAMES: TimeFrame[] = ['day', 'week', 'month', 'allTime'];
+  private static readonly YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+  private static readonly LEADER_MIN_FRACTION = 0.05; // Part minimale imposée au leader par Hyperliquid
+  private static readonly TOP_FOLLOWERS = 10;
+
+  private readonly vaultClient: HyperliquidVaultClient;
+
+  private constructor() {
+    this.vaultClient = HyperliquidVaultClient.getInstance();
+  }
+
+  public static getInstance(): VaultDetailsService {
+    if (!VaultDetailsService.instance) {
+      VaultDetailsService.instance = new VaultDetailsService();
+    }
+    return VaultDetailsService.instance;
+  }
+
+  /**
+   * Récupère le détail d'un vault : courbes par TimeFrame, métriques de performance,
+   * concentration des followers et part du leader
+   */
+  public async getVaultDetails(address: string): Promise<VaultAnalyticsResponse> {
+    const vaultAddress = address.toLowerCase();
+    const cacheKey = `${VaultDetailsService.CACHE_PREFIX}:${vaultAddress}`;
+
+    try {
+      const cachedData = await redisService.get(cacheKey);
+      if (cachedData) {
+        return { success: true, data: JSON.parse(cachedData) as VaultAnalytics };
+      }
+
+      const details = await this.vaultClient.getVaultDetailsRaw(vaultAddress);
+      if (!details) {
+        throw new VaultNotFoundError(`Vault ${address} not found`);
+      }
+
+      const analytics = this.buildAnalytics(details);
+      await redisService.set(cacheKey, JSON.stringify(analytics), VaultDetailsService.CACHE_TTL);
+
+      logDeduplicator.info('Vault details computed', {
+        vaultAddress,
+        tvl: analytics.tvl,
+        followers: analytics.followers.count
+      });
+
+      return { success: true, data: analytics };
+    } catch (error) {
+      logDeduplicator.error('Error retrieving vault details:', {
+        vaultAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error instanceof VaultsError ? error : new VaultsError('Failed to retrieve vault details', 500);
+    }
+  }
+
+  private buildAnalytics(details: VaultDetails): VaultAnalytics {
+    const portfolios = new Map(details.portfolio);
+    const performance = VaultDetailsService.TIME_FRAMES
+      .filter(timeFrame => portfolios.has(timeFrame))
+      .map(timeFrame => this.buildPerformance(timeFrame, portfolios.get(timeFrame) as VaultPortfolioData));
+
+    // TVL : dernière valeur de compte disponible (fenêtre la plus courte)
+    const latestPoints = performance.find(p => p.points.length > 0)?.points;
+    const tvl = latestPoints ? latestPoints[latestPoints.length - 1].accountValue : 0;
+
+    return {
+      name: details.name,
+      vaultAddress: details.vaultAddress,
+      description: details.description,
+      tvl: this.round(tvl),
+      apr: this.round(details.apr * 100),
+      isClosed: details.isClosed,
+      allowDeposits: details.allowDeposits,
+      relationship: details.relationship,
+      leader: this.buildLeader(details, tvl),
+      followers: this.buildFollowers(details),
+      performance,
+      lastUpdate: Date.now()
+    };
+  }
+
+  /**
+   * Courbe de rendement pondéré dans le temps : chaque période rapporte son PnL
+   * à la valeur du compte en début de période, pour neutraliser dépôts et retraits
+   */
+  private buildPerformance(timeFrame: TimeFrame, data: VaultPortfolioData): VaultPerformance {
+    const pnlByTime = new Map(data.pnlHistory.map(([time, pnl]) => [time, parseFloat(pnl)]));
+    const history = [...data.accountValueHistory].sort((a, b) => a[0] - b[0]);
+
+    const points: VaultPerformancePoint[] = [];
+    const returns: number[] = [];
+    let index = 1;
+    let peak = 1;
+    let maxDrawdown = 0;
+
+    for (const [time, value] of history) {
+      const accountValue = parseFloat(value) || 0;
+      const pnl = pnlByTime.get(time) ?? (points.length > 0 ? points[points.length - 1].pnl : 0);
+
+      if (points.length > 0) {
+        const previous = points[points.length - 1];
+        const periodReturn = previous.accountValue > 0 ? (pnl - previous.pnl) / previous.accountValue : 0;
+        returns.push(periodReturn);
+        index *= 1 + periodReturn;
+        peak = Math.max(peak, index);
+        maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - index) / peak : 0);
+      }
+
+      points.push({
+        time,
+        accountValue,
+        pnl,
+        cumulativeReturn: this.round((index - 1) * 100)
+      });
+    }
+
+    const { volatility, sharpeRatio } = this.computeRiskMetrics(returns, history.map(([time]) => time));
+
+    return {
+      timeFrame,
+      points,
+      metrics: {
+        totalReturn: this.round((index - 1) * 100),
+        pnl: points.length > 0 ? this.round(points[points.length - 1].pnl - points[0].pnl) : 0,
+        maxDrawdown: this.round(maxDrawdown * 100),
+        volatility,
+        sharpeRatio,
+        volume: parseFloat(data.vlm) || 0
+      }
+    };
+  }
+
+  /**
+   * Volatilité et ratio de type Sharpe annualisés à partir de l'écart médian entre deux points
+   */
+  private computeRiskMetrics(
+    returns: number[],
+    times: number[]
+  ): { volatility: number | null; sharpeRatio: number | null } {
+    if (returns.length < 2) {
+      return { volatility: null, sharpeRatio: null };
+    }
+
+    const steps = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+    const medianStep = steps[Math.floor(steps.length / 2)];
+    if (medianStep <= 0) {
+      return { volatility: null, sharpeRatio: null };
+    }
+    const periodsPerYear = VaultDetailsService.YEAR_MS / medianStep;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+
+    return {
+      volatility: this.round(stdDev * Math.sqrt(periodsPerYear) * 100),
+      sharpeRatio: stdDev > 0 ? this.round((mean / stdDev) * Math.sqrt(periodsPerYear)) : null
+    };
+  }
+
+  /**
+   * Concentration des followers (le leader est exclu, sa part est décrite séparément)
+   */
+  private buildFollowers(details: VaultDetails): VaultFollowerAnalytics {
+    const leader = details.leader.toLowerCase();
+    const followers = details.followers
+      .filter(follower => follower.user !== 'Leader' && follower.user.toLowerCase() !== leader)
+      .map(follower => ({
+        user: follower.user,
+        equity: parseFloat(follower.vaultEquity) || 0,
+        pnl: parseFloat(follower.pnl) || 0,
+        allTimePnl: parseFloat(follower.allTimePnl) || 0,
+        daysFollowing: follower.daysFollowing
+      }))
+      .sort((a, b) => b.equity - a.equity);
+
+    const totalEquity = followers.reduce((sum, follower) => sum + follower.equity, 0);
+    const share = (equity: number) => totalEquity > 0 ? (equity / totalEquity) * 100 : 0;
+    const topShare = (count: number) =>
+      this.round(share(followers.slice(0, count).reduce((sum, follower) => sum + follower.equity, 0)));
+
+    return {
+      count: followers.length,
+      totalEquity: this.round(totalEquity),
+      top1Share: topShare(1),
+      top5Share: topShare(5),
+      top10Share: topShare(10),
+      herfindahlIndex: this.round(followers.reduce((sum, follower) => sum + Math.pow(share(follower.equity), 2), 0)),
+      topFollowers: followers.slice(0, VaultDetailsService.TOP_FOLLOWERS).map(follower => ({
+        ...follower,
+        share: this.round(share(follower.equity))
+      }))
+    };
+  }
+
+  private buildLeader(details: VaultDetails, tvl: number): VaultLeaderAnalytics {
+    return {
+      address: details.leader,
+      fraction: this.round(details.leaderFraction * 100),
+      equity: this.round(details.leaderFraction * tvl),
+      commission: this.round(details.leaderCommission * 100),
+      minimumFraction: VaultDetailsService.LEADER_MIN_FRACTION * 100,
+      meetsMinimum: details.leaderFraction >= VaultDetailsService.LEADER_MIN_FRACTION
+    };
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(4));
+  }
+}
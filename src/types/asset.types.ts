@@ -0,0 +1,74 @@
+import { AuctionInfoWithCurrency } from './auction.types';
+import { TokenHolder } from './market.types';
+
+/**
+ * Partie spot de la vue unifiée (marché spot du token)
+ */
+export interface AssetSpotData {
+  tokenId: string;
+  tokenName: string;          // Nom on-chain (ex: UBTC)
+  marketIndex: number;
+  price: number;
+  marketCap: number;
+  volume: number;
+  change24h: number;
+  liquidity: number;          // midPx
+  supply: number;
+}
+
+/**
+ * Partie perp de la vue unifiée
+ */
+export interface AssetPerpData {
+  name: string;
+  price: number;
+  change24h: number;
+  volume: number;
+  openInterest: number;       // En coins
+  openInterestUsd: number;
+  funding: number;
+  fundingApr: number;         // En %
+  maxLeverage: number;
+  onlyIsolated: boolean;
+}
+
+/**
+ * Détails du token issus de TokenInfoService
+ */
+export interface AssetTokenData {
+  tokenId: string;
+  name: string;
+  fullName: string | null;
+  szDecimals: number;
+  weiDecimals: number;
+  evmContract: string | null;
+  deployer: string;
+  deployTime: string;
+  deployGas: string;
+  maxSupply: string;
+  totalSupply: string;
+  circulatingSupply: string;
+  holdersCount: number;
+  topHolders: TokenHolder[];
+  nonCirculatingHolders: TokenHolder[];
+}
+
+export type AssetSource = 'spot' | 'perp' | 'token' | 'auction';
+
+/**
+ * Vue unifiée d'un asset : spot, perp, infos token et auction
+ * Chaque partie vaut null si l'asset n'en a pas ou si la source est indisponible
+ */
+export interface AssetView {
+  symbol: string;
+  price: number | null;       // Prix spot, sinon prix perp
+  priceSource: 'spot' | 'perp' | null;
+  spot: AssetSpotData | null;
+  perp: AssetPerpData | null;
+  token: AssetTokenData | null;
+  auction: AuctionInfoWithCurrency | null;
+  metadata: {
+    unavailable: AssetSource[]; // Sources en erreur lors de la construction
+    generatedAt: string;
+  };
+}
@@ -1,3 +1,5 @@
+import { ExistingTokenBalance } from './market.types';
+
 export type AuctionInfo = {
   time: number;
   deployer: string;
@@ -52,4 +54,77 @@ export interface SplitAuctionsResponse {
   splitTimestamp: number; // Le timestamp de transition
   totalUsdcSpent: string; // Total USDC dépensé
   totalHypeSpent: string; // Total HYPE dépensé
-} 
\ No newline at end of file
+} 
+
+// Types pour le rapport de lancement d'un token (déploiement, genesis, performance depuis le lancement)
+export interface TokenGenesisAllocation {
+  address: string;
+  balance: string;
+  share: number; // % de la supply totale
+}
+
+export interface TokenLaunchMarket {
+  name: string;
+  price: number;
+  marketCap: number;
+  volume: number;
+  change24h: number;
+}
+
+export interface TokenLaunchPerformance {
+  launchPrice: number | null;            // Open de la première bougie journalière suivant le déploiement
+  priceChangeSinceLaunch: number | null; // En %
+  deployCostUsd: number | null;          // Gas de l'auction, converti au prix HYPE du jour pour les auctions en HYPE
+  marketCapToDeployCost: number | null;
+  daysSinceLaunch: number | null;        // null si la date de déploiement est inconnue
+}
+
+export interface TokenLaunchReport {
+  tokenId: string;
+  name: string;
+  fullName: string | null;
+  deployer: string;
+  deployTime: string | null;             // null si inconnue (tokens genesis)
+  deployGas: string;
+  seededUsdc: string;
+  maxSupply: string;
+  totalSupply: string;
+  circulatingSupply: string;
+  auction: AuctionInfoWithCurrency | null;
+  genesis: {
+    holdersCount: number;
+    allocatedSupply: number;
+    allocatedShare: number; // % de la supply totale alloué au genesis
+    topAllocations: TokenGenesisAllocation[];
+    existingTokenBalances: ExistingTokenBalance[];
+  };
+  market: TokenLaunchMarket | null;
+  performance: TokenLaunchPerformance;
+  generatedAt: string;
+}
+
+export interface RecentDeployment {
+  tokenId: string | null;
+  name: string;
+  deployer: string;
+  time: number;
+  deployTime: string;
+  currency: 'USDC' | 'HYPE';
+  deployGas: string; // Montant absolu
+  market: TokenLaunchMarket | null;
+  performance: TokenLaunchPerformance;
+}
+
+export interface RecentDeploymentsParams {
+  days: number;
+  limit: number;
+}
+
+export interface RecentDeploymentsResponse {
+  data: RecentDeployment[];
+  metadata: {
+    total: number;
+    since: string;
+    generatedAt: string;
+  };
+}
@@ -51,7 +51,7 @@ export interface LiquidationResponse {
   data: Liquidation[];
   total_count: number | null;
   execution_time_ms: number;
-  next_cursor: string | null;  // For keyset pagination: "<time_ms>:<tid>"
+  next_cursor: string | null;  // For keyset pagination: "<time_ms>:<tid>" ("db:<time_ms>:<tid>" from the local history)
   has_more: boolean;
 }
 
@@ -191,6 +191,233 @@ export interface LiquidationChartDataResponse {
   };
 }
 
+/**
+ * Price used to place a liquidation in a price band
+ */
+export type HeatmapPriceSource = 'mark' | 'fill';
+
+/**
+ * Query parameters for /liquidations/heatmap
+ */
+export interface LiquidationHeatmapParams {
+  period: ChartPeriod;
+  coin?: string;
+  priceSource: HeatmapPriceSource;
+  bandPct?: number;
+  bandWidth?: number;
+  maxCoins: number;
+}
+
+/**
+ * Notional liquidated in one price band (all time windows, or one window)
+ */
+export interface HeatmapBand {
+  priceLow: number;
+  priceHigh: number;
+  totalVolume: number;
+  longVolume: number;
+  shortVolume: number;
+  liquidationsCount: number;
+  longCount: number;
+  shortCount: number;
+}
+
+/**
+ * Price band within a time window (sparse grid: only non-empty cells)
+ */
+export interface HeatmapCell extends HeatmapBand {
+  timestamp: string;          // Start of time window (ISO)
+  timestampMs: number;
+}
+
+/**
+ * Heatmap for a single coin
+ */
+export interface CoinHeatmap {
+  coin: string;
+  bandWidth: number;          // Width of a price band in USD
+  totalVolume: number;
+  longVolume: number;
+  shortVolume: number;
+  liquidationsCount: number;
+  bands: HeatmapBand[];       // Price-level clusters, sorted by price ascending
+  cells: HeatmapCell[];       // Time x price grid, sorted by time then price
+}
+
+/**
+ * Response for /liquidations/heatmap
+ */
+export interface LiquidationHeatmapResponse {
+  success: boolean;
+  period: ChartPeriod;
+  interval: ChartInterval;
+  priceSource: HeatmapPriceSource;
+  bandPct: number | null;     // Band width as % of the coin reference price
+  bandWidth: number | null;   // Absolute band width (single coin only)
+  coins: CoinHeatmap[];
+  metadata: {
+    totalLiquidations: number;
+    executionTimeMs: number;
+    cachedAt: string;
+  };
+}
+
+/**
+ * Liquidation totals for a wallet over a window
+ */
+export interface WalletLiquidationWindowStats {
+  liquidationsCount: number;
+  longCount: number;
+  shortCount: number;
+  notionalLost: number;       // Sum of notional_total
+  feesPaid: number;           // Sum of fee_total_liquidated
+}
+
+/**
+ * Per-coin breakdown of a wallet liquidations
+ */
+export interface WalletLiquidationCoinStats extends WalletLiquidationWindowStats {
+  coin: string;
+  lastLiquidatedAt: string;
+}
+
+/**
+ * Response for /liquidations/wallet/:address
+ */
+export interface WalletLiquidationProfileResponse {
+  success: boolean;
+  address: string;
+  lifetime: WalletLiquidationWindowStats & {
+    firstLiquidatedAt: string | null;
+    lastLiquidatedAt: string | null;
+  };
+  windows: {
+    '24h': WalletLiquidationWindowStats;
+    '7d': WalletLiquidationWindowStats;
+    '30d': WalletLiquidationWindowStats;
+  };
+  coins: WalletLiquidationCoinStats[];  // Sorted by notional lost, descending
+  recent: Liquidation[];                // Most recent events first
+  metadata: {
+    pagesLoaded: number;
+    truncated: boolean;                 // true if the history exceeds the fetch limit
+    executionTimeMs: number;
+    cachedAt: string;
+  };
+}
+
+/**
+ * Sort keys for the liquidator leaderboard
+ */
+export type LiquidatorSortBy = 'volume' | 'count' | 'coins';
+
+/**
+ * Liquidator ranking entry
+ * Volume of a liquidation is split equally between its liquidators
+ */
+export interface LiquidatorEntry {
+  rank: number;
+  address: string;
+  isHlp: boolean;
+  volumeAbsorbed: number;
+  longVolume: number;         // Volume absorbed from Long liquidations
+  shortVolume: number;        // Volume absorbed from Short liquidations
+  liquidationsCount: number;  // Liquidations the address took part in
+  coinsCovered: number;
+  topCoins: string[];         // Top 3 coins by volume absorbed
+  volumeShare: number;        // % of the period volume
+}
+
+/**
+ * Liquidator analytics for a single period
+ */
+export interface LiquidatorPeriodData {
+  totalVolume: number;
+  liquidationsCount: number;
+  uniqueLiquidators: number;
+  hlp: {
+    volumeAbsorbed: number;
+    liquidationsCount: number;
+    volumeShare: number;      // % of the period volume absorbed by HLP
+    countShare: number;       // % of liquidations HLP took part in
+  };
+  leaderboard: LiquidatorEntry[];
+}
+
+/**
+ * Response for /liquidations/liquidators
+ */
+export interface LiquidatorLeaderboardResponse {
+  success: boolean;
+  sortBy: LiquidatorSortBy;
+  periods: Record<ChartPeriod, LiquidatorPeriodData>;
+  metadata: {
+    hlpAddresses: string[];
+    executionTimeMs: number;
+    cachedAt: string;
+  };
+}
+
+/**
+ * Threshold that flagged a cascade
+ */
+export type CascadeTrigger = 'count' | 'notional';
+
+/**
+ * Burst of liquidations on one coin within the cascade window
+ */
+export interface LiquidationCascade {
+  id: string;                 // "<coin>-<first tid>"
+  coin: string;
+  status: 'active' | 'ended'; // active: still receiving liquidations
+  startTime: string;          // ISO
+  startTimeMs: number;
+  endTime: string;            // ISO, last liquidation of the cascade
+  endTimeMs: number;
+  durationSeconds: number;
+  liquidationsCount: number;
+  totalNotional: number;
+  longNotional: number;
+  shortNotional: number;
+  dominantSide: 'Long' | 'Short';
+  firstMarkPx: number;
+  lastMarkPx: number;
+  priceMovePct: number;       // Mark price change from first to last liquidation
+  triggers: CascadeTrigger[];
+  tids: number[];
+  detectedAt: string;
+}
+
+/**
+ * Response for /liquidations/cascades
+ */
+export interface LiquidationCascadesResponse {
+  success: boolean;
+  data: LiquidationCascade[];
+  config: {
+    windowSeconds: number;
+    minCount: number;
+    minNotionalUsd: number;
+  };
+}
+
+/**
+ * Export formats for /liquidations/export
+ */
+export type LiquidationExportFormat = 'csv' | 'ndjson';
+
+/**
+ * Parameters for a liquidations export (time range is required)
+ */
+export interface LiquidationExportParams {
+  format: LiquidationExportFormat;
+  startTime: string;
+  endTime?: string;
+  coin?: string;
+  user?: string;
+  amountDollars?: number;
+}
+
 export class LiquidationsError extends Error {
   constructor(
     message: string,
@@ -87,6 +87,7 @@ export interface PerpAssetContext {
 export interface PerpMarketData {
     index: number;
     name: string;
+    dex: string; // DEX du marché (MAIN_PERP_DEX ou nom du DEX HIP-3)
     price: number;
     change24h: number;
     volume: number;
@@ -96,6 +97,20 @@ export interface PerpMarketData {
     onlyIsolated: boolean;
 }
 
+// DEX perp : DEX principal ou DEX déployé par un builder (HIP-3)
+export interface PerpDex {
+    name: string;
+    fullName: string;
+    deployer: string | null;
+}
+
+export interface PerpDexTotals {
+    dex: string;
+    totalPairs: number;
+    totalVolume24h: number;
+    totalOpenInterest: number; // En dollars
+}
+
 // Types pour les statistiques globales
 export interface SpotGlobalStats {
     totalVolume24h: number;
@@ -110,6 +125,7 @@ export interface PerpGlobalStats {
     totalVolume24h: number;
     totalPairs: number;
     hlpTvl: number; // TVL du vault HLP
+    dexes: PerpDexTotals[];
 }
 
 export interface GlobalStats {
@@ -189,6 +205,54 @@ export interface TokenInfoResponseWrapper extends BaseResponse {
     data: TokenInfoResponse;
 }
 
+// Types pour la concentration des holders d'un token spot (répartition genesis)
+export type TokenConcentrationMetric =
+    | 'top10Share'
+    | 'top50Share'
+    | 'gini'
+    | 'hhi'
+    | 'deployerShare'
+    | 'nonCirculatingShare';
+
+export interface TokenConcentration {
+    tokenId: string;
+    name: string;
+    holdersCount: number;
+    totalSupply: number;
+    circulatingSupply: number;
+    top10Share: number;          // % de la supply totale détenu par les 10 premiers holders
+    top50Share: number;          // % de la supply totale détenu par les 50 premiers holders
+    gini: number;                // 0 (répartition égale) à 1 (concentration maximale)
+    hhi: number;                 // Herfindahl-Hirschman, 0 à 10 000
+    deployerShare: number;       // % de la supply totale détenu par le deployer
+    nonCirculatingShare: number; // % de la supply totale hors circulation
+    updatedAt: string;
+}
+
+export interface TokenConcentrationRankingParams {
+    sortBy: TokenConcentrationMetric;
+    limit: number;
+    minHolders: number;
+}
+
+export interface TokenConcentrationRankingResponse {
+    success: boolean;
+    sortBy: TokenConcentrationMetric;
+    data: {
+        mostConcentrated: TokenConcentration[];
+        leastConcentrated: TokenConcentration[];
+    };
+    metadata: {
+        totalTokens: number;
+        cachedAt: string;
+    };
+}
+
+export interface TokenConcentrationResponse {
+    success: boolean;
+    data: TokenConcentration;
+}
+
 // Types pour le tri et la pagination
 export interface SortIndices {
     volume: number[];
@@ -232,4 +296,192 @@ export interface PerpMarketQueryParams {
     page?: number;
     token?: string;
     pair?: string;
-}
\ No newline at end of file
+    dex?: string;
+}
+
+// Types pour l'historique de funding perp
+export type FundingRankBy = 'current' | '7d' | '30d';
+
+export interface FundingAverage {
+    funding: number;          // Taux horaire moyen
+    apr: number;              // Annualisé, en %
+    samples: number;          // Nombre d'heures enregistrées
+}
+
+export interface FundingRankEntry {
+    coin: string;
+    funding: number;          // Taux horaire courant
+    fundingApr: number;
+    premium: number;
+    openInterestUsd: number;
+    avg7d: FundingAverage | null;
+    avg30d: FundingAverage | null;
+}
+
+export interface FundingRankingResponse {
+    success: boolean;
+    rankBy: FundingRankBy;
+    data: {
+        mostPositive: FundingRankEntry[];
+        mostNegative: FundingRankEntry[];
+    };
+    metadata: {
+        totalMarkets: number;
+        cachedAt: string;
+    };
+}
+
+export interface FundingHistoryPoint {
+    time: string;
+    timeMs: number;
+    funding: number;
+    apr: number;
+    premium: number;
+    oraclePx: number;
+    markPx: number;
+}
+
+export interface FundingHistoryResponse {
+    success: boolean;
+    data: {
+        coin: string;
+        current: {
+            funding: number;
+            apr: number;
+            premium: number;
+            oraclePx: number;
+            markPx: number;
+        } | null;
+        averages: {
+            '24h': FundingAverage | null;
+            '7d': FundingAverage | null;
+            '30d': FundingAverage | null;
+        };
+        history: FundingHistoryPoint[];
+    };
+}
+
+// Types pour l'historique d'open interest perp
+export type OpenInterestWindow = '1h' | '4h' | '24h';
+export type OpenInterestInterval = '5m' | '1h' | '1d';
+export type OpenInterestSignal = 'long_buildup' | 'short_buildup' | 'long_unwinding' | 'short_covering' | 'neutral';
+
+export interface OpenInterestChange {
+    oiChangeUsd: number;
+    oiChangePct: number;
+    priceChangePct: number;
+    signal: OpenInterestSignal;
+}
+
+export interface OpenInterestScreenerEntry {
+    coin: string;
+    price: number;
+    openInterest: number;     // En coins
+    openInterestUsd: number;
+    volume24h: number;
+    funding: number;
+    changes: Record<OpenInterestWindow, OpenInterestChange | null>;
+}
+
+export interface OpenInterestScreenerParams {
+    window: OpenInterestWindow;
+    sortBy: 'oiChangeUsd' | 'oiChangePct' | 'priceChangePct' | 'openInterestUsd';
+    sortOrder: 'asc' | 'desc';
+    minOpenInterestUsd: number;
+    limit: number;
+}
+
+export interface OpenInterestScreenerResponse {
+    success: boolean;
+    data: OpenInterestScreenerEntry[];
+    metadata: {
+        window: OpenInterestWindow;
+        sortBy: OpenInterestScreenerParams['sortBy'];
+        sortOrder: OpenInterestScreenerParams['sortOrder'];
+        totalMarkets: number;
+        cachedAt: string;
+    };
+}
+
+export interface OpenInterestHistoryPoint {
+    time: string;
+    timeMs: number;
+    openInterest: number;
+    openInterestUsd: number;
+    price: number;
+}
+
+export interface OpenInterestHistoryResponse {
+    success: boolean;
+    data: {
+        coin: string;
+        interval: OpenInterestInterval;
+        current: {
+            openInterest: number;
+            openInterestUsd: number;
+            price: number;
+        } | null;
+        history: OpenInterestHistoryPoint[];
+    };
+}
+
+// Types pour les bougies OHLCV spot / perp
+export type CandleMarketType = 'spot' | 'perp';
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export interface Candle {
+    openTime: number;         // ms
+    closeTime: number;        // ms, exclusif
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;           // Notionnel en USDC
+}
+
+export interface CandlesQueryParams {
+    interval: CandleInterval;
+    startTime?: number;       // ms
+    endTime?: number;         // ms
+    limit: number;
+}
+
+export interface CandlesResponse {
+    success: boolean;
+    data: {
+        market: string;
+        marketType: CandleMarketType;
+        interval: CandleInterval;
+        candles: Candle[];
+    };
+}
+
+// Types pour le moniteur de basis perp (mark vs oracle)
+export interface PerpBasisData {
+    name: string;
+    markPx: number;
+    oraclePx: number;
+    midPx: number | null;
+    basis: number;            // markPx - oraclePx
+    basisPct: number;         // basis / oraclePx, en %
+    premium: number;          // Premium de funding (fraction)
+    premiumPct: number;
+    impactBidPx: number | null;
+    impactAskPx: number | null;
+    impactSpreadBps: number | null; // Écart impactPxs ask/bid, proxy de liquidité
+    funding: number;
+    volume: number;
+    openInterest: number;     // En dollars
+    isAlert: boolean;         // |basisPct| >= seuil
+}
+
+export interface PerpBasisQueryParams {
+    sortBy?: 'basisPct' | 'absBasisPct' | 'premium' | 'impactSpreadBps' | 'volume' | 'openInterest' | 'name';
+    sortOrder?: 'asc' | 'desc';
+    limit?: number;
+    page?: number;
+    token?: string;
+    pair?: string;
+    threshold?: number;       // Seuil d'alerte sur |basisPct|, en %
+    alertsOnly?: boolean;
+}
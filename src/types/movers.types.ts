@@ -0,0 +1,77 @@
+import { StreamBroadcastMessage, StreamSSEClient, StreamSSEEvent } from './sse.types';
+
+export type MoverMarketType = 'spot' | 'perp';
+
+export type MoverAnomalyType =
+  | 'price_zscore'
+  | 'volume_zscore'
+  | 'oi_zscore'
+  | 'new_high_24h'
+  | 'new_low_24h';
+
+/**
+ * Market anomaly detected on successive spot / perp snapshots
+ */
+export interface MoverAnomaly {
+  id: string;                          // "<timeMs>-<marketType>-<market>-<type>", used as SSE event ID
+  type: MoverAnomalyType;
+  marketType: MoverMarketType;
+  market: string;                      // Market name as exposed by /market/spot or /market/perp
+  direction: 'up' | 'down';
+  price: number;
+  value: number;                       // Observed 1-minute change (price %, volume $, OI $) or the new price extreme
+  zScore: number | null;               // Null for new highs / lows
+  mean: number | null;                 // Trailing window mean of the 1-minute changes
+  stdDev: number | null;               // Trailing window standard deviation
+  previousExtreme: number | null;      // Previous 24h high / low, for new highs / lows
+  change24h: number;                   // 24h price change in %
+  volume24h: number;                   // 24h notional volume in $
+  openInterestUsd: number | null;      // Perp only
+  timeMs: number;
+  time: string;                        // ISO timestamp
+}
+
+export interface MoversQueryParams {
+  marketType?: MoverMarketType;
+  types?: MoverAnomalyType[];
+  coins?: string[];
+  minZScore?: number;
+  hours: number;
+  limit: number;
+}
+
+export interface MoversResponse {
+  data: MoverAnomaly[];
+  metadata: {
+    total: number;
+    byType: Record<MoverAnomalyType, number>;
+    since: string;
+    zScoreThreshold: number;
+    trackedMarkets: number;
+  };
+}
+
+/**
+ * Filter options for movers SSE subscriptions
+ */
+export interface MoversStreamFilters {
+  marketType?: MoverMarketType;
+  types?: MoverAnomalyType[];
+  coins?: string[];                    // Uppercase market names
+  minZScore?: number;                  // Only applies to z-score anomalies
+}
+
+/**
+ * Movers SSE client connection
+ */
+export type MoversSSEClient = StreamSSEClient<MoversStreamFilters>;
+
+/**
+ * Movers SSE event data structure (id: anomaly ID)
+ */
+export type MoversSSEEvent = StreamSSEEvent<'anomaly', MoverAnomaly>;
+
+/**
+ * Redis pub/sub message for cross-instance communication
+ */
+export type MoversBroadcastMessage = StreamBroadcastMessage<MoverAnomaly>;
@@ -0,0 +1,55 @@
+import { ScreenerField, ScreenerMarket } from '../constants/screener.constants';
+import { BasePagination } from './common.types';
+
+export type ScreenerOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+/**
+ * Arbre d'une expression de filtre, ex: volume>1e6 AND (change24h<-5 OR funding>0)
+ */
+export type ScreenerExpression =
+  | { type: 'comparison'; field: ScreenerField; operator: ScreenerOperator; value: number }
+  | { type: 'and' | 'or'; children: ScreenerExpression[] };
+
+export interface ScreenerSortKey {
+  field: ScreenerField | 'name';
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Ligne du screener : champs communs spot / perp, les champs propres à un type valent undefined pour l'autre
+ */
+export interface ScreenerRow {
+  type: 'spot' | 'perp';
+  name: string;
+  price: number;
+  volume: number;
+  change24h: number;
+  marketCap?: number;
+  midPrice?: number;          // midPx (exposé comme `liquidity` dans le cache spot)
+  supply?: number;
+  tokenId?: string;
+  openInterest?: number;      // En dollars (en coins sur les autres endpoints perp)
+  funding?: number;
+  fundingApr?: number;        // En %
+  maxLeverage?: number;
+}
+
+export interface ScreenerQuery {
+  market: ScreenerMarket;
+  filter?: string;
+  sort?: string;
+  limit: number;
+  page: number;
+}
+
+export interface ScreenerResult {
+  data: ScreenerRow[];
+  pagination: BasePagination;
+  metadata: {
+    market: ScreenerMarket;
+    filter: string | null;
+    sort: ScreenerSortKey[];
+    matched: number;
+    scanned: number;
+  };
+}
@@ -1,5 +1,6 @@
 import { Response } from 'express';
-import { Liquidation } from './liquidations.types';
+import { WebSocket } from 'ws';
+import { Liquidation, LiquidationCascade } from './liquidations.types';
 
 /**
  * SSE client connection with filter preferences
@@ -9,8 +10,9 @@ export interface SSEClient {
   res: Response;                       // Express Response object
   filters: SSEClientFilters;           // Client's filter preferences
   connectedAt: number;                 // Connection timestamp
-  lastEventId: number | null;          // Last sent tid (for resume)
+  lastEventId: string | null;          // Last sent stream entry ID (for resume)
   ip: string;                          // Client IP for rate limiting
+  replayBuffer?: SSELiquidationEvent[]; // Live events held while missed events are replayed
 }
 
 /**
@@ -18,25 +20,45 @@ export interface SSEClient {
  */
 export interface SSEClientFilters {
   coin?: string;                       // Filter by coin (e.g., "BTC", "ETH")
+  coins?: string[];                    // Filter by any of these coins (uppercase)
+  liqDir?: 'Long' | 'Short';           // Filter by liquidated side
   minAmountDollars?: number;           // Minimum notional value filter
+  maxAmountDollars?: number;           // Maximum notional value filter
   user?: string;                       // Filter by liquidated wallet address
+  walletListId?: number;               // Filter by the addresses of a wallet list
+  walletAddresses?: Set<string>;       // Wallet list addresses (lowercase), resolved on connect
 }
 
 /**
  * SSE event data structure
  */
 export interface SSELiquidationEvent {
-  type: 'liquidation' | 'heartbeat' | 'connected' | 'error';
-  data: Liquidation | Liquidation[] | null;
-  id?: number;                         // Event ID (tid for liquidations)
+  type: 'liquidation' | 'cascade' | 'replay' | 'heartbeat' | 'connected' | 'error';
+  data: Liquidation | Liquidation[] | LiquidationCascade | SSEReplayStatus | null;
+  id?: string;                         // Event ID (replay stream entry ID for liquidations)
   timestamp: string;                   // ISO timestamp
 }
 
+/**
+ * Result of a Last-Event-ID replay, sent once the missed liquidations are replayed
+ */
+export interface SSEReplayStatus {
+  fromEventId: string;                 // Last-Event-ID sent by the client
+  replayedCount: number;               // Liquidations replayed (after filters)
+  complete: boolean;                   // false when the gap exceeds the retention window
+  gapTooLarge: boolean;
+  oldestAvailableEventId: string | null;
+  retentionSeconds: number;
+  message?: string;                    // Explanation when the replay is incomplete
+}
+
 /**
  * Redis pub/sub message for cross-instance communication
  */
 export interface SSEBroadcastMessage {
   newLiquidations: Liquidation[];
+  streamIds?: string[];                // Replay stream entry IDs, same order as newLiquidations
+  cascades?: LiquidationCascade[];     // Cascade detections/updates
   timestamp: string;
 }
 
@@ -47,3 +69,84 @@ export interface SSEConnectionStats {
   totalConnections: number;
   uniqueIps: number;
 }
+
+/**
+ * WebSocket client connection, with one or more named subscriptions
+ */
+export interface WSClient {
+  id: string;                                  // Unique connection ID (UUID)
+  socket: WebSocket;                           // ws socket
+  subscriptions: Map<string, SSEClientFilters>; // Subscription ID -> filters
+  connectedAt: number;                         // Connection timestamp
+  ip: string;                                  // Client IP for rate limiting
+  isAlive: boolean;                            // Pong received since last heartbeat
+  accessToken?: string;                        // Privy token from the upgrade request (private wallet lists)
+  messageCount: number;                        // Client messages in the current window
+  messageWindowStart: number;                  // Start of the message rate window
+}
+
+/**
+ * Subscription acknowledgement sent to WebSocket clients
+ */
+export interface WSSubscriptionAck {
+  id: string;                                  // Subscription ID
+  filters: Omit<SSEClientFilters, 'walletAddresses'>;
+  walletAddressesCount?: number;               // Resolved wallet list size
+}
+
+/**
+ * WebSocket server message: stream events plus subscription acknowledgements
+ */
+export interface WSServerMessage {
+  type: SSELiquidationEvent['type'] | 'subscribed' | 'unsubscribed';
+  data: SSELiquidationEvent['data'] | WSSubscriptionAck | { ids: string[] } | { message: string; code: string };
+  id?: string;                                 // Event ID (replay stream entry ID for liquidations)
+  subscriptions?: string[];                    // Subscriptions matched by a liquidation or cascade
+  timestamp: string;                           // ISO timestamp
+}
+
+/**
+ * WebSocket connection statistics
+ */
+export interface WSConnectionStats extends SSEConnectionStats {
+  totalSubscriptions: number;
+}
+
+/**
+ * Configuration of a filtered broadcast stream (see BaseSSEManagerService)
+ */
+export interface SSEStreamConfig {
+  REDIS_CHANNEL: string;
+  HEARTBEAT_INTERVAL_MS: number;
+  MAX_CONNECTIONS_PER_IP: number;
+  MAX_TOTAL_CONNECTIONS: number;
+}
+
+/**
+ * SSE client connection of a filtered broadcast stream
+ */
+export interface StreamSSEClient<TFilters> {
+  id: string;                          // Unique connection ID (UUID)
+  res: Response;                       // Express Response object
+  filters: TFilters;
+  connectedAt: number;
+  ip: string;                          // Client IP for rate limiting
+}
+
+/**
+ * SSE event of a filtered broadcast stream
+ */
+export interface StreamSSEEvent<TType extends string, TData> {
+  type: TType | 'heartbeat' | 'connected';
+  data: TData | null;
+  id?: string;
+  timestamp: string;                   // ISO timestamp
+}
+
+/**
+ * Redis pub/sub message of a filtered broadcast stream
+ */
+export interface StreamBroadcastMessage<TItem> {
+  items: TItem[];
+  timestamp: string;
+}
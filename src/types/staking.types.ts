@@ -1,3 +1,4 @@
+import { StreamBroadcastMessage, StreamSSEClient, StreamSSEEvent } from './sse.types';
 import { BaseResponse, PaginatedResponse, BasePagination } from './common.types';
 
 // Types de base pour les validateurs
@@ -65,6 +66,150 @@ export interface ValidatorOverallStats {
   totalHypeStaked: number;
 }
 
+// Types pour l'historique des validateurs
+export type ValidatorHistoryInterval = '15m' | '1h' | '1d';
+
+export interface ValidatorSnapshotPoint {
+  time: string; // ISO date string
+  timeMs: number;
+  stake: number; // En HYPE
+  commission: number; // En %
+  uptime: number; // En %
+  apr: number; // En %
+  isActive: boolean;
+  isJailed: boolean;
+  unjailableAfter: number | null;
+  nRecentBlocks: number;
+}
+
+export type ValidatorEventType =
+  | 'stake_increase'
+  | 'stake_decrease'
+  | 'commission_increase'
+  | 'commission_decrease'
+  | 'jailed'
+  | 'unjailed'
+  | 'activated'
+  | 'deactivated'
+  | 'uptime_drop';
+
+export interface ValidatorEvent {
+  id: number;
+  validator: string;
+  name: string;
+  type: ValidatorEventType;
+  previousValue: number | null; // Stake (HYPE), commission (%) ou uptime (%) selon le type
+  currentValue: number | null;
+  unjailableAfter: number | null; // Renseigné pour les événements jailed
+  time: string; // ISO date string
+  timeMs: number;
+}
+
+export interface ValidatorHistoryResponse extends BaseResponse {
+  data: {
+    validator: string;
+    name: string;
+    interval: ValidatorHistoryInterval;
+    current: ValidatorSnapshotPoint | null;
+    history: ValidatorSnapshotPoint[];
+    events: ValidatorEvent[];
+  };
+}
+
+export interface ValidatorEventsQueryParams {
+  validators?: string[];
+  types?: ValidatorEventType[];
+  hours: number;
+  limit: number;
+}
+
+export interface ValidatorEventsResponse extends BaseResponse {
+  data: ValidatorEvent[];
+  metadata: {
+    total: number;
+    since: string;
+  };
+}
+
+/**
+ * Filtres des abonnements SSE aux événements validateurs
+ */
+export interface ValidatorEventsStreamFilters {
+  validators?: string[]; // Adresses en minuscules
+  types?: ValidatorEventType[];
+}
+
+export type ValidatorEventsSSEClient = StreamSSEClient<ValidatorEventsStreamFilters>;
+
+export type ValidatorEventsSSEEvent = StreamSSEEvent<'validator_event', ValidatorEvent>;
+
+export type ValidatorEventsBroadcastMessage = StreamBroadcastMessage<ValidatorEvent>;
+
+// Types pour le simulateur de rendement de staking
+export interface StakingSimulationInput {
+  amount: number; // En HYPE
+  validators: { address: string; weight: number }[];
+  horizonDays: number;
+  compound: boolean;
+  compareLimit: number;
+}
+
+export interface StakingSimulationAllocation {
+  validator: string;
+  name: string;
+  weight: number; // Part de l'allocation en %, après normalisation des poids
+  amount: number; // En HYPE
+  grossApr: number; // predictedApr, en %
+  commission: number; // En %
+  uptime: number; // En %
+  effectiveApr: number; // Net de commission, ajusté de l'uptime, en %
+  expectedRewards: number; // En HYPE sur l'horizon
+  isActive: boolean;
+  isJailed: boolean;
+}
+
+export interface StakingSimulationComparison {
+  validator: string;
+  name: string;
+  grossApr: number;
+  commission: number;
+  uptime: number;
+  effectiveApr: number;
+  expectedRewards: number; // Montant total délégué à ce seul validateur, en HYPE sur l'horizon
+  stake: number;
+  isActive: boolean;
+  isJailed: boolean;
+  selected: boolean;
+}
+
+export interface StakingSimulationWarning {
+  validator: string;
+  name: string;
+  type: 'jailed' | 'inactive';
+  message: string;
+  unjailableAfter: number | null;
+}
+
+export interface StakingSimulationResult {
+  amount: number;
+  horizonDays: number;
+  compound: boolean;
+  totals: {
+    expectedRewards: number;
+    finalAmount: number;
+    effectiveApr: number; // Moyenne pondérée, en %
+    grossApr: number; // Moyenne pondérée, en %
+  };
+  allocations: StakingSimulationAllocation[];
+  comparison: StakingSimulationComparison[];
+  warnings: StakingSimulationWarning[];
+  generatedAt: string;
+}
+
+export interface StakingSimulationResponse extends BaseResponse {
+  data: StakingSimulationResult;
+}
+
 // Types pour les actions de validation/delegation
 export interface ValidationAction {
   type: string;
@@ -125,6 +270,45 @@ export interface UnstakingQueueResponse extends BaseResponse {
   pagination?: BasePagination;
 }
 
+// Types pour le calendrier de déblocage de la queue de unstaking
+export interface UnstakingCalendarParams {
+  days: number;
+  top: number;
+}
+
+export interface UnstakingCalendarBucket {
+  time: string; // ISO date string, début de l'heure ou du jour
+  totalTokens: number;
+  transactionCount: number;
+  uniqueUsers: number;
+}
+
+export interface UnstakingRestakeRatio {
+  lookbackDays: number;
+  windowDays: number; // Délai après déblocage dans lequel une délégation compte comme re-stake
+  unlockedTokens: number;
+  restakedTokens: number;
+  ratio: number | null; // restakedTokens / unlockedTokens
+  unlockCount: number;
+  restakedCount: number;
+  delegationsSince: string | null; // Plus ancienne délégation disponible
+}
+
+export interface UnstakingCalendar {
+  hourly: UnstakingCalendarBucket[];
+  daily: UnstakingCalendarBucket[];
+  largestReleases: UnstakingQueueInfo[];
+  totals: {
+    totalTokens: number;
+    transactionCount: number;
+    uniqueUsers: number;
+  };
+  restakeRatio: UnstakingRestakeRatio;
+  from: string;
+  to: string;
+  lastUpdate: number;
+}
+
 // Types pour les staked holders
 export interface StakedHoldersData {
   token: string;
@@ -136,4 +320,49 @@ export interface StakedHoldersData {
 export interface StakedHolder {
   address: string;
   amount: number;
-} 
\ No newline at end of file
+} 
+export type StakedHolderChangeWindow = '24h' | '7d';
+
+export type StakedHolderChangeDirection = 'accumulators' | 'distributors';
+
+export interface StakedHolderChangesParams {
+  window: StakedHolderChangeWindow;
+  limit: number;
+}
+
+export interface StakedHolderChange {
+  address: string;
+  currentAmount: number;
+  previousAmount: number;
+  change: number;
+  changePct: number | null; // null si le holder n'avait rien au début de la fenêtre
+}
+
+export interface StakedHolderChangesResponse extends BaseResponse {
+  data: StakedHolderChange[];
+  metadata: {
+    window: StakedHolderChangeWindow;
+    direction: StakedHolderChangeDirection;
+    since: string;
+    coverageStart: string | null; // Premier snapshot disponible, postérieur à `since` si l'historique est plus court
+    lastSnapshot: string | null;
+  };
+}
+
+export interface StakedHolderHistoryPoint {
+  time: string;
+  timeMs: number;
+  amount: number;
+  change: number;
+}
+
+export interface StakedHolderHistoryResponse extends BaseResponse {
+  data: {
+    address: string;
+    currentAmount: number;
+    rank: number | null;
+    change24h: number | null;
+    change7d: number | null;
+    history: StakedHolderHistoryPoint[];
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Telegram user as exposed by the API
+ * telegramId is serialized as a string because it is stored as BigInt
+ */
+export interface TelegramUserResponse {
+  id: string;
+  telegramId: string;
+  username: string | null;
+  firstName: string | null;
+  linkedUserId: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Liquidation alert subscription
+ */
+export interface TelegramSubscriptionResponse {
+  id: string;
+  telegramUserId: string;
+  name: string;
+  isActive: boolean;
+  subscriptionType: string;
+  filterCoins: string[];
+  filterMinUsd: number;
+  filterWallets: string[];
+  useLinkedWallets: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * One-time code used to link a Telegram account to a LiquidTerminal user
+ */
+export interface TelegramLinkCodeResponse {
+  code: string;
+  expiresInSeconds: number;
+}
+
+/**
+ * Outgoing bot message, independent from the underlying transport
+ */
+export interface TelegramOutgoingMessage {
+  chatId: string;
+  text: string;
+  parseMode?: 'HTML' | 'MarkdownV2';
+  disableWebPagePreview?: boolean;
+}
+
+/**
+ * Pluggable transport used to deliver bot messages
+ * The default implementation calls the Telegram Bot API, tests can inject a local fake
+ */
+export interface TelegramTransport {
+  sendMessage(message: TelegramOutgoingMessage): Promise<void>;
+}
+
+/**
+ * Result of a liquidation alert dispatch run
+ */
+export interface TelegramDispatchResult {
+  matched: number;      // (user, liquidation) pairs matching at least one subscription
+  skipped: number;      // Pairs already delivered (deduplicated through TelegramSentAlert)
+  sent: number;         // Messages successfully delivered
+  failed: number;       // Messages the transport could not deliver
+}
@@ -115,4 +115,73 @@ export interface VaultQueryParams {
   name?: string;
   leader?: string;
   isClosed?: boolean;
-} 
\ No newline at end of file
+} 
+// Types pour le détail d'un vault (courbes normalisées et métriques)
+export interface VaultPerformancePoint {
+  time: number;
+  accountValue: number;
+  pnl: number;
+  cumulativeReturn: number; // En %, rendement pondéré dans le temps (hors dépôts / retraits)
+}
+
+export interface VaultPerformanceMetrics {
+  totalReturn: number; // En %
+  pnl: number;
+  maxDrawdown: number; // En %, sur la courbe de rendement cumulé
+  volatility: number | null; // En %, annualisée
+  sharpeRatio: number | null; // Rendement moyen / écart-type des rendements par période, annualisé, sans taux sans risque
+  volume: number;
+}
+
+export interface VaultPerformance {
+  timeFrame: TimeFrame;
+  points: VaultPerformancePoint[];
+  metrics: VaultPerformanceMetrics;
+}
+
+export interface VaultFollowerShare {
+  user: string;
+  equity: number;
+  share: number; // En % de l'equity des followers
+  pnl: number;
+  allTimePnl: number;
+  daysFollowing: number;
+}
+
+export interface VaultFollowerAnalytics {
+  count: number;
+  totalEquity: number;
+  top1Share: number;
+  top5Share: number;
+  top10Share: number;
+  herfindahlIndex: number; // Somme des parts au carré, de 0 à 10000
+  topFollowers: VaultFollowerShare[];
+}
+
+export interface VaultLeaderAnalytics {
+  address: string;
+  fraction: number; // En % de la TVL
+  equity: number;
+  commission: number; // En %
+  minimumFraction: number; // En %, part minimale imposée au leader
+  meetsMinimum: boolean;
+}
+
+export interface VaultAnalytics {
+  name: string;
+  vaultAddress: string;
+  description: string;
+  tvl: number;
+  apr: number;
+  isClosed: boolean;
+  allowDeposits: boolean;
+  relationship: VaultRelationship;
+  leader: VaultLeaderAnalytics;
+  followers: VaultFollowerAnalytics;
+  performance: VaultPerformance[];
+  lastUpdate: number;
+}
+
+export interface VaultAnalyticsResponse extends BaseResponse {
+  data: VaultAnalytics;
+}